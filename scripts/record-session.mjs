@@ -0,0 +1,81 @@
+// Grava sessões do Supabase como fixtures NDJSON para o modo offline.
+// Uso: npm run record-fixture -- 233 234 [--out public/fixtures]
+import { mkdir, readFile, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+import { createClient } from '@supabase/supabase-js';
+
+const TABLES = ['weather_data', 'race_control_messages', 'team_radio', 'car_positions', 'session_drivers'];
+const PAGE_SIZE = 1000;
+
+const args = process.argv.slice(2);
+const outIndex = args.indexOf('--out');
+const outDir = outIndex >= 0 ? args[outIndex + 1] : 'public/fixtures';
+const sessionIds = args
+  .filter((arg, index) => index !== outIndex && index !== outIndex + 1)
+  .map(Number)
+  .filter(Number.isFinite);
+
+if (sessionIds.length === 0) {
+  console.error('Informe ao menos um session_id. Ex.: npm run record-fixture -- 233');
+  process.exit(1);
+}
+
+const supabase = createClient(process.env.VITE_SUPABASE_URL, process.env.VITE_SUPABASE_ANON_KEY);
+
+// Lê a tabela inteira em páginas para não esbarrar no limite de linhas do PostgREST
+async function fetchAll(table, sessionId) {
+  const rows = [];
+  for (let from = 0; ; from += PAGE_SIZE) {
+    let query = supabase
+      .from(table)
+      .select('*')
+      .eq('session_id', sessionId)
+      .range(from, from + PAGE_SIZE - 1);
+    // Ordem total para as páginas não repetirem nem pularem linhas com o mesmo timestamp
+    query = table === 'session_drivers'
+      ? query.order('driver_number', { ascending: true })
+      : query.order('timestamp', { ascending: true }).order('id', { ascending: true });
+
+    const { data, error } = await query;
+    if (error) throw error;
+    rows.push(...data);
+    if (data.length < PAGE_SIZE) return rows;
+  }
+}
+
+async function readManifest() {
+  try {
+    return JSON.parse(await readFile(path.join(outDir, 'index.json'), 'utf8'));
+  } catch {
+    return { sessions: [] };
+  }
+}
+
+const manifest = await readManifest();
+
+for (const sessionId of sessionIds) {
+  const files = {};
+  await mkdir(path.join(outDir, String(sessionId)), { recursive: true });
+
+  for (const table of TABLES) {
+    const rows = await fetchAll(table, sessionId);
+    if (rows.length === 0) continue;
+
+    const file = `${sessionId}/${table}.ndjson`;
+    await writeFile(path.join(outDir, file), rows.map(row => JSON.stringify(row)).join('\n') + '\n');
+    files[table] = file;
+    console.log(`Sessão ${sessionId}: ${rows.length} linhas de ${table}`);
+  }
+
+  // Metadados do catálogo (ano, GP, circuito, tipo, início), quando existirem
+  const { data: info } = await supabase.from('sessions').select('*').eq('id', sessionId).maybeSingle();
+  if (info) delete info.id;
+
+  const previous = manifest.sessions.find(session => session.session_id === sessionId);
+  manifest.sessions = manifest.sessions
+    .filter(session => session.session_id !== sessionId)
+    .concat({ ...previous, session_id: sessionId, ...(info ? { info } : {}), files });
+}
+
+manifest.sessions.sort((a, b) => b.session_id - a.session_id);
+await writeFile(path.join(outDir, 'index.json'), JSON.stringify(manifest, null, 2) + '\n');
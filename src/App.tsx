@@ -1,11 +1,22 @@
-import { useState } from 'react';
 import { WeatherDashboard } from './components/WeatherDashboard';
 import CircuitTracker from './components/CircuitTracker';
 import TeamRadioDashboard from './components/TeamRadioDashboard';
 import RaceControlDashboard from './components/RaceControlDashboard';
+import CircuitCalibrator from './components/CircuitCalibrator';
+import AdvancedCircuitAnalytics from './components/CircuitTrackerAdv';
+import { SessionClockProvider } from './components/SessionClockProvider';
+import { useRoute, useRouteClockSync } from './hooks/useRoute';
+
+// Sincroniza o relógio com a URL (precisa estar dentro do provider)
+function RouteClockSync() {
+  useRouteClockSync();
+  return null;
+}
 
 function App() {
-  const [activeView, setActiveView] = useState<'dashboard' | 'circuit' | 'radio' | 'control'>('dashboard');
+  const [route, navigate] = useRoute();
+  const activeView = route.view;
+  const setActiveView = (view: typeof activeView) => navigate({ view });
 
   return (
     <div className="min-h-screen bg-gray-900">
@@ -29,7 +40,7 @@ function App() {
             </button>
             <button 
               onClick={() => setActiveView('circuit')}
-              className={`px-4 py-2 rounded ${activeView === 'circuit' ? 'bg-blue-600' : 'bg-gray-700'} text-white`}
+              className={`px-4 py-2 rounded ${activeView === 'circuit' || activeView === 'calibration' ? 'bg-blue-600' : 'bg-gray-700'} text-white`}
             >
               Rastreador de Pilotos
             </button>
@@ -39,15 +50,26 @@ function App() {
             >
               Controle de Corrida
             </button>
+            <button 
+              onClick={() => setActiveView('analysis')}
+              className={`px-4 py-2 rounded ${activeView === 'analysis' ? 'bg-blue-600' : 'bg-gray-700'} text-white`}
+            >
+              Análise
+            </button>
           </div>
         </div>
       </nav>
 
-      {/* Conteúdo principal */}
-      {activeView === 'dashboard' && <WeatherDashboard />}
-      {activeView === 'circuit' && <CircuitTracker />}
-      {activeView === 'radio' && <TeamRadioDashboard />}
-      {activeView === 'control' && <RaceControlDashboard />}
+      {/* Conteúdo principal (todas as views compartilham o mesmo relógio de replay) */}
+      <SessionClockProvider>
+        <RouteClockSync />
+        {activeView === 'dashboard' && <WeatherDashboard />}
+        {activeView === 'circuit' && <CircuitTracker />}
+        {activeView === 'radio' && <TeamRadioDashboard />}
+        {activeView === 'control' && <RaceControlDashboard />}
+        {activeView === 'calibration' && <CircuitCalibrator />}
+        {activeView === 'analysis' && <AdvancedCircuitAnalytics />}
+      </SessionClockProvider>
     </div>
   );
 }
@@ -0,0 +1,117 @@
+import { useMemo, useState } from 'react';
+import {
+  AreaChart,
+  Area,
+  XAxis,
+  YAxis,
+  ReferenceArea,
+  ReferenceLine,
+  ResponsiveContainer
+} from 'recharts';
+import type { RaceControlMessage } from '../lib/database.types';
+import type { ClockRange } from '../contexts/SessionClockContext';
+import { formatClockTime, toMillis } from '../lib/clock';
+import { getLeaderLapAt, type LapDetection } from '../lib/laps';
+
+// Pontos da linha do tempo (volta do líder amostrada ao longo da sessão)
+const TIMELINE_SAMPLES = 300;
+
+type AnalysisTimelineProps = {
+  extent: ClockRange;
+  range: ClockRange | null;
+  // Duração máxima do trecho (ms): o arraste para nesse limite
+  maxLength: number;
+  detection: LapDetection;
+  messages: RaceControlMessage[];
+  currentTime: number | null;
+  onChange: (range: ClockRange) => void;
+};
+
+// Mensagens marcadas na linha do tempo: safety car e bandeira vermelha
+const isMarkedMessage = (message: RaceControlMessage) =>
+  message.category === 'SafetyCar' || message.flag?.toUpperCase() === 'RED';
+
+// Linha do tempo da sessão com a volta do líder: arrastar sobre ela define o trecho analisado
+export const AnalysisTimeline = ({ extent, range, maxLength, detection, messages, currentTime, onChange }: AnalysisTimelineProps) => {
+  // Início e fim do arraste em andamento
+  const [drag, setDrag] = useState<{ start: number; end: number } | null>(null);
+
+  const data = useMemo(() => {
+    const step = Math.max(1, (extent.end - extent.start) / TIMELINE_SAMPLES);
+    return Array.from({ length: TIMELINE_SAMPLES + 1 }, (_, i) => {
+      const time = extent.start + i * step;
+      return { time, lap: getLeaderLapAt(detection, time)?.lap ?? 0 };
+    });
+  }, [extent, detection]);
+
+  const markers = useMemo(() => messages.filter(isMarkedMessage), [messages]);
+
+  const finishDrag = () => {
+    if (drag && drag.end !== drag.start) {
+      onChange({ start: Math.min(drag.start, drag.end), end: Math.max(drag.start, drag.end) });
+    }
+    setDrag(null);
+  };
+
+  const shown = drag
+    ? { start: Math.min(drag.start, drag.end), end: Math.max(drag.start, drag.end) }
+    : range;
+
+  return (
+    <div className="h-28 select-none">
+      <ResponsiveContainer width="100%" height="100%">
+        <AreaChart
+          data={data}
+          margin={{ top: 5, right: 5, left: 0, bottom: 5 }}
+          onMouseDown={state => {
+            if (state?.activeLabel !== undefined) setDrag({ start: Number(state.activeLabel), end: Number(state.activeLabel) });
+          }}
+          onMouseMove={state => {
+            if (drag && state?.activeLabel !== undefined) {
+              const end = Number(state.activeLabel);
+              setDrag({ ...drag, end: Math.min(drag.start + maxLength, Math.max(drag.start - maxLength, end)) });
+            }
+          }}
+          onMouseUp={finishDrag}
+          onMouseLeave={finishDrag}
+        >
+          <XAxis
+            dataKey="time"
+            type="number"
+            domain={[extent.start, extent.end]}
+            tickFormatter={(value: number) => formatClockTime(value)}
+            stroke="#9ca3af"
+            tick={{ fontSize: 9 }}
+          />
+          <YAxis
+            dataKey="lap"
+            allowDecimals={false}
+            stroke="#9ca3af"
+            tick={{ fontSize: 9 }}
+            width={30}
+          />
+          <Area
+            type="stepAfter"
+            dataKey="lap"
+            stroke="#60a5fa"
+            fill="#1e3a8a"
+            fillOpacity={0.6}
+            isAnimationActive={false}
+          />
+          {markers.map(message => (
+            <ReferenceLine
+              key={message.id}
+              x={toMillis(message.timestamp)}
+              stroke={message.category === 'SafetyCar' ? '#f59e0b' : '#ef4444'}
+              strokeWidth={1}
+            />
+          ))}
+          {shown && (
+            <ReferenceArea x1={shown.start} x2={shown.end} fill="#ffffff" fillOpacity={0.15} stroke="#ffffff" strokeOpacity={0.5} />
+          )}
+          {currentTime !== null && <ReferenceLine x={currentTime} stroke="#ffffff" strokeDasharray="4 4" />}
+        </AreaChart>
+      </ResponsiveContainer>
+    </div>
+  );
+};
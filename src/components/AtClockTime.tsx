@@ -0,0 +1,14 @@
+import React from 'react';
+import { useClockValue } from '../hooks/useSessionClock';
+
+type AtClockTimeProps = {
+  children: (time: number | null) => React.ReactNode;
+};
+
+// Trecho da tela que acompanha o relógio a cada quadro, sem renderizar o componente que o contém
+export const AtClockTime: React.FC<AtClockTimeProps> = ({ children }) => {
+  const time = useClockValue(current => current);
+  return <>{children(time)}</>;
+};
+
+export default AtClockTime;
@@ -0,0 +1,467 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { useClockRange } from '../hooks/useSessionClock';
+import { useSelectedSession } from '../hooks/useRoute';
+import { useCarPositionStream } from '../hooks/useCarPositionStream';
+import { useTrackOutline } from '../hooks/useTrackOutline';
+import { useCircuit } from '../hooks/useCircuit';
+import {
+  fitCalibration,
+  fitToBounds,
+  getCircuitArtworkUrl,
+  saveCircuitCalibration,
+  saveCircuitPitLane,
+  saveCircuitStartFinish,
+  toSvgPoint,
+  toTelemetryPoint,
+  type CalibrationPair,
+  type CircuitCalibration,
+  type TelemetryPoint
+} from '../lib/circuits';
+import { ReplayProgressBar } from './ReplayControls';
+import { SessionPicker } from './SessionPicker';
+
+type PickMode = 'idle' | 'telemetry' | 'svg' | 'pitLane' | 'startFinish';
+
+// Ferramenta para ajustar a calibração telemetria → SVG de um circuito.
+// Pares de pontos (telemetria, desenho) definem a transformação por mínimos quadrados;
+// o resultado pode ser refinado à mão, salvo no navegador e copiado para o registro.
+// Com a calibração pronta, o polígono da pit lane e a linha de chegada são marcados clicando
+// sobre a arte.
+const CircuitCalibrator = () => {
+  const [selectedSession] = useSelectedSession();
+  const { positions, extent } = useCarPositionStream(selectedSession);
+  const { outline } = useTrackOutline(selectedSession, positions);
+  const { circuit, artwork, calibration, pitLane, startFinish } = useCircuit(selectedSession);
+
+  const [draft, setDraft] = useState<CircuitCalibration | null>(null);
+  const [pairs, setPairs] = useState<CalibrationPair[]>([]);
+  const [pickMode, setPickMode] = useState<PickMode>('idle');
+  const [pendingTelemetry, setPendingTelemetry] = useState<{ x: number; y: number } | null>(null);
+  const [fitError, setFitError] = useState<number | null>(null);
+  // Vértices da pit lane em edição (null = exibe o polígono salvo)
+  const [pitDraft, setPitDraft] = useState<TelemetryPoint[] | null>(null);
+  const [pitError, setPitError] = useState<string | null>(null);
+  const svgRef = useRef<SVGSVGElement>(null);
+
+  useClockRange(extent?.start ?? null, extent?.end ?? null);
+
+  // Novo circuito: recomeça pela calibração salva
+  useEffect(() => {
+    setDraft(null);
+    setPairs([]);
+    setPickMode('idle');
+    setFitError(null);
+    setPitDraft(null);
+    setPitError(null);
+  }, [circuit]);
+
+  // Sem calibração salva, parte do enquadramento pelos limites da telemetria
+  useEffect(() => {
+    if (draft || !artwork) return;
+    if (calibration) {
+      setDraft(calibration);
+    } else if (outline.points.length > 0) {
+      setDraft(fitToBounds(outline.bounds, artwork));
+    }
+  }, [draft, artwork, calibration, outline]);
+
+  const updateDraft = (patch: Partial<CircuitCalibration>) => {
+    if (draft) setDraft({ ...draft, ...patch });
+  };
+
+  // Ponto do contorno da telemetria mais próximo de um ponto do desenho
+  const nearestOutlinePoint = (calibration: CircuitCalibration, svgX: number, svgY: number) => {
+    const target = toTelemetryPoint(calibration, svgX, svgY);
+    let nearest = outline.points[0];
+    let nearestDistance = Infinity;
+    outline.points.forEach(point => {
+      const distance = Math.hypot(point.x - target.x, point.y - target.y);
+      if (distance < nearestDistance) {
+        nearestDistance = distance;
+        nearest = point;
+      }
+    });
+    return nearest;
+  };
+
+  // Clique no desenho: escolhe o ponto da telemetria (mais próximo do contorno) e depois o do SVG
+  const handleClick = (e: React.MouseEvent<SVGSVGElement>) => {
+    const matrix = svgRef.current?.getScreenCTM();
+    if (!draft || !matrix || pickMode === 'idle') return;
+
+    const clicked = new DOMPoint(e.clientX, e.clientY).matrixTransform(matrix.inverse());
+
+    if (pickMode === 'pitLane') {
+      setPitDraft([...(pitDraft ?? []), toTelemetryPoint(draft, clicked.x, clicked.y)]);
+      return;
+    }
+
+    if (pickMode === 'startFinish') {
+      const nearest = nearestOutlinePoint(draft, clicked.x, clicked.y);
+      if (circuit && nearest) saveCircuitStartFinish(circuit, { x: Math.round(nearest.x), y: Math.round(nearest.y) });
+      setPickMode('idle');
+      return;
+    }
+
+    if (pickMode === 'telemetry') {
+      const nearest = nearestOutlinePoint(draft, clicked.x, clicked.y);
+      if (!nearest) return;
+      setPendingTelemetry(nearest);
+      setPickMode('svg');
+      return;
+    }
+
+    if (pendingTelemetry) {
+      setPairs([...pairs, { telemetry: pendingTelemetry, svg: { x: clicked.x, y: clicked.y } }]);
+    }
+    setPendingTelemetry(null);
+    setPickMode('idle');
+  };
+
+  const handleFitPairs = () => {
+    const { calibration: fitted, error } = fitCalibration(pairs);
+    setDraft(fitted);
+    setFitError(error);
+  };
+
+  const handleFitBounds = () => {
+    if (artwork) setDraft(fitToBounds(outline.bounds, artwork));
+  };
+
+  const handleSave = () => {
+    if (circuit && draft) saveCircuitCalibration(circuit, draft);
+  };
+
+  const handleRestore = () => {
+    if (!circuit) return;
+    saveCircuitCalibration(circuit, null);
+    setDraft(null);
+  };
+
+  const startPitLane = () => {
+    setPitDraft([]);
+    setPitError(null);
+    setPickMode('pitLane');
+  };
+
+  const handleSavePitLane = () => {
+    if (!circuit) return;
+    try {
+      saveCircuitPitLane(circuit, pitDraft);
+      setPitDraft(null);
+      setPickMode('idle');
+    } catch (error) {
+      setPitError(error instanceof Error ? error.message : String(error));
+    }
+  };
+
+  const handleRemovePitLane = () => {
+    if (!circuit) return;
+    saveCircuitPitLane(circuit, null);
+    setPitDraft(null);
+    setPickMode('idle');
+  };
+
+  if (!circuit) {
+    return (
+      <div className="min-h-screen bg-gray-900 text-white">
+        <div className="max-w-7xl mx-auto p-4">
+          <div className="flex justify-between items-start mb-4 gap-4">
+            <h1 className="text-3xl font-bold">📐 Calibração de Circuito</h1>
+            <SessionPicker />
+          </div>
+          <p className="text-gray-400">O circuito desta sessão não tem desenho no registro (src/lib/circuits.ts).</p>
+        </div>
+      </div>
+    );
+  }
+
+  // Tamanho dos marcadores proporcional ao desenho
+  const marker = artwork ? artwork.width / 300 : 1;
+  const shownPitLane = pitDraft ?? pitLane;
+
+  return (
+    <div className="min-h-screen bg-gray-900 text-white">
+      <div className="max-w-7xl mx-auto p-4">
+        <div className="flex flex-col lg:flex-row justify-between items-start lg:items-center mb-4 gap-4">
+          <div>
+            <h1 className="text-3xl font-bold">📐 Calibração de Circuito</h1>
+            <p className="text-gray-400">{circuit.name} • {circuit.svg}</p>
+          </div>
+          <SessionPicker />
+        </div>
+
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-4">
+          {/* Desenho com o contorno da telemetria sobreposto */}
+          <div className="lg:col-span-2 bg-black rounded-lg overflow-hidden">
+            {artwork ? (
+              <svg
+                ref={svgRef}
+                width="100%"
+                viewBox={`${artwork.x} ${artwork.y} ${artwork.width} ${artwork.height}`}
+                onClick={handleClick}
+                className={pickMode === 'idle' ? '' : 'cursor-crosshair'}
+              >
+                <image
+                  href={getCircuitArtworkUrl(circuit)}
+                  x={artwork.x}
+                  y={artwork.y}
+                  width={artwork.width}
+                  height={artwork.height}
+                />
+
+                {draft && outline.points.map(point => {
+                  const projected = toSvgPoint(draft, point.x, point.y);
+                  return (
+                    <circle
+                      key={`${point.x},${point.y}`}
+                      cx={projected.x}
+                      cy={projected.y}
+                      r={marker / 2}
+                      fill="rgba(239, 68, 68, 0.6)"
+                    />
+                  );
+                })}
+
+                {draft && pairs.map((pair, index) => {
+                  const projected = toSvgPoint(draft, pair.telemetry.x, pair.telemetry.y);
+                  return (
+                    <g key={index}>
+                      <line
+                        x1={projected.x}
+                        y1={projected.y}
+                        x2={pair.svg.x}
+                        y2={pair.svg.y}
+                        stroke="white"
+                        strokeWidth={marker / 4}
+                      />
+                      <circle cx={projected.x} cy={projected.y} r={marker} fill="#3b82f6" />
+                      <circle cx={pair.svg.x} cy={pair.svg.y} r={marker} fill="#eab308" />
+                      <text x={pair.svg.x + marker * 1.5} y={pair.svg.y} fill="black" fontSize={marker * 3}>
+                        {index + 1}
+                      </text>
+                    </g>
+                  );
+                })}
+
+                {draft && shownPitLane && shownPitLane.length > 0 && (
+                  <polygon
+                    points={shownPitLane.map(point => {
+                      const projected = toSvgPoint(draft, point.x, point.y);
+                      return `${projected.x},${projected.y}`;
+                    }).join(' ')}
+                    fill="rgba(234, 179, 8, 0.25)"
+                    stroke="#eab308"
+                    strokeWidth={marker / 3}
+                  />
+                )}
+
+                {draft && startFinish && (() => {
+                  const projected = toSvgPoint(draft, startFinish.x, startFinish.y);
+                  return <circle cx={projected.x} cy={projected.y} r={marker * 1.5} fill="white" stroke="black" strokeWidth={marker / 3} />;
+                })()}
+
+                {draft && pendingTelemetry && (() => {
+                  const projected = toSvgPoint(draft, pendingTelemetry.x, pendingTelemetry.y);
+                  return <circle cx={projected.x} cy={projected.y} r={marker * 1.5} fill="none" stroke="#3b82f6" strokeWidth={marker / 2} />;
+                })()}
+              </svg>
+            ) : (
+              <div className="p-8 text-center text-gray-400">Carregando desenho...</div>
+            )}
+          </div>
+
+          {/* Parâmetros */}
+          <div className="bg-gray-800 p-4 rounded-lg space-y-4 text-sm">
+            {!draft && <p className="text-gray-400">Aguardando posições da sessão para montar o contorno...</p>}
+
+            {draft && (
+              <>
+                <div>
+                  <label className="block text-gray-400 mb-1">Rotação ({draft.rotation.toFixed(1)}°)</label>
+                  <input
+                    type="range"
+                    min="-180"
+                    max="180"
+                    step="0.5"
+                    value={draft.rotation}
+                    onChange={(e) => updateDraft({ rotation: Number(e.target.value) })}
+                    className="w-full"
+                  />
+                </div>
+
+                <div className="grid grid-cols-3 gap-2">
+                  {(['scale', 'offsetX', 'offsetY'] as const).map(field => (
+                    <label key={field} className="block">
+                      <span className="block text-gray-400 mb-1">{field}</span>
+                      <input
+                        type="number"
+                        step={field === 'scale' ? 0.0001 : 1}
+                        value={draft[field]}
+                        onChange={(e) => updateDraft({ [field]: Number(e.target.value) })}
+                        className="w-full bg-gray-700 px-2 py-1 rounded"
+                      />
+                    </label>
+                  ))}
+                </div>
+
+                <label className="flex items-center">
+                  <input
+                    type="checkbox"
+                    checked={draft.flipY}
+                    onChange={(e) => updateDraft({ flipY: e.target.checked })}
+                    className="mr-2"
+                  />
+                  Espelhar eixo Y
+                </label>
+              </>
+            )}
+
+            <div className="border-t border-gray-700 pt-4">
+              <div className="flex items-center justify-between mb-2">
+                <h2 className="font-semibold">Pares de pontos ({pairs.length})</h2>
+                {pairs.length > 0 && (
+                  <button onClick={() => setPairs([])} className="text-gray-400 hover:text-white">Limpar</button>
+                )}
+              </div>
+              <p className="text-gray-400 mb-2">
+                {pickMode === 'telemetry' && 'Clique no ponto vermelho (telemetria) de referência...'}
+                {pickMode === 'svg' && 'Agora clique no mesmo ponto no desenho...'}
+                {pickMode === 'idle' && 'Use pontos fáceis de reconhecer: ápices, fim de retas, linha de chegada.'}
+              </p>
+              <div className="flex flex-wrap gap-2">
+                <button
+                  onClick={() => setPickMode('telemetry')}
+                  disabled={!draft || pickMode !== 'idle'}
+                  className="px-3 py-1 bg-gray-700 hover:bg-gray-600 rounded disabled:opacity-50"
+                >
+                  ➕ Novo par
+                </button>
+                <button
+                  onClick={handleFitPairs}
+                  disabled={pairs.length < 2}
+                  className="px-3 py-1 bg-gray-700 hover:bg-gray-600 rounded disabled:opacity-50"
+                >
+                  Ajustar pelos pares
+                </button>
+                <button
+                  onClick={handleFitBounds}
+                  disabled={!artwork || outline.points.length === 0}
+                  className="px-3 py-1 bg-gray-700 hover:bg-gray-600 rounded disabled:opacity-50"
+                >
+                  Ajustar aos limites
+                </button>
+              </div>
+              {fitError !== null && (
+                <p className="text-gray-400 mt-2">Erro médio: {fitError.toFixed(1)} unidades do desenho</p>
+              )}
+            </div>
+
+            <div className="border-t border-gray-700 pt-4">
+              <h2 className="font-semibold mb-2">
+                Pit lane {shownPitLane ? `(${shownPitLane.length} vértices)` : '(estimada pela telemetria)'}
+              </h2>
+              <p className="text-gray-400 mb-2">
+                {pickMode === 'pitLane'
+                  ? 'Clique ao redor da pit lane, da entrada à saída, incluindo os boxes...'
+                  : 'Sem polígono, a pit lane é estimada pelo afastamento da pista perto da linha de chegada.'}
+              </p>
+              <div className="flex flex-wrap gap-2">
+                <button
+                  onClick={startPitLane}
+                  disabled={!draft || (pickMode !== 'idle' && pickMode !== 'pitLane')}
+                  className="px-3 py-1 bg-gray-700 hover:bg-gray-600 rounded disabled:opacity-50"
+                >
+                  ✏️ Desenhar
+                </button>
+                <button
+                  onClick={handleSavePitLane}
+                  disabled={!pitDraft}
+                  className="px-3 py-1 bg-gray-700 hover:bg-gray-600 rounded disabled:opacity-50"
+                >
+                  Salvar pit lane
+                </button>
+                <button
+                  onClick={handleRemovePitLane}
+                  disabled={!pitLane && !pitDraft}
+                  className="px-3 py-1 bg-gray-700 hover:bg-gray-600 rounded disabled:opacity-50"
+                >
+                  Remover
+                </button>
+              </div>
+              {pitError && <p className="text-red-400 mt-2">{pitError}</p>}
+            </div>
+
+            <div className="border-t border-gray-700 pt-4">
+              <h2 className="font-semibold mb-2">
+                Linha de chegada {startFinish ? '(marcada)' : '(estimada pela telemetria)'}
+              </h2>
+              <p className="text-gray-400 mb-2">
+                {pickMode === 'startFinish'
+                  ? 'Clique sobre a linha de chegada no desenho...'
+                  : 'Sem ela, as voltas começam no ponto mais rápido da volta de referência.'}
+              </p>
+              <div className="flex flex-wrap gap-2">
+                <button
+                  onClick={() => setPickMode('startFinish')}
+                  disabled={!draft || outline.points.length === 0 || pickMode !== 'idle'}
+                  className="px-3 py-1 bg-gray-700 hover:bg-gray-600 rounded disabled:opacity-50"
+                >
+                  📍 Marcar
+                </button>
+                <button
+                  onClick={() => circuit && saveCircuitStartFinish(circuit, null)}
+                  disabled={!startFinish}
+                  className="px-3 py-1 bg-gray-700 hover:bg-gray-600 rounded disabled:opacity-50"
+                >
+                  Remover
+                </button>
+              </div>
+            </div>
+
+            <div className="border-t border-gray-700 pt-4 flex gap-2">
+              <button onClick={handleSave} disabled={!draft} className="px-3 py-1 bg-blue-600 hover:bg-blue-500 rounded disabled:opacity-50">
+                Salvar
+              </button>
+              <button onClick={handleRestore} className="px-3 py-1 bg-gray-700 hover:bg-gray-600 rounded">
+                Restaurar registro
+              </button>
+            </div>
+
+            {draft && (
+              <div>
+                <p className="text-gray-400 mb-1">Para o registro (<code>calibration</code> de '{circuit.key}'):</p>
+                <pre className="bg-gray-900 p-2 rounded text-xs overflow-x-auto">
+                  {JSON.stringify(draft, null, 2)}
+                </pre>
+              </div>
+            )}
+
+            {shownPitLane && (
+              <div>
+                <p className="text-gray-400 mb-1">Para o registro (<code>pitLane</code>):</p>
+                <pre className="bg-gray-900 p-2 rounded text-xs overflow-x-auto">
+                  {JSON.stringify(shownPitLane.map(point => ({ x: Math.round(point.x), y: Math.round(point.y) })))}
+                </pre>
+              </div>
+            )}
+
+            {startFinish && (
+              <div>
+                <p className="text-gray-400 mb-1">Para o registro (<code>startFinish</code>):</p>
+                <pre className="bg-gray-900 p-2 rounded text-xs overflow-x-auto">{JSON.stringify(startFinish)}</pre>
+              </div>
+            )}
+          </div>
+        </div>
+
+        {/* Navegar pela sessão acumula mais do contorno */}
+        <div className="bg-gray-800 p-4 rounded-lg mt-4">
+          <ReplayProgressBar />
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default CircuitCalibrator;
@@ -0,0 +1,208 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { useSessionClockControls } from '../hooks/useSessionClock';
+import { CAR_RADIUS, GRID_SIZE, findCarAt, fitViewBox, type MapScene } from '../lib/mapScene';
+
+type CircuitMapCanvasProps = {
+  // Cena no instante do relógio
+  getScene: (time: number | null) => MapScene;
+  onSelectDriver?: (driverNumber: string) => void;
+  // Carro sob o mouse (null ao sair), com a posição do ponteiro na tela
+  onHoverDriver?: (driverNumber: string | null, clientX: number, clientY: number) => void;
+};
+
+// Desenhos oficiais já carregados, por URL
+const images = new Map<string, HTMLImageElement>();
+
+const drawScene = (ctx: CanvasRenderingContext2D, scene: MapScene, artwork: HTMLImageElement | null) => {
+  const { viewBox, unit } = scene;
+
+  if (artwork && scene.artwork) {
+    ctx.drawImage(artwork, scene.artwork.x, scene.artwork.y, scene.artwork.width, scene.artwork.height);
+  }
+
+  if (scene.showGrid) {
+    ctx.strokeStyle = 'rgba(255,255,255,0.1)';
+    ctx.lineWidth = 1;
+    ctx.beginPath();
+    for (let x = Math.floor(viewBox.x / GRID_SIZE) * GRID_SIZE; x <= viewBox.x + viewBox.width; x += GRID_SIZE) {
+      ctx.moveTo(x, viewBox.y);
+      ctx.lineTo(x, viewBox.y + viewBox.height);
+    }
+    for (let y = Math.floor(viewBox.y / GRID_SIZE) * GRID_SIZE; y <= viewBox.y + viewBox.height; y += GRID_SIZE) {
+      ctx.moveTo(viewBox.x, y);
+      ctx.lineTo(viewBox.x + viewBox.width, y);
+    }
+    ctx.stroke();
+  }
+
+  ctx.lineCap = 'round';
+  ctx.lineJoin = 'round';
+
+  if (scene.track) {
+    ctx.strokeStyle = 'rgba(255, 255, 255, 0.3)';
+    ctx.lineWidth = 20;
+    ctx.stroke(new Path2D(scene.track));
+  }
+
+  if (scene.pitLane) {
+    const pitLane = new Path2D(scene.pitLane);
+    ctx.fillStyle = 'rgba(234, 179, 8, 0.15)';
+    ctx.fill(pitLane);
+    ctx.strokeStyle = 'rgba(234, 179, 8, 0.6)';
+    ctx.lineWidth = 6 * unit;
+    ctx.lineCap = 'butt';
+    ctx.setLineDash([20 * unit, 10 * unit]);
+    ctx.stroke(pitLane);
+    ctx.setLineDash([]);
+  }
+
+  if (scene.startFinish) {
+    const { x1, y1, x2, y2 } = scene.startFinish;
+    ctx.strokeStyle = 'white';
+    ctx.lineWidth = 12 * unit;
+    ctx.lineCap = 'butt';
+    ctx.setLineDash([12 * unit, 12 * unit]);
+    ctx.beginPath();
+    ctx.moveTo(x1, y1);
+    ctx.lineTo(x2, y2);
+    ctx.stroke();
+    ctx.setLineDash([]);
+  }
+
+  ctx.lineCap = 'round';
+  scene.trails.forEach(trail => {
+    ctx.globalAlpha = trail.opacity;
+    ctx.strokeStyle = trail.color;
+    ctx.lineWidth = (trail.emphasis ? 8 : 4) * unit;
+    ctx.stroke(new Path2D(trail.d));
+  });
+
+  ctx.textAlign = 'center';
+  ctx.font = `bold ${24 * unit}px sans-serif`;
+  scene.cars.forEach(car => {
+    ctx.globalAlpha = car.opacity;
+
+    // Sombra
+    ctx.fillStyle = 'rgba(0,0,0,0.3)';
+    ctx.beginPath();
+    ctx.arc(car.x + 20 * unit, car.y + 20 * unit, (CAR_RADIUS + 5) * unit, 0, Math.PI * 2);
+    ctx.fill();
+
+    // Piloto
+    ctx.fillStyle = car.color;
+    ctx.strokeStyle = 'white';
+    ctx.lineWidth = 6 * unit;
+    ctx.beginPath();
+    ctx.arc(car.x, car.y, CAR_RADIUS * unit, 0, Math.PI * 2);
+    ctx.fill();
+    ctx.stroke();
+
+    ctx.fillStyle = 'white';
+    ctx.fillText(car.driverNumber, car.x, car.y + 8 * unit);
+  });
+  ctx.globalAlpha = 1;
+};
+
+// Mapa do circuito em um único canvas, redesenhado a cada quadro do relógio por assinatura,
+// fora do render do React. O carro sob o mouse é encontrado pela posição na última cena
+// desenhada (sem nós por carro); clicar seleciona.
+export const CircuitMapCanvas: React.FC<CircuitMapCanvasProps> = ({ getScene, onSelectDriver, onHoverDriver }) => {
+  const { getTime, subscribe } = useSessionClockControls();
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const sceneRef = useRef<MapScene | null>(null);
+  const [size, setSize] = useState({ width: 0, height: 0 });
+  const [artwork, setArtwork] = useState<HTMLImageElement | null>(null);
+  // Nome do piloto sob o mouse
+  const [hovered, setHovered] = useState<string | null>(null);
+
+  // Acompanha o tamanho do elemento para desenhar na resolução da tela
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+    const observer = new ResizeObserver(([entry]) => {
+      setSize({ width: entry.contentRect.width, height: entry.contentRect.height });
+    });
+    observer.observe(canvas);
+    return () => observer.disconnect();
+  }, []);
+
+  // O desenho oficial não depende do instante
+  const href = useMemo(() => getScene(getTime()).artwork?.href ?? null, [getScene, getTime]);
+  useEffect(() => {
+    setArtwork(null);
+    if (!href) return;
+
+    const cached = images.get(href);
+    if (cached?.complete) {
+      setArtwork(cached);
+      return;
+    }
+
+    const image = cached ?? new Image();
+    images.set(href, image);
+    const handleLoad = () => setArtwork(image);
+    image.addEventListener('load', handleLoad);
+    if (!cached) image.src = href;
+    return () => image.removeEventListener('load', handleLoad);
+  }, [href]);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (!canvas || !ctx || size.width === 0 || size.height === 0) return;
+
+    // Redimensionar limpa e realoca o canvas: só quando o tamanho muda
+    const ratio = window.devicePixelRatio || 1;
+    const width = Math.round(size.width * ratio);
+    const height = Math.round(size.height * ratio);
+    if (canvas.width !== width) canvas.width = width;
+    if (canvas.height !== height) canvas.height = height;
+
+    const draw = () => {
+      const scene = getScene(getTime());
+      sceneRef.current = scene;
+      const { scale, offsetX, offsetY } = fitViewBox(scene.viewBox, size.width, size.height);
+      ctx.setTransform(1, 0, 0, 1, 0, 0);
+      ctx.clearRect(0, 0, canvas.width, canvas.height);
+      ctx.setTransform(scale * ratio, 0, 0, scale * ratio, offsetX * ratio, offsetY * ratio);
+      drawScene(ctx, scene, artwork);
+    };
+
+    draw();
+    return subscribe(draw);
+  }, [getScene, getTime, subscribe, size, artwork]);
+
+  // Carro sob o mouse na última cena desenhada
+  const carAtEvent = (e: React.MouseEvent<HTMLCanvasElement>) => {
+    const scene = sceneRef.current;
+    if (!scene) return null;
+    const rect = e.currentTarget.getBoundingClientRect();
+    const { scale, offsetX, offsetY } = fitViewBox(scene.viewBox, rect.width, rect.height);
+    const x = (e.clientX - rect.left - offsetX) / scale;
+    const y = (e.clientY - rect.top - offsetY) / scale;
+    return findCarAt(scene, x, y);
+  };
+
+  return (
+    <canvas
+      ref={canvasRef}
+      className={`w-full h-full block ${hovered && onSelectDriver ? 'cursor-pointer' : ''}`}
+      title={onHoverDriver ? undefined : hovered ?? undefined}
+      onMouseMove={(e) => {
+        const car = carAtEvent(e);
+        setHovered(car?.name ?? null);
+        onHoverDriver?.(car?.driverNumber ?? null, e.clientX, e.clientY);
+      }}
+      onMouseLeave={(e) => {
+        setHovered(null);
+        onHoverDriver?.(null, e.clientX, e.clientY);
+      }}
+      onClick={(e) => {
+        const car = carAtEvent(e);
+        if (car && onSelectDriver) onSelectDriver(car.driverNumber);
+      }}
+    />
+  );
+};
+
+export default CircuitMapCanvas;
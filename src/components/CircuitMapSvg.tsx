@@ -0,0 +1,125 @@
+import React from 'react';
+import { CAR_RADIUS, GRID_SIZE, type MapScene } from '../lib/mapScene';
+
+type CircuitMapSvgProps = {
+  scene: MapScene;
+  onSelectDriver?: (driverNumber: string) => void;
+  // Carro sob o mouse (null ao sair), com a posição do ponteiro na tela
+  onHoverDriver?: (driverNumber: string | null, clientX: number, clientY: number) => void;
+  ref?: React.Ref<SVGSVGElement>;
+};
+
+// Mapa do circuito em SVG: um nó por elemento da cena. Usado na exportação e como
+// alternativa ao canvas; com muitos carros e rastros longos o canvas é mais leve.
+export const CircuitMapSvg: React.FC<CircuitMapSvgProps> = ({ scene, onSelectDriver, onHoverDriver, ref }) => {
+  const { viewBox, unit } = scene;
+
+  return (
+    <svg
+      ref={ref}
+      xmlns="http://www.w3.org/2000/svg"
+      width="100%"
+      height="100%"
+      viewBox={`${viewBox.x} ${viewBox.y} ${viewBox.width} ${viewBox.height}`}
+    >
+      {/* Desenho oficial do circuito */}
+      {scene.artwork && (
+        <image
+          href={scene.artwork.href}
+          x={scene.artwork.x}
+          y={scene.artwork.y}
+          width={scene.artwork.width}
+          height={scene.artwork.height}
+        />
+      )}
+
+      {/* Grid de referência */}
+      {scene.showGrid && (
+        <>
+          <defs>
+            <pattern id="grid" width={GRID_SIZE} height={GRID_SIZE} patternUnits="userSpaceOnUse">
+              <rect width={GRID_SIZE} height={GRID_SIZE} fill="none" stroke="rgba(255,255,255,0.1)" strokeWidth="1"/>
+            </pattern>
+          </defs>
+          <rect x={viewBox.x} y={viewBox.y} width={viewBox.width} height={viewBox.height} fill="url(#grid)" />
+        </>
+      )}
+
+      {/* Linha de referência ou contorno aproximado da pista */}
+      {scene.track && (
+        <path
+          d={scene.track}
+          fill="none"
+          stroke="rgba(255, 255, 255, 0.3)"
+          strokeWidth="20"
+          strokeLinecap="round"
+          strokeLinejoin="round"
+        />
+      )}
+
+      {/* Pit lane */}
+      {scene.pitLane && (
+        <path
+          d={scene.pitLane}
+          fill="rgba(234, 179, 8, 0.15)"
+          stroke="rgba(234, 179, 8, 0.6)"
+          strokeWidth={6 * unit}
+          strokeDasharray={`${20 * unit} ${10 * unit}`}
+        />
+      )}
+
+      {/* Linha de chegada (início da volta de referência) */}
+      {scene.startFinish && (
+        <line
+          {...scene.startFinish}
+          stroke="white"
+          strokeWidth={12 * unit}
+          strokeDasharray={`${12 * unit} ${12 * unit}`}
+        />
+      )}
+
+      {/* Rastros dos pilotos */}
+      {scene.trails.map(trail => (
+        <path
+          key={`trail-${trail.driverNumber}`}
+          d={trail.d}
+          fill="none"
+          stroke={trail.color}
+          strokeWidth={(trail.emphasis ? 8 : 4) * unit}
+          strokeOpacity={trail.opacity}
+          strokeLinecap="round"
+        />
+      ))}
+
+      {/* Pilotos atuais */}
+      {scene.cars.map(car => (
+        <g
+          key={car.driverNumber}
+          opacity={car.opacity}
+          onClick={onSelectDriver ? () => onSelectDriver(car.driverNumber) : undefined}
+          onMouseMove={onHoverDriver ? (e) => onHoverDriver(car.driverNumber, e.clientX, e.clientY) : undefined}
+          onMouseLeave={onHoverDriver ? (e) => onHoverDriver(null, e.clientX, e.clientY) : undefined}
+          className={onSelectDriver ? 'cursor-pointer' : undefined}
+        >
+          {!onHoverDriver && <title>{car.name}</title>}
+          {/* Sombra */}
+          <circle cx={car.x + 20 * unit} cy={car.y + 20 * unit} r={(CAR_RADIUS + 5) * unit} fill="rgba(0,0,0,0.3)" />
+          {/* Piloto */}
+          <circle cx={car.x} cy={car.y} r={CAR_RADIUS * unit} fill={car.color} stroke="white" strokeWidth={6 * unit} />
+          <text
+            x={car.x}
+            y={car.y + 8 * unit}
+            textAnchor="middle"
+            fill="white"
+            fontSize={24 * unit}
+            fontWeight="bold"
+          >
+            {car.driverNumber}
+          </text>
+        </g>
+      ))}
+    </svg>
+  );
+};
+
+export default CircuitMapSvg;
@@ -0,0 +1,59 @@
+import React from 'react';
+import type { MapRect, MapScene } from '../lib/mapScene';
+
+type CircuitMinimapProps = {
+  // Enquadramento do circuito inteiro
+  frame: MapRect;
+  scene: MapScene;
+  // Clique leva o centro da câmera ao ponto (espaço do desenho)
+  onNavigate: (point: { x: number; y: number }) => void;
+};
+
+// Miniatura do circuito com os carros e o trecho visível no mapa
+export const CircuitMinimap: React.FC<CircuitMinimapProps> = ({ frame, scene, onNavigate }) => {
+  const { viewBox } = scene;
+  const dot = Math.max(frame.width, frame.height) / 60;
+
+  const handleClick = (e: React.MouseEvent<SVGSVGElement>) => {
+    const matrix = e.currentTarget.getScreenCTM();
+    if (!matrix) return;
+    const point = new DOMPoint(e.clientX, e.clientY).matrixTransform(matrix.inverse());
+    onNavigate({ x: point.x, y: point.y });
+  };
+
+  return (
+    <svg
+      viewBox={`${frame.x} ${frame.y} ${frame.width} ${frame.height}`}
+      className="absolute bottom-2 right-2 w-48 h-36 bg-black bg-opacity-80 border border-gray-600 rounded cursor-pointer"
+      onClick={handleClick}
+    >
+      {scene.artwork && (
+        <image
+          href={scene.artwork.href}
+          x={scene.artwork.x}
+          y={scene.artwork.y}
+          width={scene.artwork.width}
+          height={scene.artwork.height}
+          opacity={0.6}
+        />
+      )}
+      {scene.track && (
+        <path d={scene.track} fill="none" stroke="rgba(255, 255, 255, 0.5)" strokeWidth={dot / 2} />
+      )}
+      {scene.cars.map(car => (
+        <circle key={car.driverNumber} cx={car.x} cy={car.y} r={dot / 2} fill={car.color} opacity={car.opacity} />
+      ))}
+      <rect
+        x={viewBox.x}
+        y={viewBox.y}
+        width={viewBox.width}
+        height={viewBox.height}
+        fill="rgba(59, 130, 246, 0.15)"
+        stroke="#3b82f6"
+        strokeWidth={dot / 4}
+      />
+    </svg>
+  );
+};
+
+export default CircuitMinimap;
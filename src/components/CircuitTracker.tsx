@@ -1,269 +1,455 @@
-import { useEffect, useState, useMemo, useCallback, useRef } from 'react';
-import { supabase } from '../lib/supabase';
+import { useCallback, useEffect, useState, useMemo, useRef } from 'react';
+import { getSessionDrivers } from '../lib/repository';
+import type { CarPosition, SessionDriver } from '../lib/database.types';
+import { useSessionClockControls, useClockRange, useClockValue, useThrottledClockTime } from '../hooks/useSessionClock';
+import { useCarPositionStream } from '../hooks/useCarPositionStream';
+import { useBroadcast } from '../hooks/useBroadcast';
+import { useTrackOutline } from '../hooks/useTrackOutline';
+import { useCircuit } from '../hooks/useCircuit';
+import { useTrackModel } from '../hooks/useTrackModel';
+import { useSessionLaps } from '../hooks/useSessionLaps';
+import { getLapStart, getLeaderLapAt, getTotalLaps } from '../lib/laps';
+import { buildProgressSeries, computeTimingTower } from '../lib/timing';
+import { getAllPitStops } from '../lib/pits';
+import { positionAt, speedAt } from '../lib/motion';
+import { getMetersPerUnit } from '../lib/units';
+import { toPathData, type MapRect, type MapScene } from '../lib/mapScene';
+import { getCircuitArtworkUrl, toSvgPoint } from '../lib/circuits';
+import { useRoute, useSelectedDrivers, useSelectedSession } from '../hooks/useRoute';
+import { findLatestIndex, formatClockTime, toMillis } from '../lib/clock';
+import { ReplayControls, ReplayProgressBar, type ProgressMarker } from './ReplayControls';
+import { SessionPicker } from './SessionPicker';
+import { TimingTower } from './TimingTower';
+import { SectorTimingGrid } from './SectorTimingGrid';
+import { PitStopLog } from './PitStopLog';
+import { CircuitMapCanvas } from './CircuitMapCanvas';
+import { CircuitMapSvg } from './CircuitMapSvg';
+import { CircuitMinimap } from './CircuitMinimap';
+import { DriverHoverCard } from './DriverHoverCard';
+import { AtClockTime } from './AtClockTime';
+import { useMapGestures } from '../hooks/useMapGestures';
 
 // Tipos
-type DriverPosition = {
-  id: number;
-  session_id: number;
-  driver_number: string;
-  x_coord: number | null;
-  y_coord: number | null;
-  z_coord: number | null;
-  timestamp: string;
-  created_at: string;
-  updated_at: string;
+// Mensagem de posições no canal broadcast (evento 'car_positions')
+type PositionBroadcast = {
+  event: string;
+  payload: CarPosition | CarPosition[];
 };
 
-type DriverInfo = {
-  session_id: number;
-  driver_number: string;
-  full_name: string;
-  team_name: string;
-  team_color: string;
-};
+// Canal broadcast opcional para posições em alta frequência
+const POSITIONS_CHANNEL = import.meta.env.VITE_CHANNEL_NAME ?? null;
 
-type ProcessedCircuitData = {
-  trackPath: string;
-  bounds: { minX: number; maxX: number; minY: number; maxY: number };
-  driverTrails: { [driverNumber: string]: { x: number; y: number }[] };
-};
+const MIN_ZOOM = 0.1;
+const MAX_ZOOM = 20;
+// Zoom inicial ao começar a seguir um piloto
+const FOLLOW_ZOOM = 4;
+// Intervalo mínimo (ms, tempo real) entre duas atualizações da torre de cronometragem
+const TIMING_INTERVAL_MS = 250;
 
 const CircuitTracker = () => {
   // Estados principais
-  const [allPositions, setAllPositions] = useState<DriverPosition[]>([]);
-  const [driverInfo, setDriverInfo] = useState<DriverInfo[]>([]);
-  const [sessions, setSessions] = useState<number[]>([233, 234]);
-  const [selectedSession, setSelectedSession] = useState<number>(233);
+  const [driverInfo, setDriverInfo] = useState<SessionDriver[]>([]);
+  const [route, navigate] = useRoute();
+  const [selectedSession] = useSelectedSession();
   
-  // Estados de controle
-  const [currentIndex, setCurrentIndex] = useState(0);
-  const [isPlaying, setIsPlaying] = useState(false);
-  const [replaySpeed, setReplaySpeed] = useState(1);
+  // Estados de controle. O componente não acompanha o relógio a cada quadro: o mapa é
+  // desenhado por assinatura e só os trechos que mudam com o instante o leem.
+  const { seek, pause, range, getTime, subscribe } = useSessionClockControls();
+  const [isLive, setIsLive] = useState(false);
+  // Em modo ao vivo, o relógio acompanha a posição mais recente até o usuário navegar
+  const [isFollowing, setIsFollowing] = useState(false);
+  const {
+    positions: allPositions,
+    extent,
+    isBuffering,
+    bufferedRange,
+    appendPositions
+  } = useCarPositionStream(selectedSession, isLive);
+
+  const handleBroadcast = useCallback(({ event, payload }: PositionBroadcast) => {
+    if (event !== 'car_positions') return;
+    const rows = (Array.isArray(payload) ? payload : [payload])
+      .filter(row => row.session_id === selectedSession);
+    appendPositions(rows);
+  }, [appendPositions, selectedSession]);
+
+  useBroadcast<PositionBroadcast>(isLive ? POSITIONS_CHANNEL : null, handleBroadcast);
+  // Contorno e quadros (timestamps distintos) calculados no worker de trajetórias
+  const { outline: processedData, frames } = useTrackOutline(selectedSession, allPositions);
+  const { circuit, artwork, calibration, sectors, pitLane, startFinish: finishLine } = useCircuit(selectedSession);
+  // Linha de referência da pista (volta limpa mais rápida), em cache por circuito
+  const modelKey = circuit?.key ?? (selectedSession ? `session-${selectedSession}` : null);
+  const trackModel = useTrackModel(modelKey, allPositions, finishLine);
+  // Escala da telemetria em metros, calibrada pelo comprimento oficial da volta
+  const metersPerUnit = getMetersPerUnit(circuit, trackModel);
+  const { detection: lapDetection, pits, progress: lapScanProgress } = useSessionLaps(
+    selectedSession,
+    trackModel,
+    extent,
+    allPositions,
+    pitLane,
+    modelKey
+  );
   const [showTrails, setShowTrails] = useState(true);
   const [trailLength, setTrailLength] = useState(20);
   
   // Estados de visualização
-  const [viewBox, setViewBox] = useState({ x: -1000, y: -8000, width: 12000, height: 16000 });
-  const [zoom, setZoom] = useState(1);
+  const zoom = route.zoom ?? 1;
+  // Canvas por padrão; o SVG continua disponível para inspeção e exportação
+  const [renderer, setRenderer] = useState<'canvas' | 'svg'>('canvas');
+  const [isExporting, setIsExporting] = useState(false);
   const svgRef = useRef<SVGSVGElement>(null);
+  const mapRef = useRef<HTMLDivElement>(null);
+  // Centro da câmera no espaço do desenho (null = centro do circuito) e piloto seguido
+  const [center, setCenter] = useState<{ x: number; y: number } | null>(null);
+  const [followedDriver, setFollowedDriver] = useState<string | null>(null);
+  // Piloto sob o mouse e posição do ponteiro relativa ao mapa (px)
+  const [hovered, setHovered] = useState<{ driverNumber: string; x: number; y: number } | null>(null);
   
   // Buscar dados dos pilotos
   useEffect(() => {
+    if (!selectedSession) return;
+
     const fetchDriverInfo = async () => {
-      const { data } = await supabase
-        .from('session_drivers')
-        .select('*')
-        .eq('session_id', selectedSession);
-      
-      if (data) {
-        setDriverInfo(data);
+      try {
+        setDriverInfo(await getSessionDrivers(selectedSession));
+      } catch (error) {
+        console.error('Erro ao buscar pilotos:', error);
       }
     };
 
     fetchDriverInfo();
   }, [selectedSession]);
 
-  // Buscar posições
+  // Nova sessão: replay parado e fora do modo ao vivo
   useEffect(() => {
-    const fetchPositions = async () => {
-      const { data } = await supabase
-        .from('car_positions')
-        .select('*')
-        .eq('session_id', selectedSession)
-        .order('timestamp', { ascending: true });
-      
-      if (data) {
-        setAllPositions(data.filter(pos => 
-          pos.x_coord !== null && 
-          pos.y_coord !== null && 
-          !(pos.x_coord === 0 && pos.y_coord === 0)
-        ));
-        setCurrentIndex(0);
-        setIsPlaying(false);
-      }
-    };
+    pause();
+    setIsLive(false);
+    setIsFollowing(false);
+    setCenter(null);
+    setFollowedDriver(null);
+  }, [selectedSession, pause]);
 
-    fetchPositions();
-  }, [selectedSession]);
+  // Qualquer outro movimento do relógio (seek, frames, barra de progresso) volta ao replay,
+  // mantendo o buffer ao vivo
+  const followedTime = useRef<number | null>(null);
+  useEffect(() => {
+    if (!isFollowing) return;
+    return subscribe(() => {
+      const time = getTime();
+      if (time !== null && followedTime.current !== null && time !== followedTime.current) setIsFollowing(false);
+    });
+  }, [isFollowing, getTime, subscribe]);
 
-  // Processar dados do circuito e trails
-  const processedData = useMemo<ProcessedCircuitData>(() => {
-    if (allPositions.length === 0) {
-      return { trackPath: '', bounds: { minX: 0, maxX: 0, minY: 0, maxY: 0 }, driverTrails: {} };
-    }
+  // Acompanha o fim da linha do tempo enquanto chegam novas posições
+  const liveEdge = range?.end ?? null;
+  useEffect(() => {
+    if (!isFollowing || liveEdge === null) return;
+    followedTime.current = liveEdge;
+    pause();
+    seek(liveEdge);
+  }, [isFollowing, liveEdge, pause, seek]);
 
-    // Calcular bounds
-    const xCoords = allPositions.map(p => p.x_coord!);
-    const yCoords = allPositions.map(p => p.y_coord!);
-    const bounds = {
-      minX: Math.min(...xCoords),
-      maxX: Math.max(...xCoords),
-      minY: Math.min(...yCoords),
-      maxY: Math.max(...yCoords)
-    };
+  const followLatest = () => {
+    followedTime.current = null;
+    setIsFollowing(true);
+  };
 
-    // Criar outline do circuito usando todos os pontos únicos
-    const trackPoints = new Map<string, { x: number; y: number }>();
+  const toggleLive = () => {
+    setIsLive(!isLive);
+    if (isLive) {
+      setIsFollowing(false);
+    } else {
+      followLatest();
+    }
+  };
+
+  // Posições carregadas por piloto, em ordem cronológica
+  const driverTrails = useMemo(() => {
+    const trails: { [driverNumber: string]: CarPosition[] } = {};
     allPositions.forEach(pos => {
-      if (pos.x_coord !== null && pos.y_coord !== null) {
-        // Discretizar pontos para reduzir ruído
-        const discreteX = Math.round(pos.x_coord / 50) * 50;
-        const discreteY = Math.round(pos.y_coord / 50) * 50;
-        const key = `${discreteX},${discreteY}`;
-        trackPoints.set(key, { x: discreteX, y: discreteY });
-      }
+      (trails[pos.driver_number] ??= []).push(pos);
     });
+    return trails;
+  }, [allPositions]);
 
-    // Ordenar pontos para formar um path contínuo (algoritmo simples de nearest neighbor)
-    const sortedPoints = Array.from(trackPoints.values());
-    if (sortedPoints.length === 0) {
-      return { trackPath: '', bounds, driverTrails: {} };
-    }
+  // Registrar o intervalo da sessão (não só do trecho carregado) na linha do tempo compartilhada
+  useClockRange(extent?.start ?? null, extent?.end ?? null);
 
-    const orderedPoints = [sortedPoints[0]];
-    const remaining = sortedPoints.slice(1);
-
-    while (remaining.length > 0) {
-      const lastPoint = orderedPoints[orderedPoints.length - 1];
-      let nearestIndex = 0;
-      let nearestDistance = Infinity;
-
-      remaining.forEach((point, index) => {
-        const distance = Math.sqrt(
-          Math.pow(point.x - lastPoint.x, 2) + Math.pow(point.y - lastPoint.y, 2)
-        );
-        if (distance < nearestDistance) {
-          nearestDistance = distance;
-          nearestIndex = index;
-        }
-      });
-
-      // Se a distância é muito grande, pode ser que estejamos começando uma nova seção
-      if (nearestDistance < 500) {
-        orderedPoints.push(remaining[nearestIndex]);
-      }
-      remaining.splice(nearestIndex, 1);
-    }
+  // Índice do quadro correspondente a um instante (-1 = trecho ainda não carregado)
+  const frameIndexAt = useCallback(
+    (time: number | null) => isBuffering ? -1 : findLatestIndex(frames, time),
+    [isBuffering, frames]
+  );
 
-    // Criar path SVG
-    const trackPath = orderedPoints.length > 1 
-      ? `M ${orderedPoints.map(p => `${p.x} ${p.y}`).join(' L ')} Z`
-      : '';
-
-    // Criar trails por piloto
-    const driverTrails: { [driverNumber: string]: { x: number; y: number }[] } = {};
-    const driverNumbers = [...new Set(allPositions.map(p => p.driver_number))];
-    
-    driverNumbers.forEach(driverNumber => {
-      const driverPositions = allPositions
-        .filter(p => p.driver_number === driverNumber)
-        .map(p => ({ x: p.x_coord!, y: p.y_coord! }));
-      driverTrails[driverNumber] = driverPositions;
+  // Posição de cada piloto num instante, interpolada entre as amostras
+  const positionsAt = useCallback((time: number | null) => {
+    if (isBuffering || time === null) return [];
+    return Object.entries(driverTrails).flatMap(([driverNumber, trail]) => {
+      const point = positionAt(trail, time);
+      return point ? [{ driverNumber, ...point }] : [];
     });
+  }, [driverTrails, isBuffering]);
 
-    return { trackPath, bounds, driverTrails };
-  }, [allPositions]);
+  // Funções de controle
+  const seekToFrame = (offset: number) => {
+    const index = frameIndexAt(getTime());
+    const frame = frames[Math.max(0, Math.min(frames.length - 1, index + offset))];
+    if (frame) seek(toMillis(frame.timestamp));
+  };
+  const handlePrevious = () => seekToFrame(-1);
+  const handleNext = () => seekToFrame(1);
+  // Só mudam ao chegar ao primeiro ou ao último quadro
+  const canPrevious = useClockValue(time => frameIndexAt(time) > 0);
+  const canNext = useClockValue(time => frameIndexAt(time) < frames.length - 1);
+  const handleReset = () => {
+    if (extent) seek(extent.start);
+    pause();
+  };
 
-  // Agrupar posições por timestamp
-  const timestampGroups = useMemo(() => {
-    const groups: { [timestamp: string]: DriverPosition[] } = {};
-    allPositions.forEach(pos => {
-      if (!groups[pos.timestamp]) {
-        groups[pos.timestamp] = [];
-      }
-      groups[pos.timestamp].push(pos);
-    });
-    
-    return Object.entries(groups)
-      .sort(([a], [b]) => new Date(a).getTime() - new Date(b).getTime())
-      .map(([timestamp, positions]) => ({ timestamp, positions }));
-  }, [allPositions]);
+  // Com o desenho oficial calibrado, tudo é desenhado no espaço do SVG do circuito
+  const artworkView = useMemo(
+    () => circuit && artwork && calibration ? { circuit, artwork, calibration } : null,
+    [circuit, artwork, calibration]
+  );
+  const project = useCallback(
+    (x: number, y: number) => artworkView ? toSvgPoint(artworkView.calibration, x, y) : { x, y },
+    [artworkView]
+  );
+  // Unidades da telemetria → unidades do desenho (tamanho dos carros e rastros)
+  const unit = artworkView?.calibration.scale ?? 1;
 
-  // Posições atuais baseadas no índice
-  const currentPositions = useMemo(() => {
-    if (timestampGroups.length === 0) return [];
-    
-    // Pegar todas as posições mais recentes até o índice atual
-    const allCurrentPositions: { [driverNumber: string]: DriverPosition } = {};
-    
-    for (let i = 0; i <= Math.min(currentIndex, timestampGroups.length - 1); i++) {
-      timestampGroups[i].positions.forEach(pos => {
-        allCurrentPositions[pos.driver_number] = pos;
-      });
+  // Enquadramento do circuito inteiro
+  const frame = useMemo((): MapRect => {
+    if (artworkView) {
+      const { x, y, width, height } = artworkView.artwork;
+      return { x, y, width, height };
     }
-    
-    return Object.values(allCurrentPositions);
-  }, [timestampGroups, currentIndex]);
 
-  // Controle de replay
-  useEffect(() => {
-    if (isPlaying && timestampGroups.length > 0) {
-      const interval = setInterval(() => {
-        setCurrentIndex(prevIndex => {
-          if (prevIndex >= timestampGroups.length - 1) {
-            setIsPlaying(false);
-            return prevIndex;
-          }
-          return prevIndex + 1;
-        });
-      }, 1000 / replaySpeed);
-
-      return () => clearInterval(interval);
+    const bounds = trackModel
+      ? {
+        minX: Math.min(...trackModel.points.map(p => p.x)),
+        maxX: Math.max(...trackModel.points.map(p => p.x)),
+        minY: Math.min(...trackModel.points.map(p => p.y)),
+        maxY: Math.max(...trackModel.points.map(p => p.y))
+      }
+      : processedData.bounds;
+    if (bounds.maxX === bounds.minX && bounds.maxY === bounds.minY) {
+      return { x: -1000, y: -8000, width: 12000, height: 16000 };
     }
-  }, [isPlaying, timestampGroups.length, replaySpeed]);
 
-  // Funções de controle
-  const handlePlay = () => setIsPlaying(!isPlaying);
-  const handlePrevious = () => setCurrentIndex(Math.max(0, currentIndex - 1));
-  const handleNext = () => setCurrentIndex(Math.min(timestampGroups.length - 1, currentIndex + 1));
-  const handleReset = () => {
-    setCurrentIndex(0);
-    setIsPlaying(false);
+    const padding = 500;
+    return {
+      x: bounds.minX - padding,
+      y: bounds.minY - padding,
+      width: bounds.maxX - bounds.minX + padding * 2,
+      height: bounds.maxY - bounds.minY + padding * 2
+    };
+  }, [artworkView, trackModel, processedData]);
+
+  // Câmera: centrada no piloto seguido, no ponto escolhido ou no circuito; zoom persistido na URL
+  const freeCenter = useMemo(
+    () => center ?? { x: frame.x + frame.width / 2, y: frame.y + frame.height / 2 },
+    [center, frame]
+  );
+  const cameraCenterAt = useCallback((time: number | null) => {
+    const trail = followedDriver && !isBuffering && time !== null ? driverTrails[followedDriver] : undefined;
+    const followedPoint = trail && time !== null ? positionAt(trail, time) : null;
+    return followedPoint ? project(followedPoint.x, followedPoint.y) : freeCenter;
+  }, [followedDriver, isBuffering, driverTrails, project, freeCenter]);
+  const viewBoxAt = useCallback((time: number | null): MapRect => {
+    const cameraCenter = cameraCenterAt(time);
+    return {
+      x: cameraCenter.x - frame.width / zoom / 2,
+      y: cameraCenter.y - frame.height / zoom / 2,
+      width: frame.width / zoom,
+      height: frame.height / zoom
+    };
+  }, [cameraCenterAt, frame, zoom]);
+
+  // Vários eventos de gesto chegam entre duas renderizações: acumulam sobre a última câmera.
+  // Centro null = seguindo o piloto, na posição dele no instante do gesto.
+  const camera = useRef<{ zoom: number; center: { x: number; y: number } | null }>({ zoom, center: freeCenter });
+  camera.current = { zoom, center: followedDriver ? null : freeCenter };
+  const currentCenter = () => camera.current.center ?? cameraCenterAt(getTime());
+
+  const zoomAt = (factor: number, anchor: { x: number; y: number }) => {
+    const { zoom: current, center: free } = camera.current;
+    const from = currentCenter();
+    const next = Math.max(MIN_ZOOM, Math.min(MAX_ZOOM, current * factor));
+    const applied = next / current;
+    const moved = { x: anchor.x + (from.x - anchor.x) / applied, y: anchor.y + (from.y - anchor.y) / applied };
+    camera.current = { zoom: next, center: free && moved };
+    if (free) setCenter(moved);
+    navigate({ zoom: next }, { replace: true });
   };
 
-  // Zoom e pan
-  const handleZoom = (delta: number) => {
-    const newZoom = Math.max(0.1, Math.min(5, zoom + delta));
-    setZoom(newZoom);
-    
-    const scale = 1 / newZoom;
-    const centerX = (processedData.bounds.minX + processedData.bounds.maxX) / 2;
-    const centerY = (processedData.bounds.minY + processedData.bounds.maxY) / 2;
-    const width = (processedData.bounds.maxX - processedData.bounds.minX) * scale;
-    const height = (processedData.bounds.maxY - processedData.bounds.minY) * scale;
-    
-    setViewBox({
-      x: centerX - width / 2,
-      y: centerY - height / 2,
-      width,
-      height
-    });
+  const panBy = (dx: number, dy: number) => {
+    const from = currentCenter();
+    const moved = { x: from.x + dx, y: from.y + dy };
+    camera.current = { ...camera.current, center: moved };
+    setFollowedDriver(null);
+    setCenter(moved);
   };
 
+  const handleZoom = (factor: number) => zoomAt(factor, currentCenter());
+
   const resetView = () => {
-    setZoom(1);
-    const padding = 500;
-    setViewBox({
-      x: processedData.bounds.minX - padding,
-      y: processedData.bounds.minY - padding,
-      width: (processedData.bounds.maxX - processedData.bounds.minX) + padding * 2,
-      height: (processedData.bounds.maxY - processedData.bounds.minY) + padding * 2
-    });
+    setCenter(null);
+    setFollowedDriver(null);
+    navigate({ zoom: null }, { replace: true });
+  };
+
+  const followDriver = (driverNumber: string | null) => {
+    setFollowedDriver(driverNumber);
+    if (driverNumber && zoom < FOLLOW_ZOOM) navigate({ zoom: FOLLOW_ZOOM }, { replace: true });
+  };
+
+  useMapGestures(mapRef, () => viewBoxAt(getTime()), { onZoom: zoomAt, onPan: panBy, onReset: resetView });
+
+  // Pilotos destacados (persistidos na URL e compartilhados com os outros painéis); vazio = todos
+  const [selectedDrivers, toggleDriver] = useSelectedDrivers();
+  const isDriverHighlighted = useCallback(
+    (driverNumber: string) => selectedDrivers.length === 0 || selectedDrivers.includes(driverNumber),
+    [selectedDrivers]
+  );
+
+  const handleHoverDriver = (driverNumber: string | null, clientX: number, clientY: number) => {
+    const rect = mapRef.current?.getBoundingClientRect();
+    setHovered(driverNumber && rect ? { driverNumber, x: clientX - rect.left, y: clientY - rect.top } : null);
   };
 
   // Função para obter cor do piloto
-  const getDriverColor = (driverNumber: string) => {
+  const getDriverColor = useCallback((driverNumber: string) => {
     const driver = driverInfo.find(d => d.driver_number === driverNumber);
     return driver?.team_color || '#ffffff';
-  };
+  }, [driverInfo]);
 
-  const getDriverName = (driverNumber: string) => {
+  const getDriverName = useCallback((driverNumber: string) => {
     const driver = driverInfo.find(d => d.driver_number === driverNumber);
     return driver?.full_name || `Piloto #${driverNumber}`;
-  };
+  }, [driverInfo]);
+
+  // Partes fixas da cena do mapa (não mudam a cada quadro)
+  const trackPath = useMemo(() => {
+    if (artworkView) return null;
+    return trackModel ? toPathData(trackModel.points, true) : processedData.trackPath || null;
+  }, [artworkView, trackModel, processedData]);
+
+  const pitLanePath = useMemo(
+    () => pitLane ? toPathData(pitLane.map(p => project(p.x, p.y)), true) : null,
+    [pitLane, project]
+  );
 
-  // Timestamp atual
-  const currentTimestamp = timestampGroups[currentIndex]?.timestamp || '';
+  const startFinish = useMemo(() => {
+    if (!trackModel) return null;
+    const { x, y, heading } = trackModel.startFinish;
+    const half = 150;
+    const a = project(x - Math.sin(heading) * half, y + Math.cos(heading) * half);
+    const b = project(x + Math.sin(heading) * half, y - Math.cos(heading) * half);
+    return { x1: a.x, y1: a.y, x2: b.x, y2: b.y };
+  }, [trackModel, project]);
+
+  const artworkScene = useMemo(
+    () => artworkView ? { ...artworkView.artwork, href: getCircuitArtworkUrl(artworkView.circuit) } : null,
+    [artworkView]
+  );
+
+  // Cena completa num instante, desenhada pelo canvas a cada quadro ou pelo SVG
+  const getScene = useCallback((time: number | null): MapScene => {
+    const positions = positionsAt(time);
+    const points = Object.fromEntries(positions.map(position => [position.driverNumber, position]));
+
+    return {
+      viewBox: viewBoxAt(time),
+      unit,
+      artwork: artworkScene,
+      showGrid: !artworkScene,
+      track: trackPath,
+      pitLane: pitLanePath,
+      startFinish,
+      trails: showTrails && frameIndexAt(time) >= 0
+        ? Object.entries(driverTrails).flatMap(([driverNumber, trail]) => {
+          // Rastro termina na posição do piloto no instante
+          const end = findLatestIndex(trail, time) + 1;
+          const recentTrail = trail
+            .slice(Math.max(0, end - trailLength), end)
+            .map(p => project(p.x_coord!, p.y_coord!));
+          const head = points[driverNumber];
+          if (head) recentTrail.push(project(head.x, head.y));
+          if (recentTrail.length < 2) return [];
+
+          return [{
+            driverNumber,
+            color: getDriverColor(driverNumber),
+            opacity: isDriverHighlighted(driverNumber) ? (selectedDrivers.length > 0 ? 0.9 : 0.6) : 0.1,
+            emphasis: selectedDrivers.includes(driverNumber),
+            d: toPathData(recentTrail)
+          }];
+        })
+        : [],
+      cars: positions.map(position => ({
+        driverNumber: position.driverNumber,
+        name: getDriverName(position.driverNumber),
+        ...project(position.x, position.y),
+        color: getDriverColor(position.driverNumber),
+        opacity: isDriverHighlighted(position.driverNumber) ? 1 : 0.25
+      }))
+    };
+  }, [
+    positionsAt, viewBoxAt, unit, artworkScene, trackPath, pitLanePath, startFinish, showTrails, frameIndexAt,
+    driverTrails, trailLength, project, getDriverColor, getDriverName, isDriverHighlighted, selectedDrivers
+  ]);
+
+  // Exportação: serializa o SVG da cena (montado só para isso quando o canvas está ativo)
+  useEffect(() => {
+    if (!isExporting || !svgRef.current) return;
+    const markup = new XMLSerializer().serializeToString(svgRef.current);
+    const url = URL.createObjectURL(new Blob([markup], { type: 'image/svg+xml' }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `circuito-${selectedSession ?? 'sessao'}.svg`;
+    link.click();
+    URL.revokeObjectURL(url);
+    setIsExporting(false);
+  }, [isExporting, selectedSession]);
+
+  // Ordem de corrida no instante do replay
+  const progressSeries = useMemo(() => {
+    if (!trackModel) return {};
+    return Object.fromEntries(Object.entries(driverTrails).map(([driverNumber, trail]) =>
+      [driverNumber, buildProgressSeries(trackModel, lapDetection, trail)]
+    ));
+  }, [trackModel, lapDetection, driverTrails]);
+
+  // A torre segue o replay algumas vezes por segundo, não a cada quadro
+  const timingTime = useThrottledClockTime(TIMING_INTERVAL_MS);
+  const timingTower = useMemo(
+    () => trackModel && timingTime !== null && !isBuffering
+      ? computeTimingTower(trackModel, progressSeries, lapDetection, timingTime)
+      : [],
+    [trackModel, progressSeries, lapDetection, timingTime, isBuffering]
+  );
+
+  // Paradas nos boxes marcadas na linha do tempo
+  const pitMarkers = useMemo(() => getAllPitStops(pits).map((stop): ProgressMarker => {
+    const driver = driverInfo.find(d => d.driver_number === stop.driverNumber);
+    return {
+      time: stop.entry,
+      color: driver?.team_color ?? '#ffffff',
+      label: `Pit stop • #${stop.driverNumber} ${driver?.full_name ?? ''}`
+    };
+  }), [pits, driverInfo]);
+
+  // Contador de voltas do líder e salto para o início de uma volta
+  const totalLaps = getTotalLaps(lapDetection);
+  const jumpToLap = (lapNumber: number) => {
+    const start = getLapStart(lapDetection, lapNumber);
+    if (start !== null) seek(start);
+  };
+  const frameLabel = (time: number | null) => isBuffering
+    ? 'Carregando posições...'
+    : `${formatClockTime(time)} • ${Math.max(0, frameIndexAt(time) + 1)} de ${frames.length} frames em memória`;
 
   return (
     <div className="min-h-screen bg-gray-900 text-white">
@@ -272,19 +458,36 @@ const CircuitTracker = () => {
         <div className="flex flex-col lg:flex-row justify-between items-start lg:items-center mb-4 gap-4">
           <div>
             <h1 className="text-3xl font-bold">🏎️ Circuit Tracker Pro</h1>
-            <p className="text-gray-400">{currentTimestamp && new Date(currentTimestamp).toLocaleString()}</p>
+            <p className="text-gray-400">
+              <AtClockTime>
+                {time => {
+                  const timestamp = frames[frameIndexAt(time)]?.timestamp;
+                  const leaderLap = getLeaderLapAt(lapDetection, time);
+                  return (
+                    <>
+                      {timestamp && new Date(timestamp).toLocaleString()}
+                      {leaderLap && <span className="ml-3 text-white font-semibold">Volta {leaderLap.lap}/{totalLaps}</span>}
+                    </>
+                  );
+                }}
+              </AtClockTime>
+              {lapScanProgress !== null && (
+                <span className="ml-3 text-sm">Detectando voltas... {Math.round(lapScanProgress * 100)}%</span>
+              )}
+            </p>
           </div>
           
           <div className="flex items-center gap-3">
-            <select 
-              value={selectedSession}
-              onChange={(e) => setSelectedSession(Number(e.target.value))}
-              className="bg-gray-800 text-white px-3 py-2 rounded border border-gray-600"
-            >
-              {sessions.map(session => (
-                <option key={session} value={session}>Sessão #{session}</option>
-              ))}
-            </select>
+            {circuit && (
+              <button
+                onClick={() => navigate({ view: 'calibration' })}
+                className="px-3 py-2 bg-gray-700 hover:bg-gray-600 rounded text-sm"
+                title={calibration ? `Ajustar calibração de ${circuit.name}` : `${circuit.name} ainda não está calibrado`}
+              >
+                📐 {calibration ? 'Calibração' : 'Calibrar circuito'}
+              </button>
+            )}
+            <SessionPicker />
           </div>
         </div>
         
@@ -296,28 +499,41 @@ const CircuitTracker = () => {
               <button onClick={handleReset} className="p-2 bg-gray-700 hover:bg-gray-600 rounded" title="Reset">
                 ⏹️
               </button>
-              <button onClick={handlePrevious} className="p-2 bg-gray-700 hover:bg-gray-600 rounded" disabled={currentIndex === 0}>
-                ⏮️
-              </button>
-              <button onClick={handlePlay} className="p-2 bg-blue-600 hover:bg-blue-500 rounded">
-                {isPlaying ? '⏸️' : '▶️'}
-              </button>
-              <button onClick={handleNext} className="p-2 bg-gray-700 hover:bg-gray-600 rounded" disabled={currentIndex >= timestampGroups.length - 1}>
-                ⏭️
-              </button>
-              
-              <select 
-                value={replaySpeed}
-                onChange={(e) => setReplaySpeed(Number(e.target.value))}
-                className="bg-gray-700 p-2 rounded ml-2"
+              <ReplayControls
+                onPrevious={handlePrevious}
+                onNext={handleNext}
+                canPrevious={canPrevious}
+                canNext={canNext}
+              />
+              <button
+                onClick={toggleLive}
+                className={`px-3 py-2 rounded text-sm ${isLive ? 'bg-red-600 hover:bg-red-500' : 'bg-gray-700 hover:bg-gray-600'}`}
+                title={isLive ? 'Sair do modo ao vivo' : 'Receber posições em tempo real'}
               >
-                <option value={0.25}>0.25x</option>
-                <option value={0.5}>0.5x</option>
-                <option value={1}>1x</option>
-                <option value={2}>2x</option>
-                <option value={5}>5x</option>
-                <option value={10}>10x</option>
-              </select>
+                {isLive ? '● Ao vivo' : '○ Ao vivo'}
+              </button>
+              {totalLaps > 0 && (
+                <select
+                  value=""
+                  onChange={(e) => jumpToLap(Number(e.target.value))}
+                  className="bg-gray-700 p-2 rounded text-sm"
+                  title="Ir para o início de uma volta"
+                >
+                  <option value="" disabled>Ir para volta...</option>
+                  {Array.from({ length: totalLaps }, (_, i) => i + 1).map(lap => (
+                    <option key={lap} value={lap}>Volta {lap}</option>
+                  ))}
+                </select>
+              )}
+              {isLive && !isFollowing && (
+                <button
+                  onClick={followLatest}
+                  className="px-3 py-2 rounded text-sm bg-gray-700 hover:bg-gray-600"
+                  title="Voltar a acompanhar a posição mais recente"
+                >
+                  ⏩ Mais recente
+                </button>
+              )}
             </div>
             
             {/* Controles de visualização */}
@@ -345,146 +561,146 @@ const CircuitTracker = () => {
               )}
               
               <div className="flex items-center gap-1 ml-4">
-                <button onClick={() => handleZoom(-0.2)} className="p-1 bg-gray-700 hover:bg-gray-600 rounded text-sm">🔍➖</button>
+                <button onClick={() => handleZoom(0.8)} className="p-1 bg-gray-700 hover:bg-gray-600 rounded text-sm">🔍➖</button>
                 <span className="text-sm px-2">{Math.round(zoom * 100)}%</span>
-                <button onClick={() => handleZoom(0.2)} className="p-1 bg-gray-700 hover:bg-gray-600 rounded text-sm">🔍➕</button>
+                <button onClick={() => handleZoom(1.25)} className="p-1 bg-gray-700 hover:bg-gray-600 rounded text-sm">🔍➕</button>
                 <button onClick={resetView} className="p-1 bg-gray-700 hover:bg-gray-600 rounded text-sm ml-1">🎯</button>
               </div>
+
+              <select
+                value={followedDriver ?? ''}
+                onChange={(e) => followDriver(e.target.value || null)}
+                className="bg-gray-700 p-1 rounded text-sm ml-2"
+                title="Câmera"
+              >
+                <option value="">🎥 Câmera livre</option>
+                {driverInfo.map(driver => (
+                  <option key={driver.driver_number} value={driver.driver_number}>
+                    Seguir #{driver.driver_number} {driver.full_name}
+                  </option>
+                ))}
+              </select>
+              <select
+                value={renderer}
+                onChange={(e) => setRenderer(e.target.value as 'canvas' | 'svg')}
+                className="bg-gray-700 p-1 rounded text-sm ml-2"
+                title="Renderização do mapa"
+              >
+                <option value="canvas">Canvas</option>
+                <option value="svg">SVG</option>
+              </select>
+              <button
+                onClick={() => setIsExporting(true)}
+                className="p-1 bg-gray-700 hover:bg-gray-600 rounded text-sm"
+                title="Exportar o mapa no instante atual como SVG"
+              >
+                ⬇️ SVG
+              </button>
             </div>
           </div>
           
           {/* Barra de progresso */}
           <div className="mt-3">
-            <div className="flex items-center justify-between text-xs text-gray-400 mb-1">
-              <span>Início</span>
-              <span>Frame {currentIndex + 1} de {timestampGroups.length}</span>
-              <span>Fim</span>
-            </div>
-            <div className="w-full bg-gray-700 h-2 rounded-full overflow-hidden">
-              <div 
-                className="bg-blue-500 h-full transition-all duration-200"
-                style={{ 
-                  width: `${timestampGroups.length > 0 ? (currentIndex / (timestampGroups.length - 1)) * 100 : 0}%` 
-                }}
-              />
-            </div>
+            <ReplayProgressBar label={frameLabel} buffered={bufferedRange} markers={pitMarkers} />
           </div>
         </div>
         
         {/* Visualização do circuito */}
-        <div className="bg-black rounded-lg overflow-hidden mb-6" style={{ height: '600px' }}>
-          <svg 
-            ref={svgRef}
-            width="100%" 
-            height="100%" 
-            viewBox={`${viewBox.x} ${viewBox.y} ${viewBox.width} ${viewBox.height}`}
-            className="cursor-move"
-          >
-            {/* Grid de referência */}
-            <defs>
-              <pattern id="grid" width="1000" height="1000" patternUnits="userSpaceOnUse">
-                <rect width="1000" height="1000" fill="none" stroke="rgba(255,255,255,0.1)" strokeWidth="1"/>
-              </pattern>
-            </defs>
-            <rect width="100%" height="100%" fill="url(#grid)" />
-            
-            {/* Traçado do circuito */}
-            {processedData.trackPath && (
-              <path 
-                d={processedData.trackPath}
-                fill="none" 
-                stroke="rgba(255, 255, 255, 0.3)" 
-                strokeWidth="20"
-                strokeLinecap="round"
-                strokeLinejoin="round"
-              />
-            )}
-            
-            {/* Rastros dos pilotos */}
-            {showTrails && Object.entries(processedData.driverTrails).map(([driverNumber, trail]) => {
-              const color = getDriverColor(driverNumber);
-              const recentTrail = trail.slice(Math.max(0, trail.length - trailLength));
-              
-              if (recentTrail.length < 2) return null;
-              
-              const pathData = `M ${recentTrail.map(p => `${p.x} ${p.y}`).join(' L ')}`;
-              
-              return (
-                <path
-                  key={`trail-${driverNumber}`}
-                  d={pathData}
-                  fill="none"
-                  stroke={color}
-                  strokeWidth="4"
-                  strokeOpacity="0.6"
-                  strokeLinecap="round"
-                />
-              );
-            })}
-            
-            {/* Pilotos atuais */}
-            {currentPositions.map(position => {
-              const color = getDriverColor(position.driver_number);
-              
-              return (
-                <g key={position.driver_number}>
-                  {/* Sombra */}
-                  <circle
-                    cx={position.x_coord! + 20}
-                    cy={position.y_coord! + 20}
-                    r="40"
-                    fill="rgba(0,0,0,0.3)"
+        <div className="relative bg-black rounded-lg overflow-hidden mb-6" style={{ height: '600px' }}>
+          <div ref={mapRef} className="w-full h-full touch-none cursor-move">
+            {renderer === 'canvas' ? (
+              <CircuitMapCanvas getScene={getScene} onSelectDriver={toggleDriver} onHoverDriver={handleHoverDriver} />
+            ) : (
+              <AtClockTime>
+                {time => (
+                  <CircuitMapSvg
+                    ref={svgRef}
+                    scene={getScene(time)}
+                    onSelectDriver={toggleDriver}
+                    onHoverDriver={handleHoverDriver}
                   />
-                  {/* Piloto */}
-                  <circle
-                    cx={position.x_coord!}
-                    cy={position.y_coord!}
-                    r="35"
-                    fill={color}
-                    stroke="white"
-                    strokeWidth="6"
+                )}
+              </AtClockTime>
+            )}
+          </div>
+          {/* Sem calibração o desenho oficial fica de fora e o mapa usa o contorno da telemetria */}
+          {circuit && !calibration && (
+            <div className="absolute top-2 left-2 px-2 py-1 bg-black bg-opacity-80 border border-gray-600 rounded text-xs text-gray-300">
+              {circuit.name} sem calibração: contorno aproximado pela telemetria
+            </div>
+          )}
+          {hovered && (
+            <AtClockTime>
+              {time => {
+                const trail = driverTrails[hovered.driverNumber] ?? [];
+                if (isBuffering || time === null || !positionAt(trail, time)) return null;
+                return (
+                  <DriverHoverCard
+                    driverNumber={hovered.driverNumber}
+                    driver={driverInfo.find(d => d.driver_number === hovered.driverNumber)}
+                    position={timingTower.find(entry => entry.driverNumber === hovered.driverNumber)?.position ?? null}
+                    lapDetection={lapDetection}
+                    currentTime={time}
+                    speed={speedAt(trail, time, metersPerUnit)}
+                    x={hovered.x}
+                    y={hovered.y}
                   />
-                  <text
-                    x={position.x_coord!}
-                    y={position.y_coord! + 8}
-                    textAnchor="middle"
-                    fill="white"
-                    fontSize="24"
-                    fontWeight="bold"
-                  >
-                    {position.driver_number}
-                  </text>
-                </g>
-              );
-            })}
-          </svg>
+                );
+              }}
+            </AtClockTime>
+          )}
+          {(zoom > 1 || followedDriver) && (
+            <AtClockTime>
+              {time => (
+                <CircuitMinimap
+                  frame={frame}
+                  scene={getScene(time)}
+                  onNavigate={(point) => {
+                    setFollowedDriver(null);
+                    setCenter(point);
+                  }}
+                />
+              )}
+            </AtClockTime>
+          )}
+          {renderer === 'canvas' && isExporting && (
+            <div className="hidden">
+              <AtClockTime>
+                {time => <CircuitMapSvg ref={svgRef} scene={getScene(time)} />}
+              </AtClockTime>
+            </div>
+          )}
         </div>
         
-        {/* Legenda dos pilotos */}
-        <div className="bg-gray-800 p-4 rounded-lg">
-          <h2 className="text-lg font-semibold mb-3">🏎️ Pilotos ({currentPositions.length} em pista)</h2>
-          <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-3">
-            {driverInfo.map(driver => {
-              const isActive = currentPositions.some(p => p.driver_number === driver.driver_number);
-              
-              return (
-                <div 
-                  key={driver.driver_number} 
-                  className={`flex items-center p-2 rounded ${isActive ? 'bg-gray-700 font-semibold' : 'bg-gray-900 opacity-60'}`}
-                >
-                  <div 
-                    className="w-5 h-5 rounded-full mr-3 flex-shrink-0 border-2 border-white"
-                    style={{ backgroundColor: driver.team_color }}
-                  />
-                  <div className="min-w-0 flex-1">
-                    <div className="font-medium">#{driver.driver_number} {driver.full_name}</div>
-                    <div className="text-sm text-gray-400 truncate">{driver.team_name}</div>
-                  </div>
-                  {isActive && <div className="text-green-400 ml-2">●</div>}
-                </div>
-              );
-            })}
+        {/* Torre de cronometragem */}
+        <TimingTower
+          entries={timingTower}
+          drivers={driverInfo}
+          lapDetection={lapDetection}
+          currentTime={timingTime}
+          selectedDrivers={selectedDrivers}
+          onToggleDriver={toggleDriver}
+        />
+
+        {/* Setores e paradas nos boxes */}
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-4 mt-4">
+          <div className="lg:col-span-2">
+            <SectorTimingGrid
+              lapDetection={lapDetection}
+              circuit={circuit}
+              sectors={sectors}
+              drivers={driverInfo}
+              order={timingTower.map(entry => entry.driverNumber)}
+              selectedDrivers={selectedDrivers}
+              onToggleDriver={toggleDriver}
+            />
           </div>
+          <PitStopLog
+            pits={pits}
+            lapDetection={lapDetection}
+            drivers={driverInfo}
+            onSeek={seek}
+          />
         </div>
       </div>
     </div>
@@ -1,219 +1,186 @@
-import { useEffect, useState, useMemo, useCallback } from 'react';
-
-// Tipos estendidos para análise avançada
-type EnhancedDriverPosition = {
-  id: number;
-  session_id: number;
-  driver_number: string;
-  x_coord: number;
-  y_coord: number;
-  z_coord: number | null;
-  timestamp: string;
-  speed?: number; // Calculado
-  acceleration?: number; // Calculado
-  distance?: number; // Distância do ponto anterior
-};
+import { useEffect, useState, useMemo } from 'react';
+import type { RaceControlMessage, SessionDriver } from '../lib/database.types';
+import type { ClockRange } from '../contexts/SessionClockContext';
+import { getRaceControlMessages, getSessionDrivers } from '../lib/repository';
+import { useSessionClock, useClockRange } from '../hooks/useSessionClock';
+import { MAX_RANGE_MS, useCarPositionStream } from '../hooks/useCarPositionStream';
+import { useSelectedDrivers, useSelectedSession } from '../hooks/useRoute';
+import { formatClockTime, toMillis } from '../lib/clock';
+import { getLapsRange, getTotalLaps } from '../lib/laps';
+import { formatAcceleration, formatDistance, formatSpeed, getMetersPerUnit } from '../lib/units';
+import { HEATMAP_CELL, type TrajectoryQuery } from '../lib/trajectory';
+import { useCircuit } from '../hooks/useCircuit';
+import { useTrackModel } from '../hooks/useTrackModel';
+import { useTrajectoryAnalytics } from '../hooks/useTrajectoryAnalytics';
+import { useSessionLaps } from '../hooks/useSessionLaps';
+import { ReplayControls, ReplayProgressBar } from './ReplayControls';
+import { SessionPicker } from './SessionPicker';
+import { LapComparison } from './LapComparison';
+import { AnalysisTimeline } from './AnalysisTimeline';
+import { ElevationProfileChart } from './ElevationProfileChart';
 
-type HeatmapData = {
-  x: number;
-  y: number;
-  intensity: number;
-  count: number;
-};
+type AnalyticsMode = 'positions' | 'heatmap' | 'speed' | 'corners' | 'lines' | 'elevation' | 'comparison';
+
+// Como o trecho analisado é definido: posições ao redor do relógio, horário (arraste na
+// linha do tempo), intervalo de voltas ou entre duas mensagens do controle de prova
+type WindowMode = 'loaded' | 'time' | 'laps' | 'events';
 
-type AnalyticsMode = 'positions' | 'heatmap' | 'speed' | 'comparison';
+// Limites exibidos enquanto não há posições carregadas
+const DEFAULT_BOUNDS = { minX: 0, maxX: 1000, minY: 0, maxY: 1000 };
+
+// Cores das zonas de frenagem e tração
+const BRAKING_COLOR = '#ef4444';
+const TRACTION_COLOR = '#22c55e';
+// Dispersão da linha (m) com a cor mais quente na faixa
+const MAX_LINE_SPREAD = 3;
+// Inclinação da vista 3D do mapa
+const TILTED_MAP_STYLE = { transform: 'perspective(1600px) rotateX(50deg)', transformOrigin: '50% 60%' };
 
 const AdvancedCircuitAnalytics = () => {
   // Estados básicos
-  const [rawPositions, setRawPositions] = useState<any[]>([]);
-  const [driverInfo, setDriverInfo] = useState<any[]>([]);
-  const [selectedSession, setSelectedSession] = useState(233);
-  const [selectedDrivers, setSelectedDrivers] = useState<string[]>(['1', '44']);
+  const [driverInfo, setDriverInfo] = useState<SessionDriver[]>([]);
+  const [selectedSession] = useSelectedSession();
+  // Seleção compartilhada com os outros painéis; vazio = todos os pilotos
+  const [sharedDrivers, toggleDriver, setSharedDrivers] = useSelectedDrivers();
+  const selectedDrivers = useMemo(
+    () => sharedDrivers.length > 0 ? sharedDrivers : driverInfo.map(d => d.driver_number),
+    [sharedDrivers, driverInfo]
+  );
+
+  // Trecho analisado: os modos diferentes de 'loaded' carregam as posições do próprio intervalo
+  const [windowMode, setWindowMode] = useState<WindowMode>('loaded');
+  const [timeRange, setTimeRange] = useState<ClockRange | null>(null);
+  const [lapRange, setLapRange] = useState({ from: 1, to: 5 });
+  const [eventRange, setEventRange] = useState<{ from: number | null; to: number | null }>({ from: null, to: null });
+  const [raceControl, setRaceControl] = useState<RaceControlMessage[]>([]);
+  // Intervalo aplicado: o calculado no render anterior (as voltas dependem das posições
+  // carregadas), trocado só quando os limites mudam
+  const [loadRange, setLoadRange] = useState<ClockRange | null>(null);
+
+  // Posições carregadas em blocos ao redor do relógio de replay compartilhado ou do trecho escolhido
+  const { currentTime } = useSessionClock();
+  const { positions: rawPositions, extent, isBuffering, bufferedRange } = useCarPositionStream(
+    selectedSession,
+    false,
+    loadRange
+  );
+  useClockRange(extent?.start ?? null, extent?.end ?? null);
+
+  // Escala da telemetria em metros, calibrada pelo comprimento oficial da volta
+  const { circuit, pitLane, startFinish } = useCircuit(selectedSession);
+  const modelKey = circuit?.key ?? (selectedSession ? `session-${selectedSession}` : null);
+  const trackModel = useTrackModel(modelKey, rawPositions, startFinish);
+  const metersPerUnit = getMetersPerUnit(circuit, trackModel);
+  const { detection: lapDetection } = useSessionLaps(selectedSession, trackModel, extent, rawPositions, pitLane, modelKey);
+  const totalLaps = getTotalLaps(lapDetection);
+
+  // Trecho pedido pelo modo escolhido; o analisado é reduzido ao limite de posições carregadas
+  const requestedRange = useMemo<ClockRange | null>(() => {
+    switch (windowMode) {
+      case 'time':
+        return timeRange;
+      case 'laps':
+        return getLapsRange(lapDetection, lapRange.from, lapRange.to, sharedDrivers);
+      case 'events': {
+        const from = raceControl.find(message => message.id === eventRange.from);
+        const to = raceControl.find(message => message.id === eventRange.to);
+        if (!from || !extent) return null;
+        // Sem mensagem final, até o fim da sessão
+        const times = [toMillis(from.timestamp), to ? toMillis(to.timestamp) : extent.end];
+        return { start: Math.min(...times), end: Math.max(...times) };
+      }
+      default:
+        return null;
+    }
+  }, [windowMode, timeRange, lapDetection, lapRange, sharedDrivers, raceControl, eventRange, extent]);
+  const isRangeClamped = requestedRange !== null && requestedRange.end - requestedRange.start > MAX_RANGE_MS;
+  const analysisRange = useMemo<ClockRange | null>(
+    () => requestedRange && isRangeClamped
+      ? { start: requestedRange.start, end: requestedRange.start + MAX_RANGE_MS }
+      : requestedRange,
+    [requestedRange, isRangeClamped]
+  );
+
+  useEffect(() => {
+    setLoadRange(current =>
+      current?.start === analysisRange?.start && current?.end === analysisRange?.end ? current : analysisRange
+    );
+  }, [analysisRange]);
   
   // Estados de análise
   const [analyticsMode, setAnalyticsMode] = useState<AnalyticsMode>('positions');
-  const [timeWindow, setTimeWindow] = useState({ start: 0, end: 100 }); // Porcentagem
   const [showGrid, setShowGrid] = useState(true);
   const [showVelocityVectors, setShowVelocityVectors] = useState(false);
+  const [tiltedMap, setTiltedMap] = useState(false);
   
-  // Dados processados com cálculos de velocidade e aceleração
-  const enhancedPositions = useMemo<EnhancedDriverPosition[]>(() => {
-    if (!rawPositions.length) return [];
-    
-    const enhanced: EnhancedDriverPosition[] = [];
-    const driverGroups = rawPositions.reduce((groups, pos) => {
-      if (!groups[pos.driver_number]) groups[pos.driver_number] = [];
-      groups[pos.driver_number].push(pos);
-      return groups;
-    }, {} as Record<string, any[]>);
-    
-    Object.entries(driverGroups).forEach(([driverNumber, positions]) => {
-      const sortedPositions = positions.sort((a, b) => 
-        new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime()
-      );
-      
-      sortedPositions.forEach((pos, index) => {
-        const enhanced_pos: EnhancedDriverPosition = {
-          ...pos,
-          speed: 0,
-          acceleration: 0,
-          distance: 0
-        };
-        
-        if (index > 0) {
-          const prevPos = sortedPositions[index - 1];
-          const timeDiff = (new Date(pos.timestamp).getTime() - new Date(prevPos.timestamp).getTime()) / 1000; // segundos
-          
-          if (timeDiff > 0) {
-            const distance = Math.sqrt(
-              Math.pow(pos.x_coord - prevPos.x_coord, 2) + 
-              Math.pow(pos.y_coord - prevPos.y_coord, 2)
-            );
-            
-            enhanced_pos.distance = distance;
-            enhanced_pos.speed = distance / timeDiff; // unidades/segundo
-            
-            if (index > 1) {
-              const prevSpeed = enhanced[enhanced.length - 1]?.speed || 0;
-              enhanced_pos.acceleration = (enhanced_pos.speed - prevSpeed) / timeDiff;
-            }
-          }
-        }
-        
-        enhanced.push(enhanced_pos);
-      });
-    });
-    
-    return enhanced;
-  }, [rawPositions]);
-  
-  // Dados de heatmap
-  const heatmapData = useMemo<HeatmapData[]>(() => {
-    if (!enhancedPositions.length || analyticsMode !== 'heatmap') return [];
-    
-    const grid = new Map<string, HeatmapData>();
-    const gridSize = 200; // Tamanho da célula do grid
-    
-    enhancedPositions
-      .filter(pos => selectedDrivers.includes(pos.driver_number))
-      .forEach(pos => {
-        const gridX = Math.floor(pos.x_coord / gridSize) * gridSize;
-        const gridY = Math.floor(pos.y_coord / gridSize) * gridSize;
-        const key = `${gridX},${gridY}`;
-        
-        if (!grid.has(key)) {
-          grid.set(key, { x: gridX, y: gridY, intensity: 0, count: 0 });
-        }
-        
-        const cell = grid.get(key)!;
-        cell.count += 1;
-        cell.intensity += pos.speed || 0;
-      });
-    
-    // Normalizar intensidade
-    const maxIntensity = Math.max(...Array.from(grid.values()).map(cell => cell.intensity / cell.count));
-    
-    return Array.from(grid.values()).map(cell => ({
-      ...cell,
-      intensity: (cell.intensity / cell.count) / maxIntensity
-    }));
-  }, [enhancedPositions, selectedDrivers, analyticsMode]);
+  // Trajetórias, mapa de calor e estatísticas calculados no worker; consultas antigas são
+  // canceladas quando pilotos, janela ou posições carregadas mudam
+  const trajectoryQuery = useMemo<TrajectoryQuery | null>(
+    () => analyticsMode === 'comparison'
+      ? null
+      : {
+        drivers: selectedDrivers,
+        window: loadRange,
+        heatmap: analyticsMode === 'heatmap',
+        corners: analyticsMode === 'corners',
+        lines: analyticsMode === 'lines',
+        elevation: analyticsMode === 'elevation'
+      },
+    [analyticsMode, selectedDrivers, loadRange]
+  );
+  const { result, isComputing } = useTrajectoryAnalytics(
+    selectedSession,
+    rawPositions,
+    metersPerUnit,
+    trackModel,
+    trajectoryQuery
+  );
+  const trajectories = result?.trajectories ?? [];
+  const heatmapData = analyticsMode === 'heatmap' ? result?.heatmap ?? [] : [];
+  const driverStats = result?.stats ?? {};
+  const speedRange = result?.speedRange ?? null;
+  const bounds = result?.bounds ?? DEFAULT_BOUNDS;
+  const cornerAnalysis = analyticsMode === 'corners' ? result?.corners ?? null : null;
+  const lineAnalysis = analyticsMode === 'lines' ? result?.lines ?? null : null;
+  const elevationProfile = analyticsMode === 'elevation' ? result?.elevation ?? null : null;
+  // Pilotos comparados nas tabelas por curva, na ordem da seleção
+  const tableCorners = cornerAnalysis?.corners ?? lineAnalysis?.corners ?? [];
+  const cornerDrivers = selectedDrivers.filter(driverNumber => tableCorners.some(corner => corner.drivers[driverNumber]));
   
-  // Filtrar dados por janela de tempo
-  const filteredPositions = useMemo(() => {
-    if (!enhancedPositions.length) return [];
-    
-    const timestamps = [...new Set(enhancedPositions.map(p => p.timestamp))].sort();
-    const startIndex = Math.floor((timeWindow.start / 100) * timestamps.length);
-    const endIndex = Math.floor((timeWindow.end / 100) * timestamps.length);
-    const timeRange = timestamps.slice(startIndex, endIndex);
-    
-    return enhancedPositions.filter(pos => 
-      timeRange.includes(pos.timestamp) && 
-      selectedDrivers.includes(pos.driver_number)
-    );
-  }, [enhancedPositions, timeWindow, selectedDrivers]);
+  const viewBox = `${bounds.minX - 500} ${bounds.minY - 500} ${bounds.maxX - bounds.minX + 1000} ${bounds.maxY - bounds.minY + 1000}`;
   
-  // Estatísticas por piloto
-  const driverStats = useMemo(() => {
-    const stats: Record<string, {
-      maxSpeed: number;
-      avgSpeed: number;
-      totalDistance: number;
-      positionCount: number;
-    }> = {};
-    
-    selectedDrivers.forEach(driverNumber => {
-      const driverPositions = filteredPositions.filter(p => p.driver_number === driverNumber);
-      
-      if (driverPositions.length > 0) {
-        const speeds = driverPositions.map(p => p.speed || 0).filter(s => s > 0);
-        const distances = driverPositions.map(p => p.distance || 0);
-        
-        stats[driverNumber] = {
-          maxSpeed: Math.max(...speeds),
-          avgSpeed: speeds.reduce((a, b) => a + b, 0) / speeds.length,
-          totalDistance: distances.reduce((a, b) => a + b, 0),
-          positionCount: driverPositions.length
-        };
+  // Pilotos da sessão
+  useEffect(() => {
+    setDriverInfo([]);
+    if (!selectedSession) return;
+
+    const fetchDriverInfo = async () => {
+      try {
+        setDriverInfo(await getSessionDrivers(selectedSession));
+      } catch (error) {
+        console.error('Erro ao buscar pilotos:', error);
       }
-    });
-    
-    return stats;
-  }, [filteredPositions, selectedDrivers]);
-  
-  // Bounds do circuito
-  const bounds = useMemo(() => {
-    if (!enhancedPositions.length) return { minX: 0, maxX: 1000, minY: 0, maxY: 1000 };
-    
-    const x_coords = enhancedPositions.map(p => p.x_coord);
-    const y_coords = enhancedPositions.map(p => p.y_coord);
-    
-    return {
-      minX: Math.min(...x_coords),
-      maxX: Math.max(...x_coords),
-      minY: Math.min(...y_coords),
-      maxY: Math.max(...y_coords)
     };
-  }, [enhancedPositions]);
-  
-  const viewBox = `${bounds.minX - 500} ${bounds.minY - 500} ${bounds.maxX - bounds.minX + 1000} ${bounds.maxY - bounds.minY + 1000}`;
-  
-  // Simulação de dados (remover quando conectar com API real)
+
+    fetchDriverInfo();
+  }, [selectedSession]);
+
+  // Mensagens do controle de prova, para limitar o trecho entre dois eventos
   useEffect(() => {
-    // Simular dados para demonstração
-    const mockData = [];
-    const drivers = ['1', '44', '16', '55'];
-    const now = Date.now();
-    
-    for (let i = 0; i < 500; i++) {
-      drivers.forEach((driver, driverIndex) => {
-        const angle = (i * 0.02 + driverIndex * 1.5) % (Math.PI * 2);
-        const radius = 3000 + Math.sin(angle * 3) * 1000;
-        const x = 3000 + Math.cos(angle) * radius;
-        const y = -1000 + Math.sin(angle) * radius;
-        
-        mockData.push({
-          id: i * drivers.length + driverIndex,
-          session_id: 233,
-          driver_number: driver,
-          x_coord: x + (Math.random() - 0.5) * 100,
-          y_coord: y + (Math.random() - 0.5) * 100,
-          z_coord: 0,
-          timestamp: new Date(now + i * 1000).toISOString()
-        });
-      });
-    }
-    
-    setRawPositions(mockData);
-    
-    setDriverInfo([
-      { driver_number: '1', full_name: 'Max Verstappen', team_name: 'Red Bull', team_color: '#0600EF' },
-      { driver_number: '44', full_name: 'Lewis Hamilton', team_name: 'Mercedes', team_color: '#00D2BE' },
-      { driver_number: '16', full_name: 'Charles Leclerc', team_name: 'Ferrari', team_color: '#DC143C' },
-      { driver_number: '55', full_name: 'Carlos Sainz Jr', team_name: 'Ferrari', team_color: '#DC143C' }
-    ]);
-  }, []);
+    setRaceControl([]);
+    setEventRange({ from: null, to: null });
+    if (!selectedSession) return;
+
+    const fetchRaceControl = async () => {
+      try {
+        setRaceControl(await getRaceControlMessages(selectedSession));
+      } catch (error) {
+        console.error('Erro ao buscar mensagens do controle de prova:', error);
+      }
+    };
+
+    fetchRaceControl();
+  }, [selectedSession]);
   
   const getDriverColor = (driverNumber: string) => {
     const driver = driverInfo.find(d => d.driver_number === driverNumber);
@@ -225,9 +192,16 @@ const AdvancedCircuitAnalytics = () => {
     return driver?.full_name || `Piloto #${driverNumber}`;
   };
   
+  // Cor da altitude: azul (ponto mais baixo) a vermelho (mais alto)
+  const getElevationColor = (elevation: number, range: number) =>
+    `hsl(${(1 - Math.min(elevation / (range || 1), 1)) * 240}, 90%, 55%)`;
+
+  // Cor da faixa de dispersão: verde (linhas iguais) a vermelho (linhas variadas)
+  const getSpreadColor = (spread: number) => `hsl(${(1 - Math.min(spread / MAX_LINE_SPREAD, 1)) * 120}, 100%, 50%)`;
+
   // Componente de cor para velocidade
-  const getSpeedColor = (speed: number, maxSpeed: number) => {
-    const intensity = Math.min(speed / maxSpeed, 1);
+  const getSpeedColor = (speed: number, range: { min: number; max: number }) => {
+    const intensity = Math.max(0, Math.min((speed - range.min) / (range.max - range.min || 1), 1));
     const hue = (1 - intensity) * 120; // De verde (120) para vermelho (0)
     return `hsl(${hue}, 100%, 50%)`;
   };
@@ -236,10 +210,54 @@ const AdvancedCircuitAnalytics = () => {
     <div className="min-h-screen bg-gray-900 text-white">
       <div className="max-w-7xl mx-auto p-4">
         {/* Cabeçalho */}
-        <div className="mb-6">
-          <h1 className="text-3xl font-bold mb-2">📊 Circuit Analytics Pro</h1>
-          <p className="text-gray-400">Análise avançada de trajetórias e performance dos pilotos</p>
+        <div className="flex flex-col md:flex-row justify-between items-start md:items-center mb-6">
+          <div>
+            <h1 className="text-3xl font-bold mb-2">📊 Circuit Analytics Pro</h1>
+            <p className="text-gray-400">Análise avançada de trajetórias e performance dos pilotos</p>
+          </div>
+          <div className="flex flex-col md:flex-row items-end space-y-2 md:space-y-0 md:space-x-8 mt-4 md:mt-0">
+            <SessionPicker />
+            {analyticsMode !== 'comparison' && (
+              <div>
+                <label className="block text-sm text-gray-400 mb-1">Replay</label>
+                <ReplayControls />
+              </div>
+            )}
+          </div>
         </div>
+
+        {/* Trecho analisado: posições carregadas ao redor do relógio de replay */}
+        {analyticsMode !== 'comparison' && (
+          <div className="bg-gray-800 p-4 rounded-lg mb-6">
+            <ReplayProgressBar
+              buffered={bufferedRange}
+              label={isBuffering
+                ? 'Carregando posições...'
+                : `${formatClockTime(currentTime)} · ${rawPositions.length} pontos carregados${isComputing ? ' · calculando...' : ''}`}
+            />
+            {extent && (
+              <div className="mt-3">
+                <p className="text-xs text-gray-400 mb-1">
+                  Volta do líder ao longo da sessão · arraste para analisar um trecho
+                  <span className="text-amber-400"> ▏safety car</span>
+                  <span className="text-red-400"> ▏bandeira vermelha</span>
+                </p>
+                <AnalysisTimeline
+                  extent={extent}
+                  range={analysisRange}
+                  maxLength={MAX_RANGE_MS}
+                  detection={lapDetection}
+                  messages={raceControl}
+                  currentTime={currentTime}
+                  onChange={range => {
+                    setTimeRange(range);
+                    setWindowMode('time');
+                  }}
+                />
+              </div>
+            )}
+          </div>
+        )}
         
         {/* Painel de controles */}
         <div className="grid grid-cols-1 lg:grid-cols-4 gap-4 mb-6">
@@ -254,6 +272,9 @@ const AdvancedCircuitAnalytics = () => {
               <option value="positions">Posições</option>
               <option value="heatmap">Mapa de Calor</option>
               <option value="speed">Velocidade</option>
+              <option value="corners">Frenagem e Tração</option>
+              <option value="lines">Linha e Consistência</option>
+              <option value="elevation">Altimetria</option>
               <option value="comparison">Comparação</option>
             </select>
           </div>
@@ -261,17 +282,18 @@ const AdvancedCircuitAnalytics = () => {
           {/* Seleção de pilotos */}
           <div className="bg-gray-800 p-4 rounded-lg">
             <h3 className="font-semibold mb-2">Pilotos Selecionados</h3>
-            <div className="space-y-1">
+            <div className="space-y-1 max-h-40 overflow-y-auto">
               {driverInfo.map(driver => (
                 <label key={driver.driver_number} className="flex items-center text-sm">
                   <input
                     type="checkbox"
                     checked={selectedDrivers.includes(driver.driver_number)}
-                    onChange={(e) => {
-                      if (e.target.checked) {
-                        setSelectedDrivers([...selectedDrivers, driver.driver_number]);
+                    onChange={() => {
+                      // Sem seleção todos aparecem marcados: desmarcar um seleciona os demais
+                      if (sharedDrivers.length === 0) {
+                        setSharedDrivers(selectedDrivers.filter(d => d !== driver.driver_number));
                       } else {
-                        setSelectedDrivers(selectedDrivers.filter(d => d !== driver.driver_number));
+                        toggleDriver(driver.driver_number);
                       }
                     }}
                     className="mr-2"
@@ -280,9 +302,10 @@ const AdvancedCircuitAnalytics = () => {
                     className="w-3 h-3 rounded-full mr-2"
                     style={{ backgroundColor: driver.team_color }}
                   />
-                  #{driver.driver_number}
+                  <span className="truncate">#{driver.driver_number} {getDriverName(driver.driver_number)}</span>
                 </label>
               ))}
+              {driverInfo.length === 0 && <p className="text-sm text-gray-400">Carregando pilotos...</p>}
             </div>
           </div>
           
@@ -290,28 +313,78 @@ const AdvancedCircuitAnalytics = () => {
           <div className="bg-gray-800 p-4 rounded-lg">
             <h3 className="font-semibold mb-2">Janela de Tempo</h3>
             <div className="space-y-2">
-              <div>
-                <label className="text-xs text-gray-400">Início: {timeWindow.start}%</label>
-                <input
-                  type="range"
-                  min="0"
-                  max="95"
-                  value={timeWindow.start}
-                  onChange={(e) => setTimeWindow({...timeWindow, start: Number(e.target.value)})}
-                  className="w-full"
-                />
-              </div>
-              <div>
-                <label className="text-xs text-gray-400">Fim: {timeWindow.end}%</label>
-                <input
-                  type="range"
-                  min="5"
-                  max="100"
-                  value={timeWindow.end}
-                  onChange={(e) => setTimeWindow({...timeWindow, end: Number(e.target.value)})}
-                  className="w-full"
-                />
-              </div>
+              <select
+                value={windowMode}
+                onChange={(e) => setWindowMode(e.target.value as WindowMode)}
+                className="w-full bg-gray-700 p-2 rounded text-sm"
+              >
+                <option value="loaded">Ao redor do replay</option>
+                <option value="time">Horário</option>
+                <option value="laps">Voltas</option>
+                <option value="events">Controle de prova</option>
+              </select>
+
+              {windowMode === 'time' && (
+                <p className="text-xs text-gray-400">
+                  {timeRange
+                    ? `${formatClockTime(timeRange.start)} – ${formatClockTime(timeRange.end)}`
+                    : 'Arraste sobre a linha do tempo para escolher o trecho'}
+                </p>
+              )}
+
+              {windowMode === 'laps' && (
+                <div className="flex items-center space-x-2 text-sm">
+                  <label className="text-xs text-gray-400">Voltas</label>
+                  <input
+                    type="number"
+                    min={1}
+                    max={Math.max(1, totalLaps)}
+                    value={lapRange.from}
+                    onChange={(e) => setLapRange({ ...lapRange, from: Math.max(1, Number(e.target.value)) })}
+                    className="w-16 bg-gray-700 p-1 rounded"
+                  />
+                  <span>–</span>
+                  <input
+                    type="number"
+                    min={lapRange.from}
+                    max={Math.max(1, totalLaps)}
+                    value={lapRange.to}
+                    onChange={(e) => setLapRange({ ...lapRange, to: Math.max(lapRange.from, Number(e.target.value)) })}
+                    className="w-16 bg-gray-700 p-1 rounded"
+                  />
+                  <span className="text-xs text-gray-400">de {totalLaps || '—'}</span>
+                </div>
+              )}
+
+              {windowMode === 'events' && (['from', 'to'] as const).map(bound => (
+                <select
+                  key={bound}
+                  value={eventRange[bound] ?? ''}
+                  onChange={(e) => setEventRange({ ...eventRange, [bound]: e.target.value ? Number(e.target.value) : null })}
+                  className="w-full bg-gray-700 p-1 rounded text-xs"
+                >
+                  <option value="">{bound === 'from' ? 'De: escolha uma mensagem' : 'Até: fim da sessão'}</option>
+                  {raceControl.map(message => (
+                    <option key={message.id} value={message.id}>
+                      {formatClockTime(toMillis(message.timestamp))} · {message.message}
+                    </option>
+                  ))}
+                </select>
+              ))}
+
+              {windowMode !== 'loaded' && (
+                <p className="text-xs text-gray-400">
+                  {analysisRange
+                    ? `${formatClockTime(analysisRange.start)} – ${formatClockTime(analysisRange.end)}`
+                    : windowMode === 'laps' ? 'Voltas ainda não detectadas' : 'Nenhum trecho escolhido'}
+                </p>
+              )}
+              {windowMode !== 'loaded' && isRangeClamped && (
+                <p className="text-xs text-amber-400">
+                  ⚠️ Trecho escolhido ({formatClockTime(requestedRange.start)} – {formatClockTime(requestedRange.end)})
+                  maior que {Math.round(MAX_RANGE_MS / 60_000)} min: analisados só os primeiros {Math.round(MAX_RANGE_MS / 60_000)} min
+                </p>
+              )}
             </div>
           </div>
           
@@ -337,12 +410,21 @@ const AdvancedCircuitAnalytics = () => {
                 />
                 Vetores de Velocidade
               </label>
+              <label className="flex items-center text-sm">
+                <input
+                  type="checkbox"
+                  checked={tiltedMap}
+                  onChange={(e) => setTiltedMap(e.target.checked)}
+                  className="mr-2"
+                />
+                Vista 3D Inclinada
+              </label>
             </div>
           </div>
         </div>
         
-        {/* Estatísticas */}
-        {Object.keys(driverStats).length > 0 && (
+        {/* Estatísticas (a comparação de voltas não consulta o worker; o resultado seria antigo) */}
+        {analyticsMode !== 'comparison' && Object.keys(driverStats).length > 0 && (
           <div className="bg-gray-800 p-4 rounded-lg mb-6">
             <h3 className="font-semibold mb-3">📈 Estatísticas do Período</h3>
             <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
@@ -356,9 +438,11 @@ const AdvancedCircuitAnalytics = () => {
                     <span className="font-medium">#{driverNumber}</span>
                   </div>
                   <div className="text-sm space-y-1">
-                    <div>Vel. Máx: <span className="text-green-400">{stats.maxSpeed.toFixed(1)}</span></div>
-                    <div>Vel. Média: <span className="text-blue-400">{stats.avgSpeed.toFixed(1)}</span></div>
-                    <div>Distância: <span className="text-yellow-400">{(stats.totalDistance/1000).toFixed(1)}km</span></div>
+                    <div>Vel. Máx: <span className="text-green-400">{formatSpeed(stats.maxSpeed)}</span></div>
+                    <div>Vel. Média: <span className="text-blue-400">{formatSpeed(stats.avgSpeed)}</span></div>
+                    <div>Acel. Máx: <span className="text-purple-400">{formatAcceleration(stats.maxAcceleration)}</span></div>
+                    <div>Frenagem Máx: <span className="text-red-400">{formatAcceleration(stats.maxBraking)}</span></div>
+                    <div>Distância: <span className="text-yellow-400">{formatDistance(stats.totalDistance)}</span></div>
                     <div>Pontos: <span className="text-gray-400">{stats.positionCount}</span></div>
                   </div>
                 </div>
@@ -367,107 +451,206 @@ const AdvancedCircuitAnalytics = () => {
           </div>
         )}
         
+        {/* Comparação de voltas (fantasma), com dados e controles próprios */}
+        {analyticsMode === 'comparison' && <LapComparison />}
+
         {/* Visualização principal */}
-        <div className="bg-black rounded-lg overflow-hidden" style={{ height: '700px' }}>
-          <svg width="100%" height="100%" viewBox={viewBox}>
-            {/* Grade de referência */}
-            {showGrid && (
-              <defs>
-                <pattern id="grid" width="500" height="500" patternUnits="userSpaceOnUse">
-                  <rect width="500" height="500" fill="none" stroke="rgba(255,255,255,0.1)" strokeWidth="1"/>
-                </pattern>
-              </defs>
-            )}
-            {showGrid && <rect width="100%" height="100%" fill="url(#grid)" />}
-            
-            {/* Mapa de calor */}
-            {analyticsMode === 'heatmap' && heatmapData.map((cell, index) => (
-              <rect
-                key={index}
-                x={cell.x}
-                y={cell.y}
-                width="200"
-                height="200"
-                fill={`hsla(${(1-cell.intensity) * 240}, 100%, 50%, ${cell.intensity * 0.7})`}
-                stroke="none"
-              />
-            ))}
-            
-            {/* Trajetórias dos pilotos */}
-            {(analyticsMode === 'positions' || analyticsMode === 'speed') && selectedDrivers.map(driverNumber => {
-              const driverPositions = filteredPositions.filter(p => p.driver_number === driverNumber);
-              if (driverPositions.length < 2) return null;
+        {analyticsMode !== 'comparison' && (
+          <div className="bg-black rounded-lg overflow-hidden" style={{ height: '700px' }}>
+            <svg width="100%" height="100%" viewBox={viewBox} style={tiltedMap ? TILTED_MAP_STYLE : undefined}>
+              {/* Grade de referência */}
+              {showGrid && (
+                <defs>
+                  <pattern id="grid" width="500" height="500" patternUnits="userSpaceOnUse">
+                    <rect width="500" height="500" fill="none" stroke="rgba(255,255,255,0.1)" strokeWidth="1"/>
+                  </pattern>
+                </defs>
+              )}
+              {showGrid && <rect width="100%" height="100%" fill="url(#grid)" />}
               
-              const color = getDriverColor(driverNumber);
-              const maxSpeed = Math.max(...driverPositions.map(p => p.speed || 0));
+              {/* Mapa de calor */}
+              {analyticsMode === 'heatmap' && heatmapData.map((cell, index) => (
+                <rect
+                  key={index}
+                  x={cell.x}
+                  y={cell.y}
+                  width={HEATMAP_CELL}
+                  height={HEATMAP_CELL}
+                  fill={`hsla(${(1-cell.intensity) * 240}, 100%, 50%, ${cell.intensity * 0.7})`}
+                  stroke="none"
+                />
+              ))}
               
-              return (
-                <g key={driverNumber}>
-                  {/* Trajetória */}
-                  <path
-                    d={`M ${driverPositions.map(p => `${p.x_coord} ${p.y_coord}`).join(' L ')}`}
-                    fill="none"
-                    stroke={analyticsMode === 'speed' ? 'url(#speedGradient)' : color}
-                    strokeWidth="3"
-                    strokeOpacity="0.8"
-                  />
-                  
-                  {/* Pontos de velocidade */}
-                  {analyticsMode === 'speed' && driverPositions.map((pos, index) => (
+              {/* Zonas de frenagem e tração sobre as trajetórias */}
+              {cornerAnalysis && (
+                <g>
+                  {trajectories.map(({ driverNumber, path }) => (
+                    <path
+                      key={driverNumber}
+                      d={path}
+                      fill="none"
+                      stroke={getDriverColor(driverNumber)}
+                      strokeWidth="2"
+                      strokeOpacity="0.4"
+                    />
+                  ))}
+                  {cornerAnalysis.zones.map((zone, index) => (
+                    <path
+                      key={index}
+                      d={zone.path}
+                      fill="none"
+                      stroke={zone.kind === 'braking' ? BRAKING_COLOR : TRACTION_COLOR}
+                      strokeWidth="10"
+                      strokeOpacity="0.6"
+                      strokeLinecap="round"
+                    />
+                  ))}
+                  {cornerAnalysis.apexes.map((apex, index) => (
                     <circle
                       key={index}
-                      cx={pos.x_coord}
-                      cy={pos.y_coord}
-                      r="6"
-                      fill={getSpeedColor(pos.speed || 0, maxSpeed)}
+                      cx={apex.x}
+                      cy={apex.y}
+                      r="12"
+                      fill={getDriverColor(apex.driverNumber)}
                       stroke="white"
-                      strokeWidth="1"
+                      strokeWidth="2"
+                    >
+                      <title>#{apex.driverNumber} · ápice a {formatSpeed(apex.speed)}</title>
+                    </circle>
+                  ))}
+                  {cornerAnalysis.corners.map(corner => (
+                    <text
+                      key={corner.number}
+                      x={corner.x}
+                      y={corner.y - 60}
+                      textAnchor="middle"
+                      fill="white"
+                      fontSize="60"
+                      fontWeight="bold"
+                    >
+                      C{corner.number}
+                    </text>
+                  ))}
+                </g>
+              )}
+
+              {/* Pista sombreada pela altitude */}
+              {elevationProfile && elevationProfile.segments.map((segment, index) => (
+                <path
+                  key={index}
+                  d={segment.path}
+                  fill="none"
+                  stroke={getElevationColor(segment.elevation, elevationProfile.range)}
+                  strokeWidth="40"
+                  strokeLinecap="round"
+                />
+              ))}
+
+              {/* Faixa de dispersão das linhas e linha média de cada piloto */}
+              {lineAnalysis && (
+                <g>
+                  {lineAnalysis.bands.map((band, index) => (
+                    <path
+                      key={index}
+                      d={band.path}
+                      fill={getSpreadColor(band.spread)}
+                      fillOpacity="0.35"
+                      stroke="none"
+                    />
+                  ))}
+                  {lineAnalysis.lines.map(line => (
+                    <path
+                      key={line.driverNumber}
+                      d={line.path}
+                      fill="none"
+                      stroke={getDriverColor(line.driverNumber)}
+                      strokeWidth="4"
+                      strokeOpacity="0.9"
                     />
                   ))}
-                  
-                  {/* Vetores de velocidade */}
-                  {showVelocityVectors && driverPositions.slice(0, -1).map((pos, index) => {
-                    const nextPos = driverPositions[index + 1];
-                    const dx = nextPos.x_coord - pos.x_coord;
-                    const dy = nextPos.y_coord - pos.y_coord;
-                    const length = Math.sqrt(dx * dx + dy * dy);
-                    const scale = (pos.speed || 0) * 0.1;
+                  {lineAnalysis.corners.map(corner => (
+                    <text
+                      key={corner.number}
+                      x={corner.x}
+                      y={corner.y - 60}
+                      textAnchor="middle"
+                      fill="white"
+                      fontSize="60"
+                      fontWeight="bold"
+                    >
+                      C{corner.number}
+                    </text>
+                  ))}
+                </g>
+              )}
+
+              {/* Trajetórias dos pilotos */}
+              {(analyticsMode === 'positions' || analyticsMode === 'speed') && trajectories.map(({ driverNumber, path, points }) => {
+                if (points.length < 2) return null;
+                
+                const color = getDriverColor(driverNumber);
+                const current = points[points.length - 1];
+                
+                return (
+                  <g key={driverNumber}>
+                    {/* Trajetória */}
+                    <path
+                      d={path}
+                      fill="none"
+                      stroke={analyticsMode === 'speed' ? 'url(#speedGradient)' : color}
+                      strokeWidth="3"
+                      strokeOpacity="0.8"
+                    />
                     
-                    if (length > 0 && scale > 0) {
-                      const endX = pos.x_coord + (dx / length) * scale;
-                      const endY = pos.y_coord + (dy / length) * scale;
+                    {/* Pontos de velocidade */}
+                    {analyticsMode === 'speed' && speedRange && points.map((point, index) => point.speed !== null && (
+                      <circle
+                        key={index}
+                        cx={point.x}
+                        cy={point.y}
+                        r="6"
+                        fill={getSpeedColor(point.speed, speedRange)}
+                        stroke="white"
+                        strokeWidth="1"
+                      />
+                    ))}
+                    
+                    {/* Vetores de velocidade */}
+                    {showVelocityVectors && points.slice(0, -1).map((point, index) => {
+                      // Comprimento em unidades da telemetria: 0,1 s de deslocamento
+                      const scale = ((point.speed || 0) / 3.6 / metersPerUnit) * 0.1;
                       
-                      return (
-                        <line
-                          key={index}
-                          x1={pos.x_coord}
-                          y1={pos.y_coord}
-                          x2={endX}
-                          y2={endY}
-                          stroke={color}
-                          strokeWidth="2"
-                          strokeOpacity="0.6"
-                          markerEnd="url(#arrowhead)"
-                        />
-                      );
-                    }
-                    return null;
-                  })}
-                  
-                  {/* Posição atual (última posição) */}
-                  {driverPositions.length > 0 && (
+                      if ((point.dirX !== 0 || point.dirY !== 0) && scale > 0) {
+                        return (
+                          <line
+                            key={index}
+                            x1={point.x}
+                            y1={point.y}
+                            x2={point.x + point.dirX * scale}
+                            y2={point.y + point.dirY * scale}
+                            stroke={color}
+                            strokeWidth="2"
+                            strokeOpacity="0.6"
+                            markerEnd="url(#arrowhead)"
+                          />
+                        );
+                      }
+                      return null;
+                    })}
+                    
+                    {/* Posição atual (última posição) */}
                     <g>
                       <circle
-                        cx={driverPositions[driverPositions.length - 1].x_coord}
-                        cy={driverPositions[driverPositions.length - 1].y_coord}
+                        cx={current.x}
+                        cy={current.y}
                         r="25"
                         fill={color}
                         stroke="white"
                         strokeWidth="3"
                       />
                       <text
-                        x={driverPositions[driverPositions.length - 1].x_coord}
-                        y={driverPositions[driverPositions.length - 1].y_coord + 6}
+                        x={current.x}
+                        y={current.y + 6}
                         textAnchor="middle"
                         fill="white"
                         fontSize="16"
@@ -476,30 +659,244 @@ const AdvancedCircuitAnalytics = () => {
                         {driverNumber}
                       </text>
                     </g>
-                  )}
-                </g>
-              );
-            })}
-            
-            {/* Definições para setas */}
-            <defs>
-              <marker id="arrowhead" markerWidth="10" markerHeight="7" 
-                refX="9" refY="3.5" orient="auto">
-                <polygon points="0 0, 10 3.5, 0 7" fill="currentColor" />
-              </marker>
-            </defs>
-          </svg>
-        </div>
+                  </g>
+                );
+              })}
+              
+              {/* Definições para setas */}
+              <defs>
+                <marker id="arrowhead" markerWidth="10" markerHeight="7" 
+                  refX="9" refY="3.5" orient="auto">
+                  <polygon points="0 0, 10 3.5, 0 7" fill="currentColor" />
+                </marker>
+              </defs>
+            </svg>
+          </div>
+        )}
         
         {/* Legenda de velocidade */}
         {analyticsMode === 'speed' && (
           <div className="mt-4 bg-gray-800 p-4 rounded-lg">
             <h3 className="font-semibold mb-2">Legenda de Velocidade</h3>
             <div className="flex items-center space-x-2">
-              <span className="text-sm">Lenta</span>
+              <span className="text-sm">{speedRange ? formatSpeed(speedRange.min) : 'Lenta'}</span>
               <div className="w-32 h-4 bg-gradient-to-r from-green-500 via-yellow-500 to-red-500 rounded"/>
-              <span className="text-sm">Rápida</span>
+              <span className="text-sm">{speedRange ? formatSpeed(speedRange.max) : 'Rápida'}</span>
+            </div>
+          </div>
+        )}
+
+        {/* Legenda do mapa de calor */}
+        {analyticsMode === 'heatmap' && heatmapData.length > 0 && (
+          <div className="mt-4 bg-gray-800 p-4 rounded-lg">
+            <h3 className="font-semibold mb-2">Velocidade Média por Célula</h3>
+            <div className="flex items-center space-x-2">
+              <span className="text-sm">{formatSpeed(Math.min(...heatmapData.map(cell => cell.speed)))}</span>
+              <div className="w-32 h-4 bg-gradient-to-r from-blue-500 via-green-500 to-red-500 rounded"/>
+              <span className="text-sm">{formatSpeed(Math.max(...heatmapData.map(cell => cell.speed)))}</span>
+              <span className="text-xs text-gray-400 ml-4">
+                Células de {formatDistance(HEATMAP_CELL * metersPerUnit)}
+              </span>
+            </div>
+          </div>
+        )}
+
+        {/* Legenda e comparação por curva */}
+        {cornerAnalysis && (
+          <div className="mt-4 bg-gray-800 p-4 rounded-lg">
+            <div className="flex flex-wrap items-center justify-between gap-2 mb-3">
+              <h3 className="font-semibold">Frenagem e Tração por Curva</h3>
+              <div className="flex items-center space-x-4 text-sm">
+                <span className="flex items-center">
+                  <span className="w-6 h-2 rounded mr-2" style={{ backgroundColor: BRAKING_COLOR }} />
+                  Frenagem
+                </span>
+                <span className="flex items-center">
+                  <span className="w-3 h-3 rounded-full border-2 border-white bg-gray-500 mr-2" />
+                  Ápice
+                </span>
+                <span className="flex items-center">
+                  <span className="w-6 h-2 rounded mr-2" style={{ backgroundColor: TRACTION_COLOR }} />
+                  Aceleração plena
+                </span>
+              </div>
+            </div>
+            {cornerAnalysis.corners.length === 0 ? (
+              <p className="text-sm text-gray-400">
+                {trackModel
+                  ? 'Nenhuma frenagem detectada no trecho analisado.'
+                  : 'A comparação por curva precisa da linha de referência da pista (uma volta completa carregada).'}
+              </p>
+            ) : (
+              <div className="overflow-x-auto">
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="text-gray-400 text-left">
+                      <th className="py-1 pr-4 font-normal">Curva</th>
+                      {cornerDrivers.map(driverNumber => (
+                        <th key={driverNumber} className="py-1 pr-4 font-normal whitespace-nowrap">
+                          <span
+                            className="inline-block w-3 h-3 rounded-full mr-1 align-middle"
+                            style={{ backgroundColor: getDriverColor(driverNumber) }}
+                          />
+                          #{driverNumber}
+                        </th>
+                      ))}
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {cornerAnalysis.corners.map(corner => {
+                      const passes = Object.values(corner.drivers);
+                      // Destaques: frenagem mais tardia e maior velocidade no ápice
+                      const latestBrake = Math.min(...passes.map(pass => pass.brakeDistance));
+                      const fastestApex = Math.max(...passes.map(pass => pass.apexSpeed));
+                      return (
+                        <tr key={corner.number} className="border-t border-gray-700">
+                          <td className="py-1 pr-4 whitespace-nowrap">
+                            C{corner.number}
+                            <span className="text-xs text-gray-400 ml-2">{formatDistance(corner.distance)}</span>
+                          </td>
+                          {cornerDrivers.map(driverNumber => {
+                            const pass = corner.drivers[driverNumber];
+                            return (
+                              <td key={driverNumber} className="py-1 pr-4 whitespace-nowrap">
+                                {pass ? (
+                                  <>
+                                    <div className={pass.brakeDistance === latestBrake ? 'text-red-400' : ''}>
+                                      Freia a {formatDistance(pass.brakeDistance)}
+                                    </div>
+                                    <div className={pass.apexSpeed === fastestApex ? 'text-green-400' : 'text-gray-300'}>
+                                      Ápice {formatSpeed(pass.apexSpeed)}
+                                      {pass.passes > 1 && <span className="text-xs text-gray-400"> ({pass.passes}×)</span>}
+                                    </div>
+                                  </>
+                                ) : (
+                                  <span className="text-gray-500">—</span>
+                                )}
+                              </td>
+                            );
+                          })}
+                        </tr>
+                      );
+                    })}
+                  </tbody>
+                </table>
+                <p className="text-xs text-gray-400 mt-2">
+                  Distância do início da frenagem até o ápice médio da curva e velocidade mínima, em média
+                  das passagens no trecho analisado. Em destaque, a frenagem mais tardia e o ápice mais rápido.
+                </p>
+              </div>
+            )}
+          </div>
+        )}
+
+        {/* Perfil de altitude */}
+        {analyticsMode === 'elevation' && (
+          <div className="mt-4 bg-gray-800 p-4 rounded-lg">
+            <div className="flex flex-wrap items-center justify-between gap-2 mb-3">
+              <h3 className="font-semibold">Altimetria</h3>
+              {elevationProfile && (
+                <div className="flex items-center space-x-2 text-sm">
+                  <span>0 m</span>
+                  <div className="w-32 h-4 bg-gradient-to-r from-blue-500 via-green-500 to-red-500 rounded"/>
+                  <span>{elevationProfile.range.toFixed(0)} m</span>
+                </div>
+              )}
             </div>
+            {elevationProfile ? (
+              <ElevationProfileChart profile={elevationProfile} />
+            ) : (
+              <p className="text-sm text-gray-400">
+                {trackModel
+                  ? 'Sem altitude (z_coord) suficiente nas posições do trecho analisado.'
+                  : 'A altimetria precisa da linha de referência da pista (uma volta completa carregada).'}
+              </p>
+            )}
+          </div>
+        )}
+
+        {/* Legenda e consistência da linha por curva */}
+        {analyticsMode === 'lines' && (
+          <div className="mt-4 bg-gray-800 p-4 rounded-lg">
+            <div className="flex flex-wrap items-center justify-between gap-2 mb-3">
+              <h3 className="font-semibold">Linha e Consistência por Curva</h3>
+              <div className="flex items-center space-x-2 text-sm">
+                <span>Dispersão 0 m</span>
+                <div className="w-32 h-4 bg-gradient-to-r from-green-500 via-yellow-500 to-red-500 rounded"/>
+                <span>{MAX_LINE_SPREAD} m ou mais</span>
+              </div>
+            </div>
+            {!lineAnalysis || lineAnalysis.corners.length === 0 ? (
+              <p className="text-sm text-gray-400">
+                {trackModel
+                  ? 'Nenhuma curva com frenagem detectada no trecho analisado.'
+                  : 'A análise da linha precisa da linha de referência da pista (uma volta completa carregada).'}
+              </p>
+            ) : (
+              <div className="overflow-x-auto">
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="text-gray-400 text-left">
+                      <th className="py-1 pr-4 font-normal">Curva</th>
+                      {cornerDrivers.map(driverNumber => (
+                        <th key={driverNumber} className="py-1 pr-4 font-normal whitespace-nowrap">
+                          <span
+                            className="inline-block w-3 h-3 rounded-full mr-1 align-middle"
+                            style={{ backgroundColor: getDriverColor(driverNumber) }}
+                          />
+                          #{driverNumber}
+                          <span className="text-xs ml-1">({lineAnalysis.laps[driverNumber] ?? 0} voltas)</span>
+                        </th>
+                      ))}
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {lineAnalysis.corners.map(corner => {
+                      // Destaque: piloto mais consistente na curva
+                      const bestScore = Math.max(...Object.values(corner.drivers).map(entry => entry.score));
+                      return (
+                        <tr key={corner.number} className="border-t border-gray-700">
+                          <td className="py-1 pr-4 whitespace-nowrap">
+                            C{corner.number}
+                            <span className="text-xs text-gray-400 ml-2">{formatDistance(corner.distance)}</span>
+                          </td>
+                          {cornerDrivers.map(driverNumber => {
+                            const entry = corner.drivers[driverNumber];
+                            return (
+                              <td key={driverNumber} className="py-1 pr-4 whitespace-nowrap">
+                                {entry ? (
+                                  <>
+                                    <div className={entry.score === bestScore ? 'text-green-400' : ''}>
+                                      Consistência {entry.score}
+                                    </div>
+                                    <div className="text-gray-300">
+                                      ±{entry.spread.toFixed(1)} m
+                                      <span className="text-xs text-gray-400">
+                                        {' · '}
+                                        {Math.abs(entry.relativeOffset) < 0.05
+                                          ? 'na média'
+                                          : `${Math.abs(entry.relativeOffset).toFixed(1)} m à ${entry.relativeOffset > 0 ? 'esq.' : 'dir.'}`}
+                                      </span>
+                                    </div>
+                                  </>
+                                ) : (
+                                  <span className="text-gray-500">—</span>
+                                )}
+                              </td>
+                            );
+                          })}
+                        </tr>
+                      );
+                    })}
+                  </tbody>
+                </table>
+                <p className="text-xs text-gray-400 mt-2">
+                  Consistência: 100 = mesma linha em todas as voltas; cai com o desvio padrão do afastamento
+                  lateral entre as voltas perto do ápice. O afastamento é comparado à média dos pilotos
+                  (esquerda e direita no sentido da pista). Pilotos com uma só volta no trecho não têm nota.
+                </p>
+              </div>
+            )}
           </div>
         )}
       </div>
@@ -0,0 +1,42 @@
+import React from 'react';
+import type { SessionDriver } from '../lib/database.types';
+import { useSelectedDrivers } from '../hooks/useRoute';
+
+type DriverFilterBarProps = {
+  // Para nome e cor dos pilotos (opcional)
+  drivers?: SessionDriver[];
+};
+
+// Pilotos selecionados no mapa ou na torre, usados como filtro neste painel
+export const DriverFilterBar: React.FC<DriverFilterBarProps> = ({ drivers = [] }) => {
+  const [selectedDrivers, toggleDriver, setSelectedDrivers] = useSelectedDrivers();
+  if (selectedDrivers.length === 0) return null;
+
+  return (
+    <div className="flex flex-wrap items-center gap-2 mb-4 text-sm">
+      <span className="text-gray-400">Filtrando por:</span>
+      {selectedDrivers.map(driverNumber => {
+        const driver = drivers.find(d => d.driver_number === driverNumber);
+        return (
+          <button
+            key={driverNumber}
+            onClick={() => toggleDriver(driverNumber)}
+            className="flex items-center px-2 py-1 bg-gray-700 hover:bg-gray-600 rounded"
+            title="Remover do filtro"
+          >
+            <span className="w-1 h-4 mr-2" style={{ backgroundColor: driver?.team_color ?? '#ffffff' }} />
+            #{driverNumber} {driver?.full_name ?? ''} ✕
+          </button>
+        );
+      })}
+      <button
+        onClick={() => setSelectedDrivers([])}
+        className="px-2 py-1 text-gray-400 hover:text-white"
+      >
+        Limpar
+      </button>
+    </div>
+  );
+};
+
+export default DriverFilterBar;
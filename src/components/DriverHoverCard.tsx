@@ -0,0 +1,59 @@
+import React from 'react';
+import type { SessionDriver } from '../lib/database.types';
+import { formatLapTime, getDriverLapAt, type LapDetection } from '../lib/laps';
+
+type DriverHoverCardProps = {
+  driverNumber: string;
+  driver: SessionDriver | undefined;
+  // Posição na torre de cronometragem (null enquanto não há ordem)
+  position: number | null;
+  lapDetection: LapDetection;
+  currentTime: number | null;
+  // km/h calculados das posições (null sem amostras próximas)
+  speed: number | null;
+  // Canto do cartão, em px relativos ao mapa
+  x: number;
+  y: number;
+};
+
+// Cartão com os dados do piloto sob o mouse no mapa
+export const DriverHoverCard: React.FC<DriverHoverCardProps> = ({
+  driverNumber,
+  driver,
+  position,
+  lapDetection,
+  currentTime,
+  speed,
+  x,
+  y
+}) => {
+  const currentLap = getDriverLapAt(lapDetection, driverNumber, currentTime);
+  const laps = lapDetection.drivers[driverNumber]?.laps ?? [];
+  // Última volta completa antes da atual
+  const lastLap = currentLap ? laps.find(lap => lap.lap === currentLap.lap - 1) : undefined;
+
+  return (
+    <div
+      className="absolute pointer-events-none bg-gray-900 bg-opacity-95 border border-gray-600 rounded p-2 text-xs shadow-lg w-48"
+      style={{ left: x + 12, top: y + 12 }}
+    >
+      <div className="flex items-center mb-1">
+        <span className="w-1 h-4 mr-2" style={{ backgroundColor: driver?.team_color ?? '#ffffff' }} />
+        <span className="font-semibold text-sm">#{driverNumber} {driver?.full_name ?? ''}</span>
+      </div>
+      {driver?.team_name && <div className="text-gray-400 mb-1">{driver.team_name}</div>}
+      <div className="grid grid-cols-2 gap-x-2 gap-y-0.5">
+        <span className="text-gray-400">Posição</span>
+        <span className="text-right font-mono">{position !== null ? `P${position}` : '—'}</span>
+        <span className="text-gray-400">Volta</span>
+        <span className="text-right font-mono">{currentLap?.lap ?? '—'}</span>
+        <span className="text-gray-400">Última volta</span>
+        <span className="text-right font-mono">{lastLap ? formatLapTime(lastLap.lapTime) : '—'}</span>
+        <span className="text-gray-400">Velocidade</span>
+        <span className="text-right font-mono">{speed !== null ? `${Math.round(speed)} km/h` : '—'}</span>
+      </div>
+    </div>
+  );
+};
+
+export default DriverHoverCard;
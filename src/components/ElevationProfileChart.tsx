@@ -0,0 +1,160 @@
+import {
+  ComposedChart,
+  Area,
+  Line,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  ReferenceArea,
+  ReferenceLine,
+  ResponsiveContainer
+} from 'recharts';
+import type { ElevationProfile } from '../lib/elevation';
+import { formatAcceleration, formatDistance, formatSpeed } from '../lib/units';
+
+const UPHILL_COLOR = '#22c55e';
+const DOWNHILL_COLOR = '#f97316';
+
+const formatGradient = (gradient: number) => `${gradient > 0 ? '+' : ''}${gradient.toFixed(1)}%`;
+
+// Intensidade da correlação, em palavras
+const describeCorrelation = (r: number) => {
+  const strength = Math.abs(r) >= 0.5 ? 'forte' : Math.abs(r) >= 0.3 ? 'moderada' : 'fraca';
+  return `${strength} ${r >= 0 ? 'positiva' : 'negativa'}`;
+};
+
+// Perfil de altitude pela distância com a velocidade média sobreposta, subidas e descidas
+// destacadas e a tabela que relaciona cada trecho com velocidade e aceleração
+export const ElevationProfileChart = ({ profile }: { profile: ElevationProfile }) => (
+  <div className="space-y-4">
+    <div className="h-64">
+      <ResponsiveContainer width="100%" height="100%">
+        <ComposedChart data={profile.points} margin={{ top: 15, right: 5, left: 0, bottom: 5 }}>
+          <CartesianGrid strokeDasharray="3 3" stroke="#374151" />
+          <XAxis
+            dataKey="distance"
+            type="number"
+            domain={[0, profile.length]}
+            tickFormatter={(value: number) => formatDistance(value)}
+            stroke="#9ca3af"
+            tick={{ fontSize: 9 }}
+          />
+          <YAxis
+            yAxisId="elevation"
+            stroke="#9ca3af"
+            tick={{ fontSize: 9 }}
+            tickFormatter={(value: number) => `${Math.round(value)} m`}
+          />
+          <YAxis
+            yAxisId="speed"
+            orientation="right"
+            stroke="#60a5fa"
+            tick={{ fontSize: 9 }}
+            tickFormatter={(value: number) => `${Math.round(value)}`}
+          />
+          <Tooltip
+            contentStyle={{ backgroundColor: '#1f2937', border: 'none', fontSize: 12 }}
+            labelFormatter={(value: number) => formatDistance(value)}
+            formatter={(value: number, name: string) => {
+              if (name === 'elevation') return [`${value.toFixed(1)} m`, 'Altitude'];
+              if (name === 'speed') return [formatSpeed(value), 'Velocidade'];
+              return [formatGradient(value), 'Inclinação'];
+            }}
+          />
+          {profile.sections.flatMap((section, index) =>
+            // Trecho que cruza a linha de chegada: uma área em cada ponta do gráfico
+            (section.from < section.to ? [[section.from, section.to]] : [[section.from, profile.length], [0, section.to]])
+              .map(([x1, x2], part) => (
+                <ReferenceArea
+                  key={`${index}-${part}`}
+                  yAxisId="elevation"
+                  x1={x1}
+                  x2={x2}
+                  fill={section.kind === 'uphill' ? UPHILL_COLOR : DOWNHILL_COLOR}
+                  fillOpacity={0.15}
+                />
+              ))
+          )}
+          {profile.corners.map(corner => (
+            <ReferenceLine
+              key={corner.number}
+              yAxisId="elevation"
+              x={corner.distance}
+              stroke="#6b7280"
+              strokeDasharray="2 4"
+              label={{ value: `C${corner.number}`, position: 'top', fill: '#d1d5db', fontSize: 9 }}
+            />
+          ))}
+          <Area
+            yAxisId="elevation"
+            type="monotone"
+            dataKey="elevation"
+            stroke="#a3a3a3"
+            fill="#525252"
+            fillOpacity={0.6}
+            isAnimationActive={false}
+          />
+          <Line
+            yAxisId="speed"
+            type="monotone"
+            dataKey="speed"
+            stroke="#60a5fa"
+            strokeWidth={1.5}
+            dot={false}
+            connectNulls
+            isAnimationActive={false}
+          />
+          {/* Só para o tooltip */}
+          <Line yAxisId="elevation" dataKey="gradient" stroke="none" dot={false} activeDot={false} isAnimationActive={false} />
+        </ComposedChart>
+      </ResponsiveContainer>
+    </div>
+
+    <p className="text-xs text-gray-400">
+      Desnível total de {profile.range.toFixed(1)} m. Correlação entre inclinação e aceleração longitudinal:{' '}
+      {profile.correlation === null
+        ? 'dados insuficientes'
+        : `r = ${profile.correlation.toFixed(2)} (${describeCorrelation(profile.correlation)})`}
+    </p>
+
+    {profile.sections.length > 0 ? (
+      <div className="overflow-x-auto">
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-gray-400 text-left">
+              <th className="py-1 pr-4 font-normal">Trecho</th>
+              <th className="py-1 pr-4 font-normal">Distância</th>
+              <th className="py-1 pr-4 font-normal">Desnível</th>
+              <th className="py-1 pr-4 font-normal">Inclinação média</th>
+              <th className="py-1 pr-4 font-normal">Vel. média</th>
+              <th className="py-1 pr-4 font-normal">Acel. média</th>
+              <th className="py-1 pr-4 font-normal">Curvas</th>
+            </tr>
+          </thead>
+          <tbody>
+            {profile.sections.map((section, index) => (
+              <tr key={index} className="border-t border-gray-700">
+                <td className="py-1 pr-4" style={{ color: section.kind === 'uphill' ? UPHILL_COLOR : DOWNHILL_COLOR }}>
+                  {section.kind === 'uphill' ? '▲ Subida' : '▼ Descida'}
+                </td>
+                <td className="py-1 pr-4 whitespace-nowrap">
+                  {formatDistance(section.from)} – {formatDistance(section.to)}
+                </td>
+                <td className="py-1 pr-4">{section.change > 0 ? '+' : ''}{section.change.toFixed(1)} m</td>
+                <td className="py-1 pr-4">{formatGradient(section.gradient)}</td>
+                <td className="py-1 pr-4">{formatSpeed(section.speed)}</td>
+                <td className="py-1 pr-4">{formatAcceleration(section.acceleration)}</td>
+                <td className="py-1 pr-4">
+                  {section.corners.length > 0 ? section.corners.map(number => `C${number}`).join(', ') : '—'}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    ) : (
+      <p className="text-sm text-gray-400">Nenhuma subida ou descida acima de 2% no trecho analisado.</p>
+    )}
+  </div>
+);
@@ -0,0 +1,341 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import {
+  LineChart,
+  Line,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  ReferenceLine,
+  ResponsiveContainer
+} from 'recharts';
+import type { Session, SessionDriver } from '../lib/database.types';
+import { formatLapTime, type Lap, type LapDetection } from '../lib/laps';
+import { buildDeltaSeries, deltaAt, formatDelta, lapFractionAt } from '../lib/lapComparison';
+import { positionAt } from '../lib/motion';
+import { toPathData, type MapCar, type MapScene, type MapTrail } from '../lib/mapScene';
+import { findCircuit } from '../lib/circuits';
+import { getSessionLabel } from '../lib/sessions';
+import { useSelectedSession } from '../hooks/useRoute';
+import { useSessionCatalog } from '../hooks/useSessionCatalog';
+import { useSessionLapCatalog } from '../hooks/useSessionLapCatalog';
+import { useLapTrail } from '../hooks/useLapTrail';
+import { CircuitMapSvg } from './CircuitMapSvg';
+
+type LapPick = {
+  sessionId: number | null;
+  driverNumber: string | null;
+  // null = volta mais rápida do piloto
+  lap: number | null;
+};
+
+const EMPTY_PICK: LapPick = { sessionId: null, driverNumber: null, lap: null };
+// Cores fixas das duas voltas (o mesmo piloto pode estar nas duas)
+const COMPARISON_COLORS = ['#3b82f6', '#f59e0b'];
+const COMPARISON_SPEEDS = [0.25, 0.5, 1, 2, 5];
+
+// Voltas completas do piloto e a escolhida (a mais rápida por padrão)
+const resolveLap = (detection: LapDetection, pick: LapPick) => {
+  const laps = pick.driverNumber
+    ? (detection.drivers[pick.driverNumber]?.laps ?? []).filter(lap => lap.lapTime !== null)
+    : [];
+  const fastest = laps.reduce<Lap | null>((best, lap) => !best || lap.lapTime! < best.lapTime! ? lap : best, null);
+  const lap = pick.lap !== null ? laps.find(l => l.lap === pick.lap) ?? null : fastest;
+  return { laps, lap };
+};
+
+type LapPickerProps = {
+  label: string;
+  color: string;
+  pick: LapPick;
+  sessions: Session[];
+  drivers: SessionDriver[];
+  laps: Lap[];
+  lap: Lap | null;
+  progress: number | null;
+  onChange: (pick: LapPick) => void;
+};
+
+const LapPicker: React.FC<LapPickerProps> = ({ label, color, pick, sessions, drivers, laps, lap, progress, onChange }) => (
+  <div className="bg-gray-800 p-4 rounded-lg">
+    <h3 className="font-semibold mb-2 flex items-center">
+      <span className="w-3 h-3 rounded-full mr-2" style={{ backgroundColor: color }} />
+      {label}
+    </h3>
+    <div className="space-y-2 text-sm">
+      <select
+        value={pick.sessionId ?? ''}
+        onChange={(e) => onChange({ ...EMPTY_PICK, sessionId: Number(e.target.value) })}
+        className="w-full bg-gray-700 p-2 rounded"
+      >
+        {sessions.map(session => (
+          <option key={session.id} value={session.id}>{getSessionLabel(session)}</option>
+        ))}
+      </select>
+      <select
+        value={pick.driverNumber ?? ''}
+        onChange={(e) => onChange({ ...pick, driverNumber: e.target.value || null, lap: null })}
+        className="w-full bg-gray-700 p-2 rounded"
+      >
+        <option value="">Escolha o piloto</option>
+        {drivers.map(driver => (
+          <option key={driver.driver_number} value={driver.driver_number}>
+            #{driver.driver_number} {driver.full_name}
+          </option>
+        ))}
+      </select>
+      <select
+        value={lap?.lap ?? ''}
+        onChange={(e) => onChange({ ...pick, lap: Number(e.target.value) })}
+        className="w-full bg-gray-700 p-2 rounded"
+        disabled={laps.length === 0}
+      >
+        {laps.length === 0 && <option value="">Sem voltas completas</option>}
+        {laps.map(l => (
+          <option key={l.lap} value={l.lap}>Volta {l.lap} · {formatLapTime(l.lapTime)}</option>
+        ))}
+      </select>
+      {progress !== null && (
+        <p className="text-xs text-gray-400">Detectando voltas… {Math.round(progress * 100)}%</p>
+      )}
+    </div>
+  </div>
+);
+
+// Duas voltas (da mesma sessão ou de sessões diferentes do mesmo circuito) reproduzidas
+// lado a lado a partir da linha de chegada, com o delta ao longo da volta
+export const LapComparison: React.FC = () => {
+  const [selectedSession] = useSelectedSession();
+  const { sessions } = useSessionCatalog();
+  const [picks, setPicks] = useState<[LapPick, LapPick]>([EMPTY_PICK, EMPTY_PICK]);
+  // Sem escolha, as duas voltas vêm da sessão aberta nos dashboards
+  const pickA = { ...picks[0], sessionId: picks[0].sessionId ?? selectedSession };
+  const pickB = { ...picks[1], sessionId: picks[1].sessionId ?? selectedSession };
+
+  const catalogA = useSessionLapCatalog(pickA.sessionId);
+  const catalogB = useSessionLapCatalog(pickB.sessionId);
+  const resolvedA = resolveLap(catalogA.detection, pickA);
+  const resolvedB = resolveLap(catalogB.detection, pickB);
+  const lapA = resolvedA.lap;
+  const lapB = resolvedB.lap;
+  const trailA = useLapTrail(pickA.sessionId, lapA);
+  const trailB = useLapTrail(pickB.sessionId, lapB);
+
+  // Só sessões do mesmo circuito da volta de referência são comparáveis
+  const circuitKey = catalogA.circuit?.key ?? null;
+  const comparableSessions = circuitKey
+    ? sessions.filter(session => findCircuit(session)?.key === circuitKey)
+    : sessions;
+
+  // Tempo decorrido desde a linha de chegada, comum às duas voltas
+  const [elapsed, setElapsed] = useState(0);
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [speed, setSpeed] = useState(1);
+  const duration = Math.max(lapA?.lapTime ?? 0, lapB?.lapTime ?? 0);
+
+  // Nova volta escolhida: volta à largada
+  const lapKeyA = lapA ? `${pickA.sessionId}:${lapA.driverNumber}:${lapA.lap}` : null;
+  const lapKeyB = lapB ? `${pickB.sessionId}:${lapB.driverNumber}:${lapB.lap}` : null;
+  useEffect(() => {
+    setElapsed(0);
+    setIsPlaying(false);
+  }, [lapKeyA, lapKeyB]);
+
+  useEffect(() => {
+    if (!isPlaying) return;
+
+    let lastTick = performance.now();
+    let frame = requestAnimationFrame(function tick(now) {
+      const step = Math.max(0, now - lastTick) * speed;
+      lastTick = now;
+      frame = requestAnimationFrame(tick);
+
+      setElapsed(current => {
+        const next = current + step;
+        if (next >= duration) {
+          setIsPlaying(false);
+          return duration;
+        }
+        return next;
+      });
+    });
+
+    return () => cancelAnimationFrame(frame);
+  }, [isPlaying, speed, duration]);
+
+  const deltaSeries = useMemo(() => lapA && lapB ? buildDeltaSeries(lapA, lapB) : [], [lapA, lapB]);
+  const currentDelta = lapA && lapB ? deltaAt(lapA, lapB, elapsed) : null;
+  const currentFraction = lapA ? lapFractionAt(lapA, elapsed) : null;
+
+  const model = catalogA.model;
+  const scene = useMemo((): MapScene | null => {
+    if (!model) return null;
+    const xs = model.points.map(p => p.x);
+    const ys = model.points.map(p => p.y);
+    const padding = 500;
+    const minX = Math.min(...xs);
+    const minY = Math.min(...ys);
+
+    const entries = [
+      { id: 'A', lap: lapA, trail: trailA, color: COMPARISON_COLORS[0], drivers: catalogA.drivers },
+      { id: 'B', lap: lapB, trail: trailB, color: COMPARISON_COLORS[1], drivers: catalogB.drivers }
+    ];
+    const trails: MapTrail[] = [];
+    const cars: MapCar[] = [];
+    entries.forEach(({ id, lap, trail, color, drivers }) => {
+      if (!lap || lap.end === null || trail.length === 0) return;
+      const lapPoints = trail
+        .filter(pos => pos.x_coord !== null && pos.y_coord !== null)
+        .map(pos => ({ x: pos.x_coord!, y: pos.y_coord! }));
+      trails.push({ driverNumber: id, color, opacity: 0.35, emphasis: false, d: toPathData(lapPoints) });
+
+      const point = positionAt(trail, Math.min(lap.start + elapsed, lap.end));
+      if (!point) return;
+      const driver = drivers.find(d => d.driver_number === lap.driverNumber);
+      cars.push({
+        driverNumber: id,
+        name: `${driver?.full_name ?? `Piloto #${lap.driverNumber}`} · Volta ${lap.lap}`,
+        x: point.x,
+        y: point.y,
+        color,
+        opacity: id === 'B' ? 0.75 : 1
+      });
+    });
+
+    const { x, y, heading } = model.startFinish;
+    const half = 150;
+    return {
+      viewBox: {
+        x: minX - padding,
+        y: minY - padding,
+        width: Math.max(...xs) - minX + padding * 2,
+        height: Math.max(...ys) - minY + padding * 2
+      },
+      unit: 1,
+      artwork: null,
+      showGrid: false,
+      track: toPathData(model.points, true),
+      pitLane: null,
+      startFinish: {
+        x1: x - Math.sin(heading) * half,
+        y1: y + Math.cos(heading) * half,
+        x2: x + Math.sin(heading) * half,
+        y2: y - Math.cos(heading) * half
+      },
+      trails,
+      cars
+    };
+  }, [model, lapA, lapB, trailA, trailB, elapsed, catalogA.drivers, catalogB.drivers]);
+
+  const setPick = (index: 0 | 1, pick: LapPick) =>
+    setPicks(current => index === 0 ? [pick, current[1]] : [current[0], pick]);
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <LapPicker
+          label="Volta A (referência)"
+          color={COMPARISON_COLORS[0]}
+          pick={pickA}
+          sessions={sessions}
+          drivers={catalogA.drivers}
+          laps={resolvedA.laps}
+          lap={lapA}
+          progress={catalogA.progress}
+          onChange={(pick) => setPick(0, pick)}
+        />
+        <LapPicker
+          label="Volta B"
+          color={COMPARISON_COLORS[1]}
+          pick={pickB}
+          sessions={comparableSessions}
+          drivers={catalogB.drivers}
+          laps={resolvedB.laps}
+          lap={lapB}
+          progress={catalogB.progress}
+          onChange={(pick) => setPick(1, pick)}
+        />
+      </div>
+
+      {/* Reprodução e delta */}
+      <div className="bg-gray-800 p-4 rounded-lg flex flex-wrap items-center gap-4">
+        <button
+          onClick={() => {
+            if (elapsed >= duration) setElapsed(0);
+            setIsPlaying(!isPlaying);
+          }}
+          className="p-2 rounded bg-gray-700 hover:bg-gray-600"
+          disabled={duration === 0}
+        >
+          {isPlaying ? '⏸️' : '▶️'}
+        </button>
+        <select
+          value={speed}
+          onChange={(e) => setSpeed(Number(e.target.value))}
+          className="bg-gray-700 p-2 rounded"
+        >
+          {COMPARISON_SPEEDS.map(s => (
+            <option key={s} value={s}>{s}x</option>
+          ))}
+        </select>
+        <input
+          type="range"
+          min={0}
+          max={duration}
+          value={elapsed}
+          onChange={(e) => setElapsed(Number(e.target.value))}
+          className="flex-1 min-w-48"
+          disabled={duration === 0}
+        />
+        <span className="font-mono text-sm">{formatLapTime(elapsed)}</span>
+        <div className="text-right">
+          <div className="text-xs text-gray-400">Delta B − A</div>
+          <div
+            className={`font-mono text-2xl font-bold ${
+              currentDelta === null ? 'text-gray-400' : currentDelta > 0 ? 'text-red-400' : 'text-green-400'
+            }`}
+          >
+            {formatDelta(currentDelta)}
+          </div>
+        </div>
+      </div>
+
+      {/* Mapa com as duas voltas */}
+      <div className="bg-black rounded-lg overflow-hidden" style={{ height: '500px' }}>
+        {scene ? (
+          <CircuitMapSvg scene={scene} />
+        ) : (
+          <div className="flex items-center justify-center h-full text-gray-400">
+            Reconstruindo o traçado da pista…
+          </div>
+        )}
+      </div>
+
+      {/* Delta ao longo da volta */}
+      <div className="bg-gray-800 p-4 rounded-lg">
+        <h3 className="font-semibold mb-2">Delta ao longo da volta</h3>
+        <p className="text-xs text-gray-400 mb-2">Acima de zero, a volta B perde tempo para a A</p>
+        <div className="h-48">
+          <ResponsiveContainer width="100%" height="100%">
+            <LineChart data={deltaSeries} margin={{ top: 5, right: 5, left: 0, bottom: 5 }}>
+              <CartesianGrid strokeDasharray="3 3" stroke="#374151" />
+              <XAxis
+                dataKey="distance"
+                type="number"
+                domain={[0, 1]}
+                tickFormatter={(value: number) => `${Math.round(value * 100)}%`}
+                stroke="#9ca3af"
+                tick={{ fontSize: 9 }}
+              />
+              <YAxis stroke="#9ca3af" tick={{ fontSize: 9 }} tickFormatter={(value: number) => `${value.toFixed(1)}s`} />
+              <ReferenceLine y={0} stroke="#6b7280" />
+              {currentFraction !== null && <ReferenceLine x={currentFraction} stroke="#ffffff" strokeDasharray="4 4" />}
+              <Line type="monotone" dataKey="delta" stroke={COMPARISON_COLORS[1]} strokeWidth={1.5} dot={false} connectNulls isAnimationActive={false} />
+            </LineChart>
+          </ResponsiveContainer>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default LapComparison;
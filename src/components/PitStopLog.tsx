@@ -0,0 +1,88 @@
+import React, { useMemo } from 'react';
+import type { SessionDriver } from '../lib/database.types';
+import { useClockValue } from '../hooks/useSessionClock';
+import { getDriverLapAt, type LapDetection } from '../lib/laps';
+import { estimatePitLoss, getPitEventTimes, type PitDetection } from '../lib/pits';
+import { findLatestTime, formatClockTime } from '../lib/clock';
+
+type PitStopLogProps = {
+  pits: PitDetection;
+  lapDetection: LapDetection;
+  drivers: SessionDriver[];
+  onSeek: (time: number) => void;
+};
+
+const formatSeconds = (ms: number | null) => ms === null ? '—' : `${(ms / 1000).toFixed(1)}s`;
+
+// Paradas nos boxes até o instante do replay, por piloto; clicar leva à entrada na pit lane.
+// O relógio é acompanhado só nas entradas e saídas da pit lane.
+export const PitStopLog: React.FC<PitStopLogProps> = ({ pits, lapDetection, drivers, onSeek }) => {
+  const events = useMemo(() => getPitEventTimes(pits), [pits]);
+  const currentTime = useClockValue(time => findLatestTime(events, time));
+  const getDriver = (driverNumber: string) => drivers.find(d => d.driver_number === driverNumber);
+
+  const rows = Object.entries(pits.drivers)
+    .map(([driverNumber, state]) => ({
+      driverNumber,
+      stops: state.stops.filter(stop => currentTime !== null && stop.entry <= currentTime)
+    }))
+    .filter(row => row.stops.length > 0)
+    .sort((a, b) => Number(a.driverNumber) - Number(b.driverNumber));
+
+  return (
+    <div className="bg-gray-800 p-4 rounded-lg">
+      <h2 className="text-lg font-semibold mb-3">🔧 Pit stops</h2>
+
+      {rows.length === 0 ? (
+        <p className="text-gray-400 text-sm">Nenhuma passagem pelos boxes até aqui.</p>
+      ) : (
+        <div className="space-y-2 text-sm">
+          {rows.map(({ driverNumber, stops }) => {
+            const driver = getDriver(driverNumber);
+            return (
+              <div key={driverNumber} className="bg-gray-700 p-2 rounded">
+                <div className="flex items-center mb-1">
+                  <span className="w-1 h-4 mr-2" style={{ backgroundColor: driver?.team_color ?? '#ffffff' }} />
+                  <span className="font-semibold">#{driverNumber} {driver?.full_name ?? ''}</span>
+                </div>
+                <div className="grid grid-cols-[3rem_5rem_1fr_1fr_1fr] gap-2 text-xs text-gray-400 px-1">
+                  <span>Volta</span>
+                  <span>Entrada</span>
+                  <span className="text-right">Pit lane</span>
+                  <span className="text-right">Parado</span>
+                  <span className="text-right">Perda</span>
+                </div>
+                {stops.map(stop => {
+                  // Saída ainda não alcançada pelo replay
+                  const inPitLane = stop.exit === null || (currentTime !== null && stop.exit > currentTime);
+                  const lap = getDriverLapAt(lapDetection, driverNumber, stop.entry)?.lap;
+                  return (
+                    <button
+                      key={stop.entry}
+                      onClick={() => onSeek(stop.entry)}
+                      className="grid grid-cols-[3rem_5rem_1fr_1fr_1fr] gap-2 w-full text-left px-1 rounded hover:bg-gray-600 font-mono"
+                    >
+                      <span>{lap ?? '—'}</span>
+                      <span>{formatClockTime(stop.entry)}</span>
+                      {inPitLane ? (
+                        <span className="col-span-3 text-right text-yellow-400 font-sans">na pit lane</span>
+                      ) : (
+                        <>
+                          <span className="text-right">{formatSeconds(stop.exit! - stop.entry)}</span>
+                          <span className="text-right">{formatSeconds(stop.stationary)}</span>
+                          <span className="text-right">{formatSeconds(estimatePitLoss(stop, lapDetection, pits))}</span>
+                        </>
+                      )}
+                    </button>
+                  );
+                })}
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default PitStopLog;
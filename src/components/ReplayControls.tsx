@@ -0,0 +1,132 @@
+import React from 'react';
+import { useSessionClock, useSessionClockControls } from '../hooks/useSessionClock';
+import { formatClockTime } from '../lib/clock';
+import type { ClockRange } from '../contexts/SessionClockContext';
+
+const REPLAY_SPEEDS = [0.25, 0.5, 1, 2, 5, 10, 30, 60];
+
+type ReplayControlsProps = {
+  onPrevious?: () => void;
+  onNext?: () => void;
+  canPrevious?: boolean;
+  canNext?: boolean;
+};
+
+// Controles de replay ligados ao relógio de sessão compartilhado
+export const ReplayControls: React.FC<ReplayControlsProps> = ({
+  onPrevious,
+  onNext,
+  canPrevious = true,
+  canNext = true
+}) => {
+  const { isPlaying, togglePlay, replaySpeed, setReplaySpeed, range } = useSessionClockControls();
+
+  return (
+    <div className="flex items-center space-x-2">
+      {onPrevious && (
+        <button
+          onClick={onPrevious}
+          className="p-2 rounded bg-gray-700 hover:bg-gray-600"
+          disabled={!canPrevious}
+        >
+          ⏮️
+        </button>
+      )}
+
+      <button
+        onClick={togglePlay}
+        className="p-2 rounded bg-gray-700 hover:bg-gray-600"
+        disabled={!range}
+      >
+        {isPlaying ? '⏸️' : '▶️'}
+      </button>
+
+      {onNext && (
+        <button
+          onClick={onNext}
+          className="p-2 rounded bg-gray-700 hover:bg-gray-600"
+          disabled={!canNext}
+        >
+          ⏭️
+        </button>
+      )}
+
+      <select
+        value={replaySpeed}
+        onChange={(e) => setReplaySpeed(Number(e.target.value))}
+        className="bg-gray-700 p-2 rounded"
+      >
+        {REPLAY_SPEEDS.map(speed => (
+          <option key={speed} value={speed}>{speed}x</option>
+        ))}
+      </select>
+    </div>
+  );
+};
+
+// Evento marcado na linha do tempo (ex.: parada nos boxes)
+export type ProgressMarker = {
+  time: number;
+  color: string;
+  label: string;
+};
+
+type ReplayProgressBarProps = {
+  // Texto central; como função, recebe o instante do relógio
+  label?: React.ReactNode | ((time: number | null) => React.ReactNode);
+  // Trecho já carregado, para fontes que buscam os dados sob demanda
+  buffered?: ClockRange | null;
+  markers?: ProgressMarker[];
+};
+
+// Barra de progresso da linha do tempo; clicar posiciona o relógio
+export const ReplayProgressBar: React.FC<ReplayProgressBarProps> = ({ label, buffered, markers = [] }) => {
+  const { currentTime, range, seek } = useSessionClock();
+
+  const toPercent = (time: number) => range && range.end > range.start
+    ? Math.max(0, Math.min(100, ((time - range.start) / (range.end - range.start)) * 100))
+    : 0;
+  const progress = currentTime !== null ? toPercent(currentTime) : 0;
+
+  const handleSeek = (e: React.MouseEvent<HTMLDivElement>) => {
+    if (!range) return;
+    const rect = e.currentTarget.getBoundingClientRect();
+    const fraction = Math.max(0, Math.min(1, (e.clientX - rect.left) / rect.width));
+    seek(range.start + fraction * (range.end - range.start));
+  };
+
+  return (
+    <div>
+      <div className="flex items-center justify-between text-xs text-gray-400 mb-1">
+        <span>{formatClockTime(range?.start ?? null)}</span>
+        <span>{typeof label === 'function' ? label(currentTime) : label ?? formatClockTime(currentTime)}</span>
+        <span>{formatClockTime(range?.end ?? null)}</span>
+      </div>
+      <div
+        className="relative w-full bg-gray-700 h-2 rounded-full overflow-hidden cursor-pointer"
+        onClick={handleSeek}
+      >
+        {buffered && (
+          <div
+            className="absolute inset-y-0 bg-gray-500"
+            style={{ left: `${toPercent(buffered.start)}%`, width: `${toPercent(buffered.end) - toPercent(buffered.start)}%` }}
+          />
+        )}
+        <div
+          className="relative bg-blue-500 h-full"
+          style={{ width: `${progress}%` }}
+        />
+        {markers.map((marker, i) => (
+          <div
+            key={i}
+            className="absolute inset-y-0 w-1 -ml-0.5"
+            style={{ left: `${toPercent(marker.time)}%`, backgroundColor: marker.color }}
+            title={marker.label}
+          />
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default ReplayControls;
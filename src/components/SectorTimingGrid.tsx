@@ -0,0 +1,227 @@
+import React, { useMemo, useState } from 'react';
+import type { SessionDriver } from '../lib/database.types';
+import { useClockValue } from '../hooks/useSessionClock';
+import { findLatestTime } from '../lib/clock';
+import { formatLapTime, type LapDetection } from '../lib/laps';
+import { saveCircuitSectors, type CircuitDefinition } from '../lib/circuits';
+import {
+  buildSegmentTimes,
+  computeSectorGrid,
+  formatSectorTime,
+  miniSectorStarts,
+  sectorStarts,
+  segmentEnds,
+  type SectorStatus
+} from '../lib/sectors';
+
+// Opções de minissetores (0 = desligado)
+const MINI_SECTOR_OPTIONS = [0, 8, 16, 24];
+
+const STATUS_TEXT: Record<SectorStatus, string> = {
+  overall: 'text-purple-400',
+  personal: 'text-green-400',
+  none: 'text-yellow-400'
+};
+
+const STATUS_BLOCK: Record<SectorStatus, string> = {
+  overall: 'bg-purple-500',
+  personal: 'bg-green-500',
+  none: 'bg-yellow-500'
+};
+
+type SectorTimingGridProps = {
+  lapDetection: LapDetection;
+  circuit: CircuitDefinition | null;
+  // Fim de cada setor, exceto o último, em fração da volta
+  sectors: number[];
+  drivers: SessionDriver[];
+  // Ordem das linhas (classificação atual); pilotos fora dela vêm depois
+  order: string[];
+  selectedDrivers: string[];
+  onToggleDriver: (driverNumber: string) => void;
+};
+
+// Grade de setores e minissetores no instante do replay. O relógio é acompanhado só nos
+// instantes em que algum trecho termina, não a cada quadro.
+export const SectorTimingGrid: React.FC<SectorTimingGridProps> = ({
+  lapDetection,
+  circuit,
+  sectors,
+  drivers,
+  order,
+  selectedDrivers,
+  onToggleDriver
+}) => {
+  const [miniSectorCount, setMiniSectorCount] = useState(0);
+  const [isEditing, setIsEditing] = useState(false);
+  const [draft, setDraft] = useState<string[]>([]);
+  const [error, setError] = useState<string | null>(null);
+
+  const starts = useMemo(() => sectorStarts(sectors), [sectors]);
+  const sectorTimes = useMemo(() => buildSegmentTimes(lapDetection, starts), [lapDetection, starts]);
+  const miniTimes = useMemo(
+    () => miniSectorCount > 0 ? buildSegmentTimes(lapDetection, miniSectorStarts(miniSectorCount)) : {},
+    [lapDetection, miniSectorCount]
+  );
+  const ends = useMemo(() => segmentEnds(sectorTimes, miniTimes), [sectorTimes, miniTimes]);
+  const currentTime = useClockValue(time => findLatestTime(ends, time));
+
+  const grid = useMemo(() => computeSectorGrid(sectorTimes, starts.length, currentTime), [sectorTimes, starts, currentTime]);
+  const miniGrid = useMemo(
+    () => computeSectorGrid(miniTimes, miniSectorCount, currentTime),
+    [miniTimes, miniSectorCount, currentTime]
+  );
+
+  const rows = [
+    ...order,
+    ...drivers.map(driver => driver.driver_number).filter(driverNumber => !order.includes(driverNumber))
+  ];
+  const getDriver = (driverNumber: string) => drivers.find(d => d.driver_number === driverNumber);
+  const idealLap = grid.best.every(time => time !== null)
+    ? grid.best.reduce<number>((sum, time) => sum + time!, 0)
+    : null;
+
+  const startEditing = () => {
+    setDraft(sectors.map(boundary => (boundary * 100).toFixed(1)));
+    setError(null);
+    setIsEditing(true);
+  };
+
+  const handleSave = () => {
+    if (!circuit) return;
+    try {
+      saveCircuitSectors(circuit, draft.map(value => Number(value) / 100));
+      setIsEditing(false);
+    } catch (saveError) {
+      setError(saveError instanceof Error ? saveError.message : String(saveError));
+    }
+  };
+
+  const handleRestore = () => {
+    if (!circuit) return;
+    saveCircuitSectors(circuit, null);
+    setIsEditing(false);
+  };
+
+  const columns = `2.5rem repeat(${starts.length}, 4.5rem) 1fr`;
+
+  return (
+    <div className="bg-gray-800 p-4 rounded-lg">
+      <div className="flex flex-wrap items-center justify-between gap-2 mb-3">
+        <h2 className="text-lg font-semibold">⏱️ Setores</h2>
+        <div className="flex items-center gap-2 text-sm">
+          <label className="flex items-center gap-1">
+            Minissetores
+            <select
+              value={miniSectorCount}
+              onChange={(e) => setMiniSectorCount(Number(e.target.value))}
+              className="bg-gray-700 p-1 rounded"
+            >
+              {MINI_SECTOR_OPTIONS.map(count => (
+                <option key={count} value={count}>{count === 0 ? 'Desligados' : count}</option>
+              ))}
+            </select>
+          </label>
+          {circuit && (
+            <button
+              onClick={() => isEditing ? setIsEditing(false) : startEditing()}
+              className="px-2 py-1 bg-gray-700 hover:bg-gray-600 rounded"
+              title={`Limites de setor de ${circuit.name}`}
+            >
+              ⚙️
+            </button>
+          )}
+        </div>
+      </div>
+
+      {isEditing && circuit && (
+        <div className="bg-gray-700 p-3 rounded mb-3 text-sm space-y-2">
+          <p className="text-gray-400">Fim de cada setor, em % da volta a partir da linha de chegada:</p>
+          <div className="flex flex-wrap items-center gap-2">
+            {draft.map((value, i) => (
+              <label key={i} className="flex items-center gap-1">
+                S{i + 1}
+                <input
+                  type="number"
+                  min="0"
+                  max="100"
+                  step="0.1"
+                  value={value}
+                  onChange={(e) => setDraft(draft.map((v, j) => j === i ? e.target.value : v))}
+                  className="w-20 bg-gray-800 px-2 py-1 rounded"
+                />
+                %
+              </label>
+            ))}
+            <button onClick={handleSave} className="px-3 py-1 bg-blue-600 hover:bg-blue-500 rounded">Salvar</button>
+            <button onClick={handleRestore} className="px-3 py-1 bg-gray-600 hover:bg-gray-500 rounded">Restaurar registro</button>
+          </div>
+          {error && <p className="text-red-400">{error}</p>}
+        </div>
+      )}
+
+      <div className="grid gap-2 px-2 text-xs text-gray-400 mb-1" style={{ gridTemplateColumns: columns }}>
+        <span>#</span>
+        {starts.map((_, i) => <span key={i} className="text-right">S{i + 1}</span>)}
+        <span>{miniSectorCount > 0 ? 'Minissetores' : ''}</span>
+      </div>
+
+      <div className="space-y-1 text-sm">
+        {rows.map(driverNumber => {
+          const driver = getDriver(driverNumber);
+          const cells = grid.rows[driverNumber] ?? [];
+          const miniCells = miniGrid.rows[driverNumber] ?? [];
+          const ring = selectedDrivers.includes(driverNumber) ? 'ring-2 ring-blue-500' : '';
+
+          return (
+            <div
+              key={driverNumber}
+              onClick={() => onToggleDriver(driverNumber)}
+              className={`grid items-center gap-2 px-2 py-1 rounded cursor-pointer bg-gray-700 ${ring}`}
+              style={{ gridTemplateColumns: columns }}
+              title={driver?.full_name}
+            >
+              <span className="flex items-center">
+                <span className="w-1 h-4 mr-2 flex-shrink-0" style={{ backgroundColor: driver?.team_color ?? '#ffffff' }} />
+                {driverNumber}
+              </span>
+              {starts.map((_, i) => {
+                const cell = cells[i];
+                return (
+                  <span key={i} className={`text-right font-mono ${cell ? STATUS_TEXT[cell.status] : 'text-gray-500'}`}>
+                    {formatSectorTime(cell?.time ?? null)}
+                  </span>
+                );
+              })}
+              <span className="flex gap-px">
+                {miniSectorCount > 0 && Array.from({ length: miniSectorCount }, (_, i) => {
+                  const cell = miniCells[i];
+                  return (
+                    <span
+                      key={i}
+                      className={`h-3 flex-1 ${cell ? STATUS_BLOCK[cell.status] : 'bg-gray-600'}`}
+                      title={cell ? `Minissetor ${i + 1} • volta ${cell.lap} • ${formatSectorTime(cell.time)}` : undefined}
+                    />
+                  );
+                })}
+              </span>
+            </div>
+          );
+        })}
+
+        {/* Melhores da sessão e volta ideal */}
+        <div className="grid items-center gap-2 px-2 py-1 border-t border-gray-700 text-purple-400" style={{ gridTemplateColumns: columns }}>
+          <span className="text-gray-400 text-xs">Melhor</span>
+          {grid.best.map((time, i) => (
+            <span key={i} className="text-right font-mono">{formatSectorTime(time)}</span>
+          ))}
+          <span className="text-gray-400 text-xs">
+            Volta ideal: <span className="font-mono text-purple-400">{formatLapTime(idealLap)}</span>
+          </span>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SectorTimingGrid;
@@ -0,0 +1,131 @@
+import React, { useState, useEffect, useMemo, useCallback, useRef } from 'react';
+import {
+  SessionClockContext,
+  SessionClockControlsContext,
+  type ClockRange,
+  type SessionClock,
+  type SessionClockControls
+} from '../contexts/SessionClockContext';
+
+export const SessionClockProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const [ranges, setRanges] = useState<Record<string, ClockRange>>({});
+  const [currentTime, setCurrentTime] = useState<number | null>(null);
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [replaySpeed, setReplaySpeed] = useState(1);
+
+  // Linha do tempo = união dos intervalos de todos os componentes montados
+  const range = useMemo<ClockRange | null>(() => {
+    const values = Object.values(ranges);
+    if (values.length === 0) return null;
+    return {
+      start: Math.min(...values.map(r => r.start)),
+      end: Math.max(...values.map(r => r.end))
+    };
+  }, [ranges]);
+
+  const rangeRef = useRef(range);
+  rangeRef.current = range;
+  // Instante usado pelo motor de replay entre um render e outro (seek atualiza na hora)
+  const timeRef = useRef(currentTime);
+  timeRef.current = currentTime;
+  // Assinantes do instante, avisados a cada mudança sem esperar o render
+  const listeners = useRef(new Set<() => void>());
+
+  const updateTime = useCallback((time: number) => {
+    timeRef.current = time;
+    setCurrentTime(time);
+    listeners.current.forEach(listener => listener());
+  }, []);
+
+  const getTime = useCallback(() => timeRef.current, []);
+  const subscribe = useCallback((listener: () => void) => {
+    listeners.current.add(listener);
+    return () => {
+      listeners.current.delete(listener);
+    };
+  }, []);
+
+  const registerRange = useCallback((id: string, newRange: ClockRange | null) => {
+    setRanges(current => {
+      const existing = current[id];
+      if (newRange && existing && existing.start === newRange.start && existing.end === newRange.end) {
+        return current;
+      }
+      if (!newRange && !existing) return current;
+
+      const updated = { ...current };
+      if (newRange) {
+        updated[id] = newRange;
+      } else {
+        delete updated[id];
+      }
+      return updated;
+    });
+  }, []);
+
+  // Mantém o instante atual dentro da linha do tempo quando ela muda
+  useEffect(() => {
+    if (!range) return;
+    const current = timeRef.current;
+    if (current === null || current < range.start || current > range.end) updateTime(range.start);
+  }, [range, updateTime]);
+
+  // Motor único de replay: a cada quadro avança o relógio pelo tempo real decorrido
+  // multiplicado pela velocidade (1x = tempo real), independente da taxa de amostragem
+  useEffect(() => {
+    if (!isPlaying) return;
+
+    let lastTick = performance.now();
+    let frame = requestAnimationFrame(function tick(now) {
+      const elapsed = Math.max(0, now - lastTick) * replaySpeed;
+      lastTick = now;
+      frame = requestAnimationFrame(tick);
+
+      const bounds = rangeRef.current;
+      const current = timeRef.current;
+      if (current === null || !bounds) return;
+
+      const next = Math.min(bounds.end, current + elapsed);
+      updateTime(next);
+      // Fim da linha do tempo: o replay para
+      if (next >= bounds.end) setIsPlaying(false);
+    });
+
+    return () => cancelAnimationFrame(frame);
+  }, [isPlaying, replaySpeed, updateTime]);
+
+  const seek = useCallback((time: number) => {
+    const bounds = rangeRef.current;
+    updateTime(bounds ? Math.max(bounds.start, Math.min(bounds.end, time)) : time);
+  }, [updateTime]);
+
+  const play = useCallback(() => setIsPlaying(true), []);
+  const pause = useCallback(() => setIsPlaying(false), []);
+  const togglePlay = useCallback(() => setIsPlaying(playing => !playing), []);
+
+  const controls = useMemo<SessionClockControls>(() => ({
+    isPlaying,
+    replaySpeed,
+    range,
+    play,
+    pause,
+    togglePlay,
+    seek,
+    setReplaySpeed,
+    registerRange,
+    getTime,
+    subscribe
+  }), [isPlaying, replaySpeed, range, play, pause, togglePlay, seek, registerRange, getTime, subscribe]);
+
+  const clock = useMemo<SessionClock>(() => ({ ...controls, currentTime }), [controls, currentTime]);
+
+  return (
+    <SessionClockControlsContext.Provider value={controls}>
+      <SessionClockContext.Provider value={clock}>
+        {children}
+      </SessionClockContext.Provider>
+    </SessionClockControlsContext.Provider>
+  );
+};
+
+export default SessionClockProvider;
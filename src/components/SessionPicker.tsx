@@ -0,0 +1,138 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import type { SessionStreamTable } from '../lib/database.types';
+import { getSessionIds, SESSION_STREAMS } from '../lib/repository';
+import {
+  STREAM_LABELS,
+  formatSessionStart,
+  getSessionLabel,
+  matchesSessionSearch
+} from '../lib/sessions';
+import { useSelectedSession } from '../hooks/useRoute';
+import { useSessionCatalog, useStreamAvailability } from '../hooks/useSessionCatalog';
+
+type SessionPickerProps = {
+  // Fluxo principal do dashboard: sem sessão na URL, escolhe a mais recente que o tenha
+  stream?: Exclude<SessionStreamTable, 'car_positions'>;
+};
+
+// Seletor de sessão compartilhado pelos dashboards (a sessão fica na URL)
+export const SessionPicker: React.FC<SessionPickerProps> = ({ stream }) => {
+  const [selectedSession, setSelectedSession] = useSelectedSession();
+  const { sessions, isLoading, error } = useSessionCatalog();
+  const availability = useStreamAvailability(selectedSession);
+  const [isOpen, setIsOpen] = useState(false);
+  const [search, setSearch] = useState('');
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  const current = sessions.find(session => session.id === selectedSession);
+  const filteredSessions = useMemo(
+    () => sessions.filter(session => matchesSessionSearch(session, search)),
+    [sessions, search]
+  );
+
+  // Seleção inicial quando a URL não traz sessão
+  useEffect(() => {
+    if (selectedSession !== null || sessions.length === 0) return;
+
+    if (!stream) {
+      setSelectedSession(sessions[0].id, { replace: true });
+      return;
+    }
+
+    getSessionIds(stream)
+      .then(ids => setSelectedSession(ids[0] ?? sessions[0].id, { replace: true }))
+      .catch(error => console.error('Erro ao buscar sessões:', error));
+  }, [selectedSession, sessions, stream, setSelectedSession]);
+
+  // Fecha a lista ao clicar fora
+  useEffect(() => {
+    if (!isOpen) return;
+
+    const handleMouseDown = (e: MouseEvent) => {
+      if (!containerRef.current?.contains(e.target as Node)) {
+        setIsOpen(false);
+      }
+    };
+
+    document.addEventListener('mousedown', handleMouseDown);
+    return () => document.removeEventListener('mousedown', handleMouseDown);
+  }, [isOpen]);
+
+  const handleSelect = (sessionId: number) => {
+    setSelectedSession(sessionId);
+    setIsOpen(false);
+    setSearch('');
+  };
+
+  return (
+    <div ref={containerRef} className="relative">
+      <label className="block text-sm text-gray-400 mb-1">Sessão</label>
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="bg-gray-800 text-white px-4 py-2 rounded w-full md:w-72 text-left truncate"
+      >
+        {current ? getSessionLabel(current) : selectedSession ? `Sessão #${selectedSession}` : 'Selecione...'}
+      </button>
+
+      {isOpen && (
+        <div className="absolute z-20 right-0 mt-1 w-80 bg-gray-800 border border-gray-700 rounded shadow-lg">
+          <input
+            autoFocus
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === 'Escape') setIsOpen(false);
+              if (e.key === 'Enter' && filteredSessions.length > 0) handleSelect(filteredSessions[0].id);
+            }}
+            placeholder="Buscar ano, GP, circuito, tipo..."
+            className="w-full bg-gray-700 text-white px-3 py-2 rounded-t outline-none"
+          />
+          <ul className="max-h-80 overflow-y-auto divide-y divide-gray-700">
+            {filteredSessions.map(session => (
+              <li key={session.id}>
+                <button
+                  onClick={() => handleSelect(session.id)}
+                  className={`w-full text-left px-3 py-2 hover:bg-gray-700 ${session.id === selectedSession ? 'bg-blue-900' : ''}`}
+                >
+                  <div className="font-medium">{getSessionLabel(session)}</div>
+                  <div className="text-xs text-gray-400">
+                    {[session.circuit_name, formatSessionStart(session), `#${session.id}`].filter(Boolean).join(' • ')}
+                  </div>
+                </button>
+              </li>
+            ))}
+
+            {filteredSessions.length === 0 && (
+              <li className="px-3 py-4 text-sm text-center text-gray-400">
+                {isLoading ? 'Carregando sessões...' : 'Nenhuma sessão encontrada.'}
+              </li>
+            )}
+          </ul>
+        </div>
+      )}
+
+      {error && <p className="text-red-500 text-sm mt-1 md:w-72">{error}</p>}
+
+      {/* Fluxos de dados disponíveis para a sessão */}
+      <div className="flex gap-1 mt-1">
+        {SESSION_STREAMS.map(table => (
+          <span
+            key={table}
+            title={availability?.[table] ? 'Dados disponíveis' : 'Sem dados nesta sessão'}
+            className={`text-xs px-2 py-0.5 rounded ${
+              availability === null
+                ? 'bg-gray-800 text-gray-500'
+                : availability[table]
+                  ? 'bg-green-900 text-green-300'
+                  : 'bg-gray-800 text-gray-500 line-through'
+            }`}
+          >
+            {STREAM_LABELS[table]}
+          </span>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default SessionPicker;
@@ -1,81 +1,68 @@
-import React, { useState, useEffect, useRef } from 'react';
-import { supabase } from '../lib/supabase';
-
-export type TeamRadioMessage = {
-  id: number;
-  session_id: number;
-  timestamp: string;
-  utc_time: string | null;
-  driver_number: string;
-  audio_path: string;
-  transcript?: string | null;
-  transcript_status?: 'pending' | 'completed' | 'error' | null;
-  created_at: string;
-  updated_at: string;
-};
-
-type DriverInfo = {
-  session_id: number;
-  driver_number: string;
-  full_name: string;
-  broadcast_name: string;
-  tle: string;
-  team_name: string;
-  team_color: string;
-  initial_position: number;
-};
+import React, { useState, useEffect, useMemo, useRef } from 'react';
+import { getTeamRadioMessages, getSessionDrivers, invalidateSession, subscribeToSession, transcribeTeamRadio } from '../lib/repository';
+import type { TeamRadioMessage, SessionDriver } from '../lib/database.types';
+import { useSessionClock, useClockRange } from '../hooks/useSessionClock';
+import { useSelectedDrivers, useSelectedSession } from '../hooks/useRoute';
+import { findLatestIndex, getRowsRange, toMillis } from '../lib/clock';
+import { ReplayControls, ReplayProgressBar } from './ReplayControls';
+import { SessionPicker } from './SessionPicker';
+import { DriverFilterBar } from './DriverFilterBar';
 
 export const TeamRadioDashboard: React.FC = () => {
   // States
-  const [selectedSession, setSelectedSession] = useState<number | null>(null);
-  const [sessions, setSessions] = useState<number[]>([]);
-  const [periodFilter, setPeriodFilter] = useState<'atual' | 'historico'>('atual');
-  const [teamRadioMessages, setTeamRadioMessages] = useState<TeamRadioMessage[]>([]);
-  const [driverInfo, setDriverInfo] = useState<DriverInfo[]>([]);
-  const [currentMessage, setCurrentMessage] = useState<TeamRadioMessage | null>(null);
+  const [selectedSession] = useSelectedSession();
+  const [periodFilter, setPeriodFilter] = useState<'atual' | 'historico'>('historico');
+  const [driverInfo, setDriverInfo] = useState<SessionDriver[]>([]);
   const [isAudioPlaying, setIsAudioPlaying] = useState(false);
   const [isTranscribing, setIsTranscribing] = useState(false);
   const [transcriptionError, setTranscriptionError] = useState<string | null>(null);
   const audioRef = useRef<HTMLAudioElement | null>(null);
   
-  // Replay functionality
   const [rows, setRows] = useState<TeamRadioMessage[]>([]);
-  const [currentIndex, setCurrentIndex] = useState(0);
-  const [isPlaying, setIsPlaying] = useState(false);
-  const [replaySpeed, setReplaySpeed] = useState(1);
+  // Mensagem escolhida manualmente no modo 'atual' (null = mais recente)
+  const [selectedMessageId, setSelectedMessageId] = useState<number | null>(null);
 
-  // Fetch available sessions
-  useEffect(() => {
-    const fetchSessions = async () => {
-      const { data, error } = await supabase
-        .from('team_radio')
-        .select('session_id')
-        .order('session_id', { ascending: false });
-      
-      if (data && !error) {
-        const uniqueSessions = [...new Set(data.map(item => item.session_id))];
-        setSessions(uniqueSessions);
-        if (uniqueSessions.length > 0 && !selectedSession) {
-          setSelectedSession(uniqueSessions[0]);
-        }
-      }
-    };
+  // Replay sincronizado pelo relógio de sessão compartilhado
+  const { currentTime, seek } = useSessionClock();
+  const rowsRange = useMemo(() => getRowsRange(rows), [rows]);
+  useClockRange(rowsRange?.start ?? null, rowsRange?.end ?? null);
 
-    fetchSessions();
-  }, [selectedSession]);
+  // Pilotos selecionados nos outros painéis filtram as comunicações; vazio = todos
+  const [selectedDrivers] = useSelectedDrivers();
+  const visibleRows = useMemo(
+    () => selectedDrivers.length === 0 ? rows : rows.filter(row => selectedDrivers.includes(row.driver_number)),
+    [rows, selectedDrivers]
+  );
+
+  const currentIndex = periodFilter === 'atual'
+    ? visibleRows.length - 1
+    : findLatestIndex(visibleRows, currentTime);
+
+  const currentMessage = periodFilter === 'atual'
+    ? visibleRows.find(row => row.id === selectedMessageId) ?? visibleRows[visibleRows.length - 1] ?? null
+    : visibleRows[currentIndex] ?? null;
+
+  const teamRadioMessages = useMemo(() => {
+    if (periodFilter === 'atual') {
+      return visibleRows.slice(-10).reverse(); // Show last 10 messages
+    }
+    // Nada antes da primeira mensagem da sessão
+    if (currentIndex < 0) return [];
+    // Show a window of messages around the current index
+    const startIdx = Math.max(0, currentIndex - 5);
+    const endIdx = Math.min(visibleRows.length, currentIndex + 5);
+    return visibleRows.slice(startIdx, endIdx);
+  }, [periodFilter, visibleRows, currentIndex]);
 
   // Fetch driver info for selected session
   useEffect(() => {
     if (!selectedSession) return;
 
     const fetchDriverInfo = async () => {
-      const { data, error } = await supabase
-        .from('session_drivers')
-        .select('*')
-        .eq('session_id', selectedSession);
-      
-      if (data && !error) {
-        setDriverInfo(data);
+      try {
+        setDriverInfo(await getSessionDrivers(selectedSession));
+      } catch (error) {
+        console.error('Erro ao buscar pilotos:', error);
       }
     };
 
@@ -86,143 +73,55 @@ export const TeamRadioDashboard: React.FC = () => {
   useEffect(() => {
     if (!selectedSession) return;
 
-    // Reset current index when changing sessions
-    setCurrentIndex(0);
-    setIsPlaying(false);
+    setSelectedMessageId(null);
 
     const fetchTeamRadioMessages = async () => {
-      const { data, error } = await supabase
-        .from('team_radio')
-        .select('*')
-        .eq('session_id', selectedSession)
-        .order('timestamp', { ascending: true });
-      
-      if (data && !error) {
-        setRows(data);
-        
-        // For the current view when in 'atual' mode
-        if (periodFilter === 'atual' && data.length > 0) {
-          setCurrentMessage(data[data.length - 1]);
-          setTeamRadioMessages(data.slice(-10).reverse()); // Show last 10 messages
-        } else if (data.length > 0) {
-          setCurrentMessage(data[0]); // Initially show the first message in historical mode
-          setTeamRadioMessages(data.slice(0, 10)); // Show first 10 messages
-        }
+      try {
+        setRows(await getTeamRadioMessages(selectedSession));
+      } catch (error) {
+        console.error('Erro ao buscar comunicações de rádio:', error);
       }
     };
 
     fetchTeamRadioMessages();
 
     // Realtime subscription
-    const channel = supabase
-      .channel('public:team_radio')
-      .on(
-        'postgres_changes',
-        { 
-          schema: 'public', 
-          table: 'team_radio', 
-          event: '*',
-          filter: `session_id=eq.${selectedSession}`
-        },
-        ({ eventType, new: newRow, old: oldRow }) => {
-          if (eventType === 'INSERT' || eventType === 'UPDATE') {
-            const typedNewRow = newRow as TeamRadioMessage;
-            
-            // Update rows array
-            setRows(current => {
-              const updatedRows = [...current];
-              const existingIndex = updatedRows.findIndex(r => r.id === typedNewRow.id);
-              
-              if (existingIndex >= 0) {
-                updatedRows[existingIndex] = typedNewRow;
-              } else {
-                updatedRows.push(typedNewRow);
-                // Sort by timestamp
-                updatedRows.sort((a, b) => 
-                  new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime()
-                );
-              }
-              
-              return updatedRows;
-            });
-            
-            // Update current message if in atual mode and it's the latest message
-            if (periodFilter === 'atual') {
-              setCurrentMessage(typedNewRow);
-              
-              // Update team radio messages list
-              setTeamRadioMessages(current => {
-                const newMessages = [typedNewRow, ...current.slice(0, 9)];
-                return newMessages;
-              });
-            }
-          } else if (eventType === 'DELETE') {
-            const typedOldRow = oldRow as TeamRadioMessage;
-            
-            // Remove from rows array
-            setRows(current => current.filter(r => r.id !== typedOldRow.id));
-            
-            // Remove from team radio messages list
-            setTeamRadioMessages(current => 
-              current.filter(item => item.id !== typedOldRow.id)
-            );
-          }
-        }
-      )
-      .subscribe();
-
-    return () => { supabase.removeChannel(channel); };
-  }, [selectedSession, periodFilter]);
-
-  // Effect for replay functionality
-  useEffect(() => {
-    if (isPlaying && rows.length > 0) {
-      const interval = setInterval(() => {
-        setCurrentIndex(prevIndex => {
-          const nextIndex = prevIndex + 1;
-          if (nextIndex >= rows.length) {
-            setIsPlaying(false);
-            return prevIndex;
-          }
-          
-          // Update the current message with the current point during replay
-          setCurrentMessage(rows[nextIndex]);
+    const unsubscribe = subscribeToSession('team_radio', selectedSession, ({ eventType, new: newRow, old: oldRow }) => {
+      if (eventType === 'INSERT' || eventType === 'UPDATE') {
+        const typedNewRow = newRow as TeamRadioMessage;
+        
+        // Update rows array
+        setRows(current => {
+          const updatedRows = [...current];
+          const existingIndex = updatedRows.findIndex(r => r.id === typedNewRow.id);
           
-          // Update team radio messages list for historical mode
-          if (periodFilter === 'historico') {
-            // Show a window of messages around the current index
-            const startIdx = Math.max(0, nextIndex - 5);
-            const endIdx = Math.min(rows.length, nextIndex + 5);
-            setTeamRadioMessages(rows.slice(startIdx, endIdx));
+          if (existingIndex >= 0) {
+            updatedRows[existingIndex] = typedNewRow;
+          } else {
+            updatedRows.push(typedNewRow);
+            // Sort by timestamp
+            updatedRows.sort((a, b) => 
+              new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime()
+            );
           }
           
-          return nextIndex;
+          return updatedRows;
         });
-      }, 2000 / replaySpeed); // Slower replay to give time to listen to messages
-
-      return () => clearInterval(interval);
-    }
-  }, [isPlaying, rows, replaySpeed, periodFilter]);
+        
+        // New messages take over the current view in atual mode
+        if (eventType === 'INSERT') {
+          setSelectedMessageId(null);
+        }
+      } else if (eventType === 'DELETE') {
+        const typedOldRow = oldRow as TeamRadioMessage;
+        
+        // Remove from rows array
+        setRows(current => current.filter(r => r.id !== typedOldRow.id));
+      }
+    });
 
-  // Effect for handling period filter changes
-  useEffect(() => {
-    if (rows.length === 0) return;
-    
-    if (periodFilter === 'atual') {
-      // In atual mode, show the latest message
-      setCurrentMessage(rows[rows.length - 1]);
-      setTeamRadioMessages(rows.slice(-10).reverse()); // Show last 10 messages
-      setCurrentIndex(rows.length - 1);
-    } else {
-      // In historico mode, start from the beginning for replay
-      setCurrentMessage(rows[currentIndex]);
-      
-      // Show a window of messages around the current index
-      const startIdx = Math.max(0, currentIndex - 5);
-      const endIdx = Math.min(rows.length, currentIndex + 5);
-      setTeamRadioMessages(rows.slice(startIdx, endIdx));
-    }
-  }, [periodFilter, rows, currentIndex]);
+    return unsubscribe;
+  }, [selectedSession]);
 
   // Request transcription for audio message
   const requestTranscription = async (messageId: number) => {
@@ -234,27 +133,11 @@ export const TeamRadioDashboard: React.FC = () => {
     try {
       // Chamar a função Edge do Supabase para transcrição
       // Explicitamente enviar 'en' para áudios em inglês, ou null para auto-detecção
-      const { data, error } = await supabase.functions.invoke('transcribe-audio', {
-        body: { 
-          messageId,
-          language: 'en'  // Definido como inglês para F1
-        }
-      });
-      
-      if (error) throw new Error(error.message);
+      const data = await transcribeTeamRadio(messageId, 'en'); // Definido como inglês para F1
       
-      // Atualizar o currentMessage com a transcrição
-      setCurrentMessage(prev => {
-        if (!prev) return null;
-        return {
-          ...prev,
-          transcript: data.transcript,
-          transcript_status: 'completed'
-        };
-      });
-      
-      // Atualizar também na lista de mensagens
-      setTeamRadioMessages(prev => 
+      // Atualizar a mensagem com a transcrição
+      invalidateSession('team_radio', currentMessage.session_id);
+      setRows(prev => 
         prev.map(msg => 
           msg.id === messageId 
             ? { ...msg, transcript: data.transcript, transcript_status: 'completed' } 
@@ -328,9 +211,15 @@ export const TeamRadioDashboard: React.FC = () => {
 
   if (!currentMessage && rows.length === 0) {
     return (
-      <div className="flex items-center justify-center h-screen">
-        <div className="animate-spin rounded-full h-12 w-12 border-t-2 border-b-2 border-blue-500"></div>
-        <span className="ml-3 text-xl">Carregando comunicações de rádio...</span>
+      <div className="flex flex-col items-center justify-center h-screen">
+        <div className="flex items-center">
+          <div className="animate-spin rounded-full h-12 w-12 border-t-2 border-b-2 border-blue-500"></div>
+          <span className="ml-3 text-xl">Carregando comunicações de rádio...</span>
+        </div>
+        {/* Permite trocar de sessão quando a atual não tem dados deste fluxo */}
+        <div className="mt-6">
+          <SessionPicker stream="team_radio" />
+        </div>
       </div>
     );
   }
@@ -348,18 +237,7 @@ export const TeamRadioDashboard: React.FC = () => {
           </div>
           
           <div className="flex flex-col md:flex-row items-end space-y-2 md:space-y-0 md:space-x-8 mt-4 md:mt-0">
-            <div>
-              <label className="block text-sm text-gray-400 mb-1">Sessão</label>
-              <select 
-                value={selectedSession || ''}
-                onChange={(e) => setSelectedSession(Number(e.target.value))}
-                className="bg-gray-800 text-white px-4 py-2 rounded w-full md:w-auto"
-              >
-                {sessions.map(session => (
-                  <option key={session} value={session}>Sessão #{session}</option>
-                ))}
-              </select>
-            </div>
+            <SessionPicker stream="team_radio" />
             
             <div>
               <label className="block text-sm text-gray-400 mb-1">Período</label>
@@ -383,64 +261,19 @@ export const TeamRadioDashboard: React.FC = () => {
             {periodFilter === 'historico' && (
               <div>
                 <label className="block text-sm text-gray-400 mb-1">Replay</label>
-                <div className="flex items-center space-x-2">
-                  <button 
-                    onClick={() => {
-                      const prevIndex = Math.max(0, currentIndex - 1);
-                      setCurrentIndex(prevIndex);
-                      setCurrentMessage(rows[prevIndex]);
-                      
-                      // Update team radio messages list for historical mode
-                      const startIdx = Math.max(0, prevIndex - 5);
-                      const endIdx = Math.min(rows.length, prevIndex + 5);
-                      setTeamRadioMessages(rows.slice(startIdx, endIdx));
-                    }}
-                    className="p-2 rounded bg-gray-700 hover:bg-gray-600"
-                    disabled={currentIndex === 0}
-                  >
-                    ⏮️
-                  </button>
-                  
-                  <button 
-                    onClick={() => setIsPlaying(!isPlaying)}
-                    className="p-2 rounded bg-gray-700 hover:bg-gray-600"
-                  >
-                    {isPlaying ? '⏸️' : '▶️'}
-                  </button>
-                  
-                  <button 
-                    onClick={() => {
-                      const nextIndex = Math.min(rows.length - 1, currentIndex + 1);
-                      setCurrentIndex(nextIndex);
-                      setCurrentMessage(rows[nextIndex]);
-                      
-                      // Update team radio messages list for historical mode
-                      const startIdx = Math.max(0, nextIndex - 5);
-                      const endIdx = Math.min(rows.length, nextIndex + 5);
-                      setTeamRadioMessages(rows.slice(startIdx, endIdx));
-                    }}
-                    className="p-2 rounded bg-gray-700 hover:bg-gray-600"
-                    disabled={currentIndex === rows.length - 1}
-                  >
-                    ⏭️
-                  </button>
-                  
-                  <select 
-                    value={replaySpeed}
-                    onChange={(e) => setReplaySpeed(Number(e.target.value))}
-                    className="bg-gray-700 p-2 rounded"
-                  >
-                    <option value={0.5}>0.5x</option>
-                    <option value={1}>1x</option>
-                    <option value={2}>2x</option>
-                    <option value={5}>5x</option>
-                  </select>
-                </div>
+                <ReplayControls
+                  onPrevious={() => seek(toMillis(visibleRows[Math.max(0, currentIndex - 1)].timestamp))}
+                  onNext={() => seek(toMillis(visibleRows[Math.min(visibleRows.length - 1, currentIndex + 1)].timestamp))}
+                  canPrevious={currentIndex > 0}
+                  canNext={currentIndex < visibleRows.length - 1}
+                />
               </div>
             )}
           </div>
         </div>
         
+        <DriverFilterBar drivers={driverInfo} />
+
         {/* Comunicação atual */}
         {currentMessage && (
           <div className="mb-6 bg-gray-800 rounded-lg p-6">
@@ -544,12 +377,10 @@ export const TeamRadioDashboard: React.FC = () => {
                 key={message.id} 
                 className={`p-4 hover:bg-gray-700 transition-colors ${message.id === currentMessage?.id ? 'bg-blue-900' : ''}`}
                 onClick={() => {
-                  setCurrentMessage(message);
                   if (periodFilter === 'historico') {
-                    const messageIndex = rows.findIndex(row => row.id === message.id);
-                    if (messageIndex !== -1) {
-                      setCurrentIndex(messageIndex);
-                    }
+                    seek(toMillis(message.timestamp));
+                  } else {
+                    setSelectedMessageId(message.id);
                   }
                 }}
               >
@@ -630,24 +461,12 @@ export const TeamRadioDashboard: React.FC = () => {
         </div>
         
         {/* Barra de progresso para modo histórico */}
-        {periodFilter === 'historico' && rows.length > 0 && (
+        {periodFilter === 'historico' && visibleRows.length > 0 && (
           <div className="mt-6 bg-gray-800 rounded-lg p-4">
-            <div className="flex items-center justify-between text-xs text-gray-400 mb-1">
-              <span>Início</span>
-              <span>Progresso</span>
-              <span>Fim</span>
-            </div>
-            <div className="w-full bg-gray-700 h-2 rounded-full overflow-hidden">
-              <div 
-                className="bg-blue-500 h-full"
-                style={{ 
-                  width: `${(currentIndex / (rows.length - 1)) * 100}%` 
-                }}
-              ></div>
-            </div>
+            <ReplayProgressBar />
             <div className="flex justify-center mt-2 text-sm">
               <span>
-                Mensagem {currentIndex + 1} de {rows.length}
+                Mensagem {currentIndex + 1} de {visibleRows.length}
               </span>
             </div>
           </div>
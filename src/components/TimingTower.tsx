@@ -0,0 +1,142 @@
+import React, { useEffect, useRef, useState } from 'react';
+import type { SessionDriver } from '../lib/database.types';
+import { formatLapTime, getDriverLapAt, type LapDetection } from '../lib/laps';
+import { formatGap, type TowerEntry } from '../lib/timing';
+
+// Tempo de destaque de uma troca de posição (relógio real)
+const CHANGE_HIGHLIGHT_MS = 3000;
+
+type TimingTowerProps = {
+  entries: TowerEntry[];
+  drivers: SessionDriver[];
+  lapDetection: LapDetection;
+  currentTime: number | null;
+  selectedDrivers: string[];
+  onToggleDriver: (driverNumber: string) => void;
+};
+
+// Torre de cronometragem: ordem por voltas + distância no instante do replay
+export const TimingTower: React.FC<TimingTowerProps> = ({
+  entries,
+  drivers,
+  lapDetection,
+  currentTime,
+  selectedDrivers,
+  onToggleDriver
+}) => {
+  const previousPositions = useRef<Record<string, number>>({});
+  const [changes, setChanges] = useState<Record<string, 'up' | 'down'>>({});
+  const timeouts = useRef<ReturnType<typeof setTimeout>[]>([]);
+
+  useEffect(() => {
+    const pending = timeouts.current;
+    return () => pending.forEach(clearTimeout);
+  }, []);
+
+  // Destaca pilotos que ganharam ou perderam posições desde a última atualização
+  useEffect(() => {
+    const detected: Record<string, 'up' | 'down'> = {};
+    entries.forEach(entry => {
+      const before = previousPositions.current[entry.driverNumber];
+      if (before !== undefined && before !== entry.position) {
+        detected[entry.driverNumber] = entry.position < before ? 'up' : 'down';
+      }
+    });
+    previousPositions.current = Object.fromEntries(entries.map(entry => [entry.driverNumber, entry.position]));
+    if (Object.keys(detected).length === 0) return;
+
+    setChanges(current => ({ ...current, ...detected }));
+    timeouts.current.push(setTimeout(() => {
+      timeouts.current.shift();
+      setChanges(current => {
+        const updated = { ...current };
+        // Mantém destaques mais recentes do mesmo piloto
+        Object.entries(detected).forEach(([driverNumber, direction]) => {
+          if (updated[driverNumber] === direction) delete updated[driverNumber];
+        });
+        return updated;
+      });
+    }, CHANGE_HIGHLIGHT_MS));
+  }, [entries]);
+
+  const getDriver = (driverNumber: string) => drivers.find(d => d.driver_number === driverNumber);
+  const ranked = new Set(entries.map(entry => entry.driverNumber));
+  const offTrack = drivers.filter(driver => !ranked.has(driver.driver_number));
+
+  const rowClass = (driverNumber: string) => {
+    const change = changes[driverNumber];
+    const highlight = change === 'up' ? 'bg-green-900' : change === 'down' ? 'bg-red-900' : 'bg-gray-700';
+    const ring = selectedDrivers.includes(driverNumber) ? 'ring-2 ring-blue-500' : '';
+    return `grid grid-cols-[2rem_1rem_1fr_3.5rem_5.5rem_5rem_5rem] items-center gap-2 px-2 py-1 rounded cursor-pointer transition-colors ${highlight} ${ring}`;
+  };
+
+  return (
+    <div className="bg-gray-800 p-4 rounded-lg">
+      <h2 className="text-lg font-semibold mb-3">🏁 Classificação ({entries.length} em pista)</h2>
+
+      <div className="grid grid-cols-[2rem_1rem_1fr_3.5rem_5.5rem_5rem_5rem] gap-2 px-2 text-xs text-gray-400 mb-1">
+        <span>P</span>
+        <span />
+        <span>Piloto</span>
+        <span className="text-right">Volta</span>
+        <span className="text-right">Última</span>
+        <span className="text-right">Intervalo</span>
+        <span className="text-right">Líder</span>
+      </div>
+
+      <div className="space-y-1 text-sm">
+        {entries.map(entry => {
+          const driver = getDriver(entry.driverNumber);
+          const laps = lapDetection.drivers[entry.driverNumber]?.laps ?? [];
+          const lastLap = entry.lap ? laps[entry.lap - 2] : undefined;
+          const change = changes[entry.driverNumber];
+
+          return (
+            <div key={entry.driverNumber} onClick={() => onToggleDriver(entry.driverNumber)} className={rowClass(entry.driverNumber)}>
+              <span className="font-bold">{entry.position}</span>
+              <span className={change === 'up' ? 'text-green-400' : 'text-red-400'}>
+                {change === 'up' ? '▲' : change === 'down' ? '▼' : ''}
+              </span>
+              <span className="flex items-center min-w-0">
+                <span className="w-1 h-4 mr-2 flex-shrink-0" style={{ backgroundColor: driver?.team_color ?? '#ffffff' }} />
+                <span className="truncate">
+                  #{entry.driverNumber} {driver?.full_name ?? ''}
+                </span>
+              </span>
+              <span className="text-right">{entry.lap ?? '—'}</span>
+              <span className="text-right font-mono">{formatLapTime(lastLap?.lapTime ?? null)}</span>
+              <span className="text-right font-mono">
+                {entry.position === 1 ? '' : formatGap(entry.interval, entry.intervalLaps)}
+              </span>
+              <span className="text-right font-mono">
+                {entry.position === 1 ? 'Líder' : formatGap(entry.gap, entry.lapsBehind)}
+              </span>
+            </div>
+          );
+        })}
+
+        {/* Pilotos sem posição no instante atual */}
+        {offTrack.map(driver => (
+          <div
+            key={driver.driver_number}
+            onClick={() => onToggleDriver(driver.driver_number)}
+            className={`${rowClass(driver.driver_number)} opacity-50`}
+          >
+            <span>—</span>
+            <span />
+            <span className="flex items-center min-w-0">
+              <span className="w-1 h-4 mr-2 flex-shrink-0" style={{ backgroundColor: driver.team_color }} />
+              <span className="truncate">#{driver.driver_number} {driver.full_name}</span>
+            </span>
+            <span className="text-right">{getDriverLapAt(lapDetection, driver.driver_number, currentTime)?.lap ?? '—'}</span>
+            <span />
+            <span />
+            <span />
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default TimingTower;
@@ -1,5 +1,11 @@
-import React, { useState, useEffect } from 'react';
-import { supabase } from '../lib/supabase';
+import React, { useState, useEffect, useMemo } from 'react';
+import { getWeatherData, subscribeToSession } from '../lib/repository';
+import type { WeatherData } from '../lib/database.types';
+import { useSessionClock, useClockRange } from '../hooks/useSessionClock';
+import { useSelectedSession } from '../hooks/useRoute';
+import { findLatestIndex, getRowsRange, toMillis } from '../lib/clock';
+import { ReplayControls, ReplayProgressBar } from './ReplayControls';
+import { SessionPicker } from './SessionPicker';
 import {
   LineChart,
   Line,
@@ -9,213 +15,78 @@ import {
   ResponsiveContainer
 } from 'recharts';
 
-export type WeatherData = {
-  id: number;
-  timestamp: string;
-  air_temp: number;
-  humidity: number;
-  pressure: number;
-  rainfall: number;
-  track_temp: number;
-  wind_speed: number;
-  wind_direction: number;
-  session_id: number;
-};
-
 export const WeatherDashboard: React.FC = () => {
-  const [selectedSession, setSelectedSession] = useState<number | null>(null);
-  const [sessions, setSessions] = useState<number[]>([]);
-  const [periodFilter, setPeriodFilter] = useState<'atual' | 'historico'>('atual');
-  const [weatherData, setWeatherData] = useState<WeatherData | null>(null);
-  const [temperatureHistory, setTemperatureHistory] = useState<{ time: string; ar: number; pista: number; timestamp: number }[]>([]);
-  
-  // Replay functionality
+  const [selectedSession] = useSelectedSession();
+  const [periodFilter, setPeriodFilter] = useState<'atual' | 'historico'>('historico');
   const [rows, setRows] = useState<WeatherData[]>([]);
-  const [currentIndex, setCurrentIndex] = useState(0);
-  const [isPlaying, setIsPlaying] = useState(false);
-  const [replaySpeed, setReplaySpeed] = useState(1);
 
-  // Buscar lista de sessões disponíveis
-  useEffect(() => {
-    const fetchSessions = async () => {
-      const { data, error } = await supabase
-        .from('weather_data')
-        .select('session_id')
-        .order('session_id', { ascending: false });
-      
-      if (data && !error) {
-        const uniqueSessions = [...new Set(data.map(item => item.session_id))];
-        setSessions(uniqueSessions);
-        if (uniqueSessions.length > 0 && !selectedSession) {
-          setSelectedSession(uniqueSessions[0]);
-        }
-      }
-    };
+  // Replay sincronizado pelo relógio de sessão compartilhado
+  const { currentTime, seek } = useSessionClock();
+  const rowsRange = useMemo(() => getRowsRange(rows), [rows]);
+  useClockRange(rowsRange?.start ?? null, rowsRange?.end ?? null);
 
-    fetchSessions();
-  }, [selectedSession, periodFilter]);
+  const currentIndex = periodFilter === 'atual'
+    ? rows.length - 1
+    : findLatestIndex(rows, currentTime);
+  const weatherData = rows[currentIndex] ?? null;
+
+  // Dados históricos para o gráfico de temperatura
+  const temperatureHistory = useMemo(() => rows.map(item => ({
+    time: new Date(item.timestamp).toLocaleTimeString('pt-BR', { 
+      hour: '2-digit', 
+      minute: '2-digit' 
+    }),
+    ar: item.air_temp,
+    pista: item.track_temp,
+    timestamp: new Date(item.timestamp).getTime()
+  })), [rows]);
 
   // Buscar dados meteorológicos da sessão selecionada
   useEffect(() => {
     if (!selectedSession) return;
 
-    // Reset current index when changing sessions
-    setCurrentIndex(0);
-    setIsPlaying(false);
-
     const fetchWeatherData = async () => {
-      const { data, error } = await supabase
-        .from('weather_data')
-        .select('*')
-        .eq('session_id', selectedSession)
-        .order('timestamp', { ascending: true });
-      
-      if (data && !error) {
-        setRows(data);
-        
-        // For the current view when in 'atual' mode
-        if (periodFilter === 'atual' && data.length > 0) {
-          setWeatherData(data[data.length - 1]);
-        } else if (data.length > 0) {
-          setWeatherData(data[0]); // Initially show the first data point in historical mode
-        }
-        
-        // Prepare historical data for temperature chart
-        const historyData = data.map(item => ({
-          time: new Date(item.timestamp).toLocaleTimeString('pt-BR', { 
-            hour: '2-digit', 
-            minute: '2-digit' 
-          }),
-          ar: item.air_temp,
-          pista: item.track_temp,
-          timestamp: new Date(item.timestamp).getTime()
-        }));
-        
-        setTemperatureHistory(historyData);
+      try {
+        setRows(await getWeatherData(selectedSession));
+      } catch (error) {
+        console.error('Erro ao buscar dados meteorológicos:', error);
       }
     };
 
     fetchWeatherData();
 
     // Realtime subscription
-    const channel = supabase
-      .channel('public:weather_data')
-      .on(
-        'postgres_changes',
-        { 
-          schema: 'public', 
-          table: 'weather_data', 
-          event: '*',
-          filter: `session_id=eq.${selectedSession}`
-        },
-        ({ eventType, new: newRow, old: oldRow }) => {
-          if (eventType === 'INSERT' || eventType === 'UPDATE') {
-            const typedNewRow = newRow as WeatherData;
-            
-            // Update rows array
-            setRows(current => {
-              const updatedRows = [...current];
-              const existingIndex = updatedRows.findIndex(r => r.id === typedNewRow.id);
-              
-              if (existingIndex >= 0) {
-                updatedRows[existingIndex] = typedNewRow;
-              } else {
-                updatedRows.push(typedNewRow);
-                // Sort by timestamp
-                updatedRows.sort((a, b) => 
-                  new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime()
-                );
-              }
-              
-              return updatedRows;
-            });
-            
-            // Update current data if in atual mode and it's the latest data
-            if (periodFilter === 'atual') {
-              setWeatherData(typedNewRow);
-            }
-            
-            // Update temperature history
-            setTemperatureHistory(current => {
-              const newPoint = {
-                time: new Date(typedNewRow.timestamp).toLocaleTimeString('pt-BR', { 
-                  hour: '2-digit', 
-                  minute: '2-digit' 
-                }),
-                ar: typedNewRow.air_temp,
-                pista: typedNewRow.track_temp,
-                timestamp: new Date(typedNewRow.timestamp).getTime()
-              };
-              
-              const updatedHistory = [...current];
-              const existingIndex = updatedHistory.findIndex(
-                item => item.timestamp === newPoint.timestamp
-              );
-              
-              if (existingIndex >= 0) {
-                updatedHistory[existingIndex] = newPoint;
-              } else {
-                updatedHistory.push(newPoint);
-                // Sort by timestamp
-                updatedHistory.sort((a, b) => a.timestamp - b.timestamp);
-              }
-              
-              return updatedHistory;
-            });
-          } else if (eventType === 'DELETE') {
-            const typedOldRow = oldRow as WeatherData;
-            
-            // Remove from rows array
-            setRows(current => current.filter(r => r.id !== typedOldRow.id));
-            
-            // Remove from temperature history
-            setTemperatureHistory(current => 
-              current.filter(item => 
-                item.timestamp !== new Date(typedOldRow.timestamp).getTime()
-              )
+    const unsubscribe = subscribeToSession('weather_data', selectedSession, ({ eventType, new: newRow, old: oldRow }) => {
+      if (eventType === 'INSERT' || eventType === 'UPDATE') {
+        const typedNewRow = newRow as WeatherData;
+        
+        // Update rows array
+        setRows(current => {
+          const updatedRows = [...current];
+          const existingIndex = updatedRows.findIndex(r => r.id === typedNewRow.id);
+          
+          if (existingIndex >= 0) {
+            updatedRows[existingIndex] = typedNewRow;
+          } else {
+            updatedRows.push(typedNewRow);
+            // Sort by timestamp
+            updatedRows.sort((a, b) => 
+              new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime()
             );
           }
-        }
-      )
-      .subscribe();
-
-    return () => { supabase.removeChannel(channel); };
-  }, [selectedSession, periodFilter]);
-
-  // Effect for replay functionality
-  useEffect(() => {
-    if (isPlaying && rows.length > 0) {
-      const interval = setInterval(() => {
-        setCurrentIndex(prevIndex => {
-          const nextIndex = prevIndex + 1;
-          if (nextIndex >= rows.length) {
-            setIsPlaying(false);
-            return prevIndex;
-          }
           
-          // Update the weatherData with the current point during replay
-          setWeatherData(rows[nextIndex]);
-          return nextIndex;
+          return updatedRows;
         });
-      }, 1000 / replaySpeed);
-
-      return () => clearInterval(interval);
-    }
-  }, [isPlaying, rows, replaySpeed]);
+      } else if (eventType === 'DELETE') {
+        const typedOldRow = oldRow as WeatherData;
+        
+        // Remove from rows array
+        setRows(current => current.filter(r => r.id !== typedOldRow.id));
+      }
+    });
 
-  // Effect for handling period filter changes
-  useEffect(() => {
-    if (rows.length === 0) return;
-    
-    if (periodFilter === 'atual') {
-      // In atual mode, show the latest data point
-      setWeatherData(rows[rows.length - 1]);
-      setCurrentIndex(rows.length - 1);
-    } else {
-      // In historico mode, start from the beginning for replay
-      setWeatherData(rows[currentIndex]);
-    }
-  }, [periodFilter, rows, currentIndex]);
+    return unsubscribe;
+  }, [selectedSession]);
 
   // Formatar data/hora para exibição
   const getFormattedDateTime = () => {
@@ -257,9 +128,15 @@ export const WeatherDashboard: React.FC = () => {
 
   if (!weatherData) {
     return (
-      <div className="flex items-center justify-center h-screen">
-        <div className="animate-spin rounded-full h-12 w-12 border-t-2 border-b-2 border-blue-500"></div>
-        <span className="ml-3 text-xl">Carregando dados meteorológicos...</span>
+      <div className="flex flex-col items-center justify-center h-screen">
+        <div className="flex items-center">
+          <div className="animate-spin rounded-full h-12 w-12 border-t-2 border-b-2 border-blue-500"></div>
+          <span className="ml-3 text-xl">Carregando dados meteorológicos...</span>
+        </div>
+        {/* Permite trocar de sessão quando a atual não tem dados deste fluxo */}
+        <div className="mt-6">
+          <SessionPicker stream="weather_data" />
+        </div>
       </div>
     );
   }
@@ -275,18 +152,7 @@ export const WeatherDashboard: React.FC = () => {
           </div>
           
           <div className="flex flex-col md:flex-row items-end space-y-2 md:space-y-0 md:space-x-8 mt-4 md:mt-0">
-            <div>
-              <label className="block text-sm text-gray-400 mb-1">Sessão</label>
-              <select 
-                value={selectedSession || ''}
-                onChange={(e) => setSelectedSession(Number(e.target.value))}
-                className="bg-gray-800 text-white px-4 py-2 rounded w-full md:w-auto"
-              >
-                {sessions.map(session => (
-                  <option key={session} value={session}>Sessão #{session}</option>
-                ))}
-              </select>
-            </div>
+            <SessionPicker stream="weather_data" />
             
             <div>
               <label className="block text-sm text-gray-400 mb-1">Período</label>
@@ -310,41 +176,12 @@ export const WeatherDashboard: React.FC = () => {
             {periodFilter === 'historico' && (
               <div>
                 <label className="block text-sm text-gray-400 mb-1">Replay</label>
-                <div className="flex items-center space-x-2">
-                  <button 
-                    onClick={() => setCurrentIndex(Math.max(0, currentIndex - 1))}
-                    className="p-2 rounded bg-gray-700 hover:bg-gray-600"
-                    disabled={currentIndex === 0}
-                  >
-                    ⏮️
-                  </button>
-                  
-                  <button 
-                    onClick={() => setIsPlaying(!isPlaying)}
-                    className="p-2 rounded bg-gray-700 hover:bg-gray-600"
-                  >
-                    {isPlaying ? '⏸️' : '▶️'}
-                  </button>
-                  
-                  <button 
-                    onClick={() => setCurrentIndex(Math.min(rows.length - 1, currentIndex + 1))}
-                    className="p-2 rounded bg-gray-700 hover:bg-gray-600"
-                    disabled={currentIndex === rows.length - 1}
-                  >
-                    ⏭️
-                  </button>
-                  
-                  <select 
-                    value={replaySpeed}
-                    onChange={(e) => setReplaySpeed(Number(e.target.value))}
-                    className="bg-gray-700 p-2 rounded"
-                  >
-                    <option value={0.5}>0.5x</option>
-                    <option value={1}>1x</option>
-                    <option value={2}>2x</option>
-                    <option value={5}>5x</option>
-                  </select>
-                </div>
+                <ReplayControls
+                  onPrevious={() => seek(toMillis(rows[Math.max(0, currentIndex - 1)].timestamp))}
+                  onNext={() => seek(toMillis(rows[Math.min(rows.length - 1, currentIndex + 1)].timestamp))}
+                  canPrevious={currentIndex > 0}
+                  canNext={currentIndex < rows.length - 1}
+                />
               </div>
             )}
           </div>
@@ -438,6 +275,9 @@ export const WeatherDashboard: React.FC = () => {
         {/* Adicionar tabela de dados no modo histórico */}
         {periodFilter === 'historico' && (
           <div className="mt-6">
+            <div className="bg-gray-800 rounded-lg p-4 mb-6">
+              <ReplayProgressBar />
+            </div>
             <h3 className="text-xl mb-3">Dados históricos</h3>
             <div className="bg-gray-800 rounded-lg overflow-x-auto">
               <table className="min-w-full">
@@ -0,0 +1,30 @@
+import { createContext } from 'react';
+
+export type ClockRange = { start: number; end: number };
+
+export type SessionClock = {
+  // Instante atual do replay (epoch em ms) ou null enquanto não há dados
+  currentTime: number | null;
+  isPlaying: boolean;
+  replaySpeed: number;
+  // União dos intervalos registrados pelos componentes montados
+  range: ClockRange | null;
+  play: () => void;
+  pause: () => void;
+  togglePlay: () => void;
+  seek: (time: number) => void;
+  setReplaySpeed: (speed: number) => void;
+  registerRange: (id: string, range: ClockRange | null) => void;
+};
+
+export const SessionClockContext = createContext<SessionClock | null>(null);
+
+// O mesmo relógio sem o instante atual: muda só com play/pause, velocidade e linha do tempo.
+// O instante é lido na hora (getTime) ou acompanhado por assinatura (subscribe), sem
+// renderizar de novo a cada quadro quem só precisa dos controles.
+export type SessionClockControls = Omit<SessionClock, 'currentTime'> & {
+  getTime: () => number | null;
+  subscribe: (listener: () => void) => () => void;
+};
+
+export const SessionClockControlsContext = createContext<SessionClockControls | null>(null);
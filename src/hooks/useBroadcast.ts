@@ -1,28 +1,16 @@
-import { useEffect, useRef } from 'react';
-import { supabase } from '../lib/supabase';
+import { useEffect } from 'react';
+import { dataSource } from '../lib/dataSource';
 
 export function useBroadcast<T>(
-  channelName: string,
+  channelName: string | null,
   onMessage: (payload: T) => void
 ) {
-  const channelRef = useRef<any>(null);
-
   useEffect(() => {
-    // 1) Cria/entra no canal
-    const channel = supabase.channel(channelName);
-
-    // 2) Escuta TODOS os eventos broadcast (event:'*')
-    channel
-      .on('broadcast', { event: '*' }, (payload) => {
-        onMessage(payload as T);
-      })
-      .subscribe();  // subscreve ao canal :contentReference[oaicite:0]{index=0}
-
-    channelRef.current = channel;
+    // Sem canal (null) não há assinatura
+    if (!channelName) return;
 
-    return () => {
-      // Limpa a assinatura ao desmontar
-      supabase.removeChannel(channelRef.current!); // remove canal :contentReference[oaicite:1]{index=1}
-    };
+    // Entra no canal e escuta TODOS os eventos broadcast (event:'*');
+    // a assinatura é removida ao desmontar
+    return dataSource.subscribeBroadcast<T>(channelName, onMessage);
   }, [channelName, onMessage]);
 }
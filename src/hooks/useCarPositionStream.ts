@@ -0,0 +1,251 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import type { CarPosition } from '../lib/database.types';
+import type { ClockRange } from '../contexts/SessionClockContext';
+import { getCarPositionExtent, getCarPositionsWindow, invalidateSession, subscribeToSession } from '../lib/repository';
+import { toMillis } from '../lib/clock';
+import { useClockValue } from './useSessionClock';
+
+// Janela de dados carregada por requisição
+const CHUNK_MS = 2 * 60 * 1000;
+// Blocos carregados à frente do relógio e mantidos atrás dele
+const PREFETCH_CHUNKS = 3;
+const KEEP_BEHIND_CHUNKS = 1;
+// Limite de blocos carregados para um intervalo fixo (40 min de sessão)
+const MAX_RANGE_CHUNKS = 20;
+export const MAX_RANGE_MS = MAX_RANGE_CHUNKS * CHUNK_MS;
+
+const hasCoordinates = (pos: CarPosition) =>
+  pos.x_coord !== null &&
+  pos.y_coord !== null &&
+  !(pos.x_coord === 0 && pos.y_coord === 0);
+
+// Primeiro índice a partir do qual `isAfter` vale para o instante da linha (linhas em ordem)
+const searchRows = (rows: CarPosition[], isAfter: (time: number) => boolean) => {
+  let low = 0;
+  let high = rows.length;
+  while (low < high) {
+    const middle = (low + high) >> 1;
+    if (isAfter(toMillis(rows[middle].timestamp))) high = middle;
+    else low = middle + 1;
+  }
+  return low;
+};
+
+// Acrescenta mantendo a ordem cronológica: as linhas costumam chegar já em ordem e só
+// as atrasadas são inseridas por busca binária
+const insertByTime = (rows: CarPosition[], incoming: CarPosition[]) => {
+  const merged = [...rows];
+  incoming.forEach(row => {
+    const time = toMillis(row.timestamp);
+    const last = merged[merged.length - 1];
+    if (!last || toMillis(last.timestamp) <= time) merged.push(row);
+    else merged.splice(searchRows(merged, rowTime => rowTime > time), 0, row);
+  });
+  return merged;
+};
+
+// Carrega car_positions em blocos de tempo ao redor do relógio, em vez da sessão inteira.
+// O relógio é acompanhado por bloco: o replay não renderiza o componente a cada quadro.
+// Blocos fora da janela são descartados para manter a memória limitada.
+// Em modo ao vivo as novas posições são acumuladas num buffer próprio, mantido
+// enquanto a sessão não muda, e os blocos só são buscados até o início desse buffer.
+// Com `range`, os blocos que cobrem o intervalo (até MAX_RANGE_CHUNKS) são carregados
+// no lugar dos blocos ao redor do relógio.
+export function useCarPositionStream(
+  sessionId: number | null,
+  live = false,
+  range: ClockRange | null = null
+) {
+  const [extent, setExtent] = useState<ClockRange | null>(null);
+  const [chunks, setChunks] = useState<Map<number, CarPosition[]>>(() => new Map());
+  const [liveRows, setLiveRows] = useState<CarPosition[]>([]);
+  // Instante da primeira posição recebida ao vivo (null = sem buffer ao vivo)
+  const liveStart = liveRows.length > 0 ? toMillis(liveRows[0].timestamp) : null;
+  const pending = useRef(new Set<number>());
+  // Posições ao vivo recebidas desde o último quadro, aplicadas de uma vez
+  const liveBatch = useRef<CarPosition[]>([]);
+  const liveFrame = useRef<number | null>(null);
+  // Incrementada a cada troca de sessão para descartar respostas atrasadas
+  const generation = useRef(0);
+  const sessionRef = useRef(sessionId);
+  sessionRef.current = sessionId;
+
+  // Descarta blocos carregados e respostas ainda pendentes
+  const resetChunks = useCallback(() => {
+    generation.current++;
+    pending.current.clear();
+    setChunks(new Map());
+  }, []);
+
+  // Descarta o lote ao vivo ainda não aplicado
+  const dropLiveBatch = useCallback(() => {
+    if (liveFrame.current !== null) cancelAnimationFrame(liveFrame.current);
+    liveFrame.current = null;
+    liveBatch.current = [];
+  }, []);
+
+  useEffect(() => dropLiveBatch, [dropLiveBatch]);
+
+  useEffect(() => {
+    resetChunks();
+    dropLiveBatch();
+    setLiveRows([]);
+    setExtent(null);
+    if (sessionId === null) return;
+
+    let cancelled = false;
+    getCarPositionExtent(sessionId)
+      .then(result => {
+        if (!cancelled) setExtent(result);
+      })
+      .catch(error => console.error('Erro ao buscar intervalo das posições:', error));
+
+    return () => { cancelled = true; };
+  }, [sessionId, resetChunks, dropLiveBatch]);
+
+  // Acrescenta posições recebidas ao vivo (realtime ou broadcast), um lote por quadro
+  const appendPositions = useCallback((rows: CarPosition[]) => {
+    const incoming = rows.filter(hasCoordinates);
+    if (incoming.length === 0) return;
+
+    liveBatch.current.push(...incoming);
+    if (liveFrame.current !== null) return;
+    liveFrame.current = requestAnimationFrame(() => {
+      const batch = liveBatch.current;
+      liveBatch.current = [];
+      liveFrame.current = null;
+
+      setLiveRows(current => insertByTime(current, batch));
+      // O intervalo em cache fica desatualizado (broadcast não passa pelo realtime)
+      if (sessionRef.current !== null) invalidateSession('car_positions', sessionRef.current);
+      const times = batch.map(row => toMillis(row.timestamp));
+      setExtent(current => ({
+        start: Math.min(current?.start ?? Infinity, ...times),
+        end: Math.max(current?.end ?? -Infinity, ...times)
+      }));
+    });
+  }, []);
+
+  useEffect(() => {
+    if (!live || sessionId === null) return;
+
+    const unsubscribe = subscribeToSession('car_positions', sessionId, ({ eventType, new: newRow }) => {
+      if (eventType === 'INSERT') appendPositions([newRow as CarPosition]);
+    });
+
+    return () => {
+      unsubscribe();
+      // Sair do modo ao vivo descarta o buffer e volta a buscar tudo do banco, em blocos
+      resetChunks();
+      dropLiveBatch();
+      setLiveRows([]);
+    };
+  }, [live, sessionId, appendPositions, resetChunks, dropLiveBatch]);
+
+  const lastChunk = extent ? Math.floor((extent.end - extent.start) / CHUNK_MS) : -1;
+  const chunkAt = (time: number) =>
+    extent ? Math.max(0, Math.min(lastChunk, Math.floor((time - extent.start) / CHUNK_MS))) : null;
+  const rangeFirst = range ? chunkAt(range.start) : null;
+  const rangeLast = range && rangeFirst !== null
+    ? Math.min(chunkAt(range.end)!, rangeFirst + MAX_RANGE_CHUNKS - 1)
+    : null;
+  // Bloco de referência: início do intervalo fixo ou bloco do relógio
+  const clockChunk = useClockValue(time => time !== null ? chunkAt(time) : null);
+  const currentChunk = rangeFirst ?? clockChunk;
+
+  // Blocos inteiramente cobertos pelo buffer ao vivo não precisam ser buscados
+  const isLoaded = useCallback((index: number) =>
+    chunks.has(index) || (extent !== null && liveStart !== null && extent.start + index * CHUNK_MS >= liveStart),
+  [chunks, extent, liveStart]);
+
+  useEffect(() => {
+    if (sessionId === null || !extent || currentChunk === null) return;
+
+    const first = rangeFirst ?? Math.max(0, currentChunk - KEEP_BEHIND_CHUNKS);
+    const last = rangeLast ?? Math.min(lastChunk, currentChunk + PREFETCH_CHUNKS);
+
+    // Descarta blocos fora da janela
+    if ([...chunks.keys()].some(index => index < first || index > last)) {
+      setChunks(current => new Map([...current].filter(([index]) => index >= first && index <= last)));
+    }
+
+    // Bloco atual primeiro, depois os seguintes e por fim os anteriores
+    const wanted = [];
+    for (let index = currentChunk; index <= last; index++) wanted.push(index);
+    for (let index = currentChunk - 1; index >= first; index--) wanted.push(index);
+
+    const requestGeneration = generation.current;
+    wanted
+      .filter(index => !isLoaded(index) && !pending.current.has(index))
+      .forEach(index => {
+        pending.current.add(index);
+        const from = extent.start + index * CHUNK_MS;
+        // O último bloco inclui a posição final da sessão
+        const end = index === lastChunk ? extent.end + 1 : from + CHUNK_MS;
+        const to = liveStart !== null ? Math.min(end, liveStart) : end;
+
+        getCarPositionsWindow(sessionId, from, to)
+          .then(rows => {
+            if (requestGeneration !== generation.current) return;
+            setChunks(current => new Map(current).set(index, rows.filter(hasCoordinates)));
+          })
+          .catch(error => console.error('Erro ao buscar posições:', error))
+          .finally(() => {
+            if (requestGeneration === generation.current) pending.current.delete(index);
+          });
+      });
+  }, [sessionId, extent, currentChunk, lastChunk, rangeFirst, rangeLast, chunks, isLoaded, liveStart]);
+
+  // Buffer ao vivo limitado aos blocos mantidos atrás do relógio; o corte cai no início de um
+  // bloco para que o trecho anterior volte a ser buscado do banco em blocos inteiros
+  useEffect(() => {
+    if (!extent || liveStart === null || currentChunk === null || rangeFirst !== null) return;
+    const cutoff = extent.start + Math.max(0, currentChunk - KEEP_BEHIND_CHUNKS) * CHUNK_MS;
+    if (cutoff <= liveStart) return;
+    setLiveRows(current => current.slice(searchRows(current, time => time >= cutoff)));
+  }, [extent, liveStart, currentChunk, rangeFirst]);
+
+  // Ao começar o buffer ao vivo, o bloco que o contém é buscado de novo só até o seu início
+  const trimmedAt = useRef<number | null>(null);
+  useEffect(() => {
+    if (!extent || liveStart === null || trimmedAt.current === liveStart) return;
+    trimmedAt.current = liveStart;
+    const index = Math.floor((liveStart - extent.start) / CHUNK_MS);
+    setChunks(current => {
+      if (!current.has(index)) return current;
+      const updated = new Map(current);
+      updated.delete(index);
+      return updated;
+    });
+  }, [extent, liveStart]);
+
+  // Posições carregadas, em ordem cronológica (blocos antes do buffer ao vivo)
+  const positions = useMemo(() => {
+    const fetched = [...chunks.entries()].sort(([a], [b]) => a - b).flatMap(([, rows]) => rows);
+    if (liveStart === null) return fetched;
+    return [...fetched.filter(row => toMillis(row.timestamp) < liveStart), ...liveRows];
+  }, [chunks, liveRows, liveStart]);
+
+  // Trecho contínuo já carregado em torno do relógio
+  const bufferedRange = useMemo<ClockRange | null>(() => {
+    if (!extent || currentChunk === null || !isLoaded(currentChunk)) return null;
+
+    let first = currentChunk;
+    let last = currentChunk;
+    while (first > 0 && isLoaded(first - 1)) first--;
+    while (last < lastChunk && isLoaded(last + 1)) last++;
+
+    return {
+      start: extent.start + first * CHUNK_MS,
+      end: Math.min(extent.end, extent.start + (last + 1) * CHUNK_MS)
+    };
+  }, [extent, currentChunk, lastChunk, isLoaded]);
+
+  // Com intervalo fixo, carregando até que todos os blocos dele cheguem
+  let isBuffering = currentChunk !== null && !isLoaded(currentChunk);
+  if (rangeFirst !== null && rangeLast !== null) {
+    for (let index = rangeFirst; index <= rangeLast; index++) isBuffering ||= !isLoaded(index);
+  }
+
+  return { positions, extent, isBuffering, bufferedRange, appendPositions };
+}
@@ -0,0 +1,54 @@
+import { useEffect, useState } from 'react';
+import {
+  findCircuit,
+  getCircuitCalibration,
+  getCircuitPitLane,
+  getCircuitSectors,
+  getCircuitStartFinish,
+  loadCircuitArtwork,
+  type ArtworkSize,
+  type CircuitCalibration,
+  type TelemetryPoint
+} from '../lib/circuits';
+import { useSessionCatalog } from './useSessionCatalog';
+
+// Circuito da sessão, dimensões do desenho oficial e ajustes vigentes (calibração, setores,
+// pit lane, linha de chegada)
+export function useCircuit(sessionId: number | null) {
+  const { sessions } = useSessionCatalog();
+  const circuit = findCircuit(sessions.find(session => session.id === sessionId));
+  const [artwork, setArtwork] = useState<ArtworkSize | null>(null);
+  const [calibration, setCalibration] = useState<CircuitCalibration | null>(null);
+  const [sectors, setSectors] = useState<number[]>(() => getCircuitSectors(null));
+  const [pitLane, setPitLane] = useState<TelemetryPoint[] | null>(null);
+  const [startFinish, setStartFinish] = useState<TelemetryPoint | null>(null);
+
+  useEffect(() => {
+    setArtwork(null);
+    if (!circuit) return;
+
+    let cancelled = false;
+    loadCircuitArtwork(circuit)
+      .then(size => {
+        if (!cancelled) setArtwork(size);
+      })
+      .catch(error => console.error('Erro ao carregar desenho do circuito:', error));
+
+    return () => { cancelled = true; };
+  }, [circuit]);
+
+  // Recarrega quando algum ajuste do circuito é salvo
+  useEffect(() => {
+    const update = () => {
+      setCalibration(circuit ? getCircuitCalibration(circuit) : null);
+      setSectors(getCircuitSectors(circuit));
+      setPitLane(getCircuitPitLane(circuit));
+      setStartFinish(getCircuitStartFinish(circuit));
+    };
+    update();
+    window.addEventListener('app:circuit-settings', update);
+    return () => window.removeEventListener('app:circuit-settings', update);
+  }, [circuit]);
+
+  return { circuit, artwork, calibration, sectors, pitLane, startFinish };
+}
@@ -0,0 +1,31 @@
+import { useEffect, useState } from 'react';
+import type { CarPosition } from '../lib/database.types';
+import type { Lap } from '../lib/laps';
+import { getCarPositionsWindow } from '../lib/repository';
+
+// Margem em volta da volta, para interpolar a posição na largada e na chegada
+const LAP_MARGIN_MS = 2_000;
+
+// Posições de um piloto durante uma volta, em ordem cronológica
+export function useLapTrail(sessionId: number | null, lap: Lap | null) {
+  const [trail, setTrail] = useState<CarPosition[]>([]);
+  const driverNumber = lap?.driverNumber ?? null;
+  const start = lap?.start ?? null;
+  const end = lap?.end ?? null;
+
+  useEffect(() => {
+    setTrail([]);
+    if (sessionId === null || driverNumber === null || start === null || end === null) return;
+
+    let cancelled = false;
+    getCarPositionsWindow(sessionId, start - LAP_MARGIN_MS, end + LAP_MARGIN_MS)
+      .then(positions => {
+        if (!cancelled) setTrail(positions.filter(pos => pos.driver_number === driverNumber));
+      })
+      .catch(error => console.error('Erro ao buscar posições da volta:', error));
+
+    return () => { cancelled = true; };
+  }, [sessionId, driverNumber, start, end]);
+
+  return trail;
+}
@@ -0,0 +1,118 @@
+import { useEffect, useRef, type RefObject } from 'react';
+import { fitViewBox, type MapRect } from '../lib/mapScene';
+
+type Point = { x: number; y: number };
+
+export type MapGestureHandlers = {
+  // Multiplica o zoom mantendo `anchor` (no espaço do desenho) sob o cursor
+  onZoom: (factor: number, anchor: Point) => void;
+  // Desloca o centro da câmera, em unidades do desenho
+  onPan: (dx: number, dy: number) => void;
+  onReset: () => void;
+};
+
+// Arrastos maiores que isto (px) não contam como clique
+const DRAG_THRESHOLD = 5;
+// Sensibilidade da roda do mouse
+const WHEEL_ZOOM_RATE = 0.0015;
+
+// Gestos de câmera sobre o mapa: roda (zoom no cursor), arrastar (pan), pinça com dois
+// dedos (zoom + pan) e duplo clique (reset). Os ouvintes são nativos porque a roda
+// precisa de preventDefault, indisponível nos eventos passivos do React.
+// O enquadramento é lido a cada evento: com a câmera seguindo um piloto ele muda entre renderizações.
+export function useMapGestures(
+  ref: RefObject<HTMLElement | null>,
+  getViewBox: () => MapRect,
+  handlers: MapGestureHandlers
+) {
+  const viewBoxRef = useRef(getViewBox);
+  viewBoxRef.current = getViewBox;
+  const handlersRef = useRef(handlers);
+  handlersRef.current = handlers;
+
+  useEffect(() => {
+    const element = ref.current;
+    if (!element) return;
+
+    const pointers = new Map<number, Point>();
+    let dragged = 0;
+
+    // Cliente (px) → desenho, e px → unidades do desenho
+    const toDrawing = (clientX: number, clientY: number) => {
+      const rect = element.getBoundingClientRect();
+      const { scale, offsetX, offsetY } = fitViewBox(viewBoxRef.current(), rect.width, rect.height);
+      return { x: (clientX - rect.left - offsetX) / scale, y: (clientY - rect.top - offsetY) / scale };
+    };
+    const pixelSize = () => {
+      const rect = element.getBoundingClientRect();
+      return 1 / fitViewBox(viewBoxRef.current(), rect.width, rect.height).scale;
+    };
+
+    const handleWheel = (e: WheelEvent) => {
+      e.preventDefault();
+      handlersRef.current.onZoom(Math.exp(-e.deltaY * WHEEL_ZOOM_RATE), toDrawing(e.clientX, e.clientY));
+    };
+
+    const handlePointerDown = (e: PointerEvent) => {
+      if (pointers.size === 0) dragged = 0;
+      pointers.set(e.pointerId, { x: e.clientX, y: e.clientY });
+    };
+
+    const handlePointerMove = (e: PointerEvent) => {
+      const previous = pointers.get(e.pointerId);
+      if (!previous) return;
+      const current = { x: e.clientX, y: e.clientY };
+
+      if (pointers.size === 1) {
+        const size = pixelSize();
+        dragged += Math.hypot(current.x - previous.x, current.y - previous.y);
+        handlersRef.current.onPan(-(current.x - previous.x) * size, -(current.y - previous.y) * size);
+      } else if (pointers.size === 2) {
+        const other = [...pointers.entries()].find(([id]) => id !== e.pointerId)![1];
+        const before = Math.hypot(previous.x - other.x, previous.y - other.y);
+        const after = Math.hypot(current.x - other.x, current.y - other.y);
+        const midpoint = toDrawing((current.x + other.x) / 2, (current.y + other.y) / 2);
+        const size = pixelSize();
+        dragged += DRAG_THRESHOLD;
+        handlersRef.current.onPan(-(current.x - previous.x) / 2 * size, -(current.y - previous.y) / 2 * size);
+        if (before > 0) handlersRef.current.onZoom(after / before, midpoint);
+      }
+      pointers.set(e.pointerId, current);
+      // Captura só ao arrastar: capturar no toque redirecionaria o clique para o contêiner
+      if (dragged > DRAG_THRESHOLD && !element.hasPointerCapture(e.pointerId)) {
+        element.setPointerCapture(e.pointerId);
+      }
+    };
+
+    const handlePointerUp = (e: PointerEvent) => {
+      pointers.delete(e.pointerId);
+    };
+
+    // Depois de arrastar, o clique não seleciona o carro sob o cursor
+    const handleClick = (e: MouseEvent) => {
+      if (dragged > DRAG_THRESHOLD) e.stopPropagation();
+    };
+
+    const handleDoubleClick = () => handlersRef.current.onReset();
+
+    element.addEventListener('wheel', handleWheel, { passive: false });
+    element.addEventListener('pointerdown', handlePointerDown);
+    element.addEventListener('pointermove', handlePointerMove);
+    element.addEventListener('pointerup', handlePointerUp);
+    element.addEventListener('pointercancel', handlePointerUp);
+    element.addEventListener('pointerleave', handlePointerUp);
+    element.addEventListener('click', handleClick, true);
+    element.addEventListener('dblclick', handleDoubleClick);
+
+    return () => {
+      element.removeEventListener('wheel', handleWheel);
+      element.removeEventListener('pointerdown', handlePointerDown);
+      element.removeEventListener('pointermove', handlePointerMove);
+      element.removeEventListener('pointerup', handlePointerUp);
+      element.removeEventListener('pointercancel', handlePointerUp);
+      element.removeEventListener('pointerleave', handlePointerUp);
+      element.removeEventListener('click', handleClick, true);
+      element.removeEventListener('dblclick', handleDoubleClick);
+    };
+  }, [ref]);
+}
@@ -0,0 +1,89 @@
+import { useCallback, useEffect, useMemo, useRef, useSyncExternalStore } from 'react';
+import { buildUrl, parseRoute, type AppRoute } from '../lib/router';
+import { useSessionClock } from './useSessionClock';
+
+// Evento disparado em navegações feitas pela própria aplicação (pushState não emite popstate)
+const NAVIGATE_EVENT = 'app:navigate';
+
+const subscribe = (callback: () => void) => {
+  window.addEventListener('popstate', callback);
+  window.addEventListener(NAVIGATE_EVENT, callback);
+  return () => {
+    window.removeEventListener('popstate', callback);
+    window.removeEventListener(NAVIGATE_EVENT, callback);
+  };
+};
+
+const getLocation = () => `${window.location.pathname}${window.location.search}`;
+
+export type NavigateOptions = { replace?: boolean };
+
+export function navigate(patch: Partial<AppRoute>, options: NavigateOptions = {}) {
+  const current = parseRoute(window.location.pathname, window.location.search);
+  const url = buildUrl({ ...current, ...patch });
+  if (url === getLocation()) return;
+
+  if (options.replace) {
+    window.history.replaceState(null, '', url);
+  } else {
+    window.history.pushState(null, '', url);
+  }
+  window.dispatchEvent(new Event(NAVIGATE_EVENT));
+}
+
+export function useRoute(): [AppRoute, typeof navigate] {
+  const location = useSyncExternalStore(subscribe, getLocation);
+  const route = useMemo(() => {
+    const [pathname, search = ''] = location.split('?');
+    return parseRoute(pathname, search);
+  }, [location]);
+
+  return [route, navigate];
+}
+
+// Sessão selecionada na URL; trocar de sessão cria uma entrada no histórico
+export function useSelectedSession(): [number | null, (session: number, options?: NavigateOptions) => void] {
+  const [route] = useRoute();
+  const setSelectedSession = useCallback((session: number, options?: NavigateOptions) => {
+    navigate({ session, time: null }, options);
+  }, []);
+  return [route.session, setSelectedSession];
+}
+
+// Pilotos selecionados na URL, compartilhados entre as telas (vazio = todos)
+export function useSelectedDrivers(): [string[], (driverNumber: string) => void, (drivers: string[]) => void] {
+  const [route] = useRoute();
+  const setSelectedDrivers = useCallback((drivers: string[]) => {
+    navigate({ drivers }, { replace: true });
+  }, []);
+  const toggleDriver = useCallback((driverNumber: string) => {
+    const current = parseRoute(window.location.pathname, window.location.search).drivers;
+    setSelectedDrivers(current.includes(driverNumber)
+      ? current.filter(d => d !== driverNumber)
+      : [...current, driverNumber]);
+  }, [setSelectedDrivers]);
+  return [route.drivers, toggleDriver, setSelectedDrivers];
+}
+
+// Mantém o relógio de sessão e o parâmetro `t` da URL sincronizados
+export function useRouteClockSync() {
+  const [route] = useRoute();
+  const { currentTime, isPlaying, seek } = useSessionClock();
+  const lastSyncedTime = useRef<number | null>(null);
+
+  // URL -> relógio (link aberto ou voltar/avançar no navegador)
+  useEffect(() => {
+    if (route.time === null || route.time === lastSyncedTime.current) return;
+    lastSyncedTime.current = route.time;
+    seek(route.time);
+  }, [route.time, seek]);
+
+  // Relógio -> URL, apenas com o replay parado para não poluir o histórico
+  useEffect(() => {
+    if (isPlaying || currentTime === null) return;
+    const time = Math.round(currentTime);
+    if (time === lastSyncedTime.current) return;
+    lastSyncedTime.current = time;
+    navigate({ time }, { replace: true });
+  }, [currentTime, isPlaying]);
+}
@@ -0,0 +1,50 @@
+import { useEffect, useState } from 'react';
+import type { Session } from '../lib/database.types';
+import { getSessionCatalog, getStreamAvailability, type StreamAvailability } from '../lib/repository';
+
+export function useSessionCatalog() {
+  const [sessions, setSessions] = useState<Session[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  // Mensagem exibida quando nem o catálogo pôde ser lido (ex.: modo offline sem fixtures)
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    getSessionCatalog()
+      .then(catalog => {
+        if (!cancelled) setSessions(catalog);
+      })
+      .catch(error => {
+        console.error('Erro ao buscar catálogo de sessões:', error);
+        if (!cancelled) setError(error instanceof Error ? error.message : String(error));
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+
+    return () => { cancelled = true; };
+  }, []);
+
+  return { sessions, isLoading, error };
+}
+
+export function useStreamAvailability(sessionId: number | null) {
+  const [availability, setAvailability] = useState<StreamAvailability | null>(null);
+
+  useEffect(() => {
+    setAvailability(null);
+    if (sessionId === null) return;
+
+    let cancelled = false;
+    getStreamAvailability(sessionId)
+      .then(result => {
+        if (!cancelled) setAvailability(result);
+      })
+      .catch(error => console.error('Erro ao verificar fluxos da sessão:', error));
+
+    return () => { cancelled = true; };
+  }, [sessionId]);
+
+  return availability;
+}
@@ -0,0 +1,67 @@
+import { useCallback, useContext, useEffect, useId, useRef, useSyncExternalStore } from 'react';
+import { SessionClockContext, SessionClockControlsContext } from '../contexts/SessionClockContext';
+
+export function useSessionClock() {
+  const clock = useContext(SessionClockContext);
+  if (!clock) {
+    throw new Error('useSessionClock deve ser usado dentro de <SessionClockProvider>');
+  }
+  return clock;
+}
+
+// Controles do relógio, sem renderizar de novo a cada quadro do replay
+export function useSessionClockControls() {
+  const controls = useContext(SessionClockControlsContext);
+  if (!controls) {
+    throw new Error('useSessionClockControls deve ser usado dentro de <SessionClockProvider>');
+  }
+  return controls;
+}
+
+// Valor derivado do instante do relógio (ex.: o último evento até agora): o componente só
+// renderiza de novo quando o valor muda. `select` deve devolver um valor primitivo.
+export function useClockValue<T>(select: (time: number | null) => T): T {
+  const { getTime, subscribe } = useSessionClockControls();
+  return useSyncExternalStore(subscribe, () => select(getTime()));
+}
+
+// Instante do relógio amostrado no máximo uma vez a cada `interval` ms de tempo real:
+// acompanha o replay sem renderizar o componente a cada quadro. A última mudança
+// (ex.: um seek com o replay parado) sempre chega.
+export function useThrottledClockTime(interval: number) {
+  const { getTime, subscribe } = useSessionClockControls();
+  const sample = useRef(getTime());
+
+  const subscribeThrottled = useCallback((onChange: () => void) => {
+    let last = -Infinity;
+    let timer: ReturnType<typeof setTimeout> | null = null;
+    // Mudanças entre o render e a assinatura
+    sample.current = getTime();
+    const update = () => {
+      timer = null;
+      last = performance.now();
+      sample.current = getTime();
+      onChange();
+    };
+    const unsubscribe = subscribe(() => {
+      if (timer === null) timer = setTimeout(update, Math.max(0, interval - (performance.now() - last)));
+    });
+    return () => {
+      unsubscribe();
+      if (timer !== null) clearTimeout(timer);
+    };
+  }, [getTime, subscribe, interval]);
+
+  return useSyncExternalStore(subscribeThrottled, () => sample.current);
+}
+
+// Registra o intervalo de dados de um componente na linha do tempo compartilhada
+export function useClockRange(start: number | null, end: number | null) {
+  const id = useId();
+  const { registerRange } = useSessionClockControls();
+
+  useEffect(() => {
+    registerRange(id, start !== null && end !== null ? { start, end } : null);
+    return () => registerRange(id, null);
+  }, [id, start, end, registerRange]);
+}
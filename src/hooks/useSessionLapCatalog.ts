@@ -0,0 +1,58 @@
+import { useEffect, useState } from 'react';
+import type { CarPosition, SessionDriver } from '../lib/database.types';
+import type { ClockRange } from '../contexts/SessionClockContext';
+import { getCarPositionExtent, getCarPositionsWindow, getSessionDrivers } from '../lib/repository';
+import { getCachedTrackModel } from '../lib/trackModel';
+import { useCircuit } from './useCircuit';
+import { useTrackModel } from './useTrackModel';
+import { useSessionLaps } from './useSessionLaps';
+
+// Trecho do meio da sessão usado para reconstruir o modelo da pista quando não há um em cache
+const MODEL_SAMPLE_MS = 10 * 60 * 1000;
+const NO_POSITIONS: CarPosition[] = [];
+
+// Pilotos e voltas de uma sessão qualquer, sem depender do replay da sessão aberta
+export function useSessionLapCatalog(sessionId: number | null) {
+  const { circuit, pitLane, startFinish } = useCircuit(sessionId);
+  const [drivers, setDrivers] = useState<SessionDriver[]>([]);
+  const [extent, setExtent] = useState<ClockRange | null>(null);
+  const [sample, setSample] = useState<CarPosition[]>(NO_POSITIONS);
+
+  const modelKey = circuit?.key ?? (sessionId !== null ? `session-${sessionId}` : null);
+  const model = useTrackModel(modelKey, sample, startFinish);
+  const { detection, progress } = useSessionLaps(sessionId, model, extent, NO_POSITIONS, pitLane, modelKey);
+
+  useEffect(() => {
+    setDrivers([]);
+    setExtent(null);
+    if (sessionId === null) return;
+
+    let cancelled = false;
+    Promise.all([getSessionDrivers(sessionId), getCarPositionExtent(sessionId)])
+      .then(([sessionDrivers, sessionExtent]) => {
+        if (cancelled) return;
+        setDrivers(sessionDrivers);
+        setExtent(sessionExtent);
+      })
+      .catch(error => console.error('Erro ao buscar voltas da sessão:', error));
+
+    return () => { cancelled = true; };
+  }, [sessionId]);
+
+  useEffect(() => {
+    setSample(NO_POSITIONS);
+    if (sessionId === null || !extent || !modelKey || getCachedTrackModel(modelKey)) return;
+
+    let cancelled = false;
+    const middle = (extent.start + extent.end) / 2;
+    getCarPositionsWindow(sessionId, middle - MODEL_SAMPLE_MS / 2, middle + MODEL_SAMPLE_MS / 2)
+      .then(positions => {
+        if (!cancelled) setSample(positions);
+      })
+      .catch(error => console.error('Erro ao reconstruir o traçado da pista:', error));
+
+    return () => { cancelled = true; };
+  }, [sessionId, extent, modelKey]);
+
+  return { circuit, drivers, model, detection, progress };
+}
@@ -0,0 +1,155 @@
+import { useEffect, useRef, useState } from 'react';
+import type { CarPosition } from '../lib/database.types';
+import type { ClockRange } from '../contexts/SessionClockContext';
+import type { TelemetryPoint } from '../lib/circuits';
+import {
+  buildTrackModelFromLap,
+  cacheTrackModel,
+  findFastestCleanLap,
+  getCachedTrackModel,
+  type CleanLap,
+  type TrackModel
+} from '../lib/trackModel';
+import { advanceLaps, emptyLapDetection, type LapDetection } from '../lib/laps';
+import { advancePits, emptyPitDetection, type PitDetection } from '../lib/pits';
+import { scanCarPositions } from '../lib/repository';
+import { toMillis } from '../lib/clock';
+
+type SessionScan = { laps: LapDetection; pits: PitDetection };
+
+const emptyScan = (): SessionScan => ({ laps: emptyLapDetection(), pits: emptyPitDetection() });
+
+const advanceScan = (model: TrackModel, pitLane: TelemetryPoint[] | null, scan: SessionScan, positions: CarPosition[]) => ({
+  laps: advanceLaps(model, scan.laps, positions),
+  pits: advancePits(model, pitLane, scan.pits, positions)
+});
+
+// Varredura de uma sessão, compartilhada por todos os componentes que a pedem
+type ScanEntry = {
+  scan: SessionScan;
+  // Progresso (0–1); null quando concluída
+  progress: number | null;
+  listeners: Set<() => void>;
+};
+
+// Varreduras em andamento e concluídas, por sessão, volta de referência, linha de chegada
+// e pit lane. A entrada é registrada antes do primeiro bloco, para que quem chegar durante
+// a varredura acompanhe a mesma em vez de baixar a sessão de novo.
+const scans = new Map<string, ScanEntry>();
+// Fim de cada bloco repetido no seguinte, para as voltas que cruzam o limite entre blocos
+const LAP_OVERLAP_MS = 3 * 60 * 1000;
+
+function startScan(
+  key: string,
+  sessionId: number,
+  range: ClockRange,
+  model: TrackModel,
+  pitLane: TelemetryPoint[] | null,
+  modelKey: string | null
+) {
+  const entry: ScanEntry = { scan: emptyScan(), progress: 0, listeners: new Set() };
+  scans.set(key, entry);
+  const notify = () => entry.listeners.forEach(listener => listener());
+  // Sem ninguém acompanhando, a varredura para e sai do mapa
+  const isAbandoned = () => entry.listeners.size === 0;
+
+  // Volta limpa mais rápida da sessão, separada na mesma linha de chegada do modelo
+  let fastest: CleanLap | null = null;
+  let overlap: CarPosition[] = [];
+
+  scanCarPositions(sessionId, range, (chunk, fraction) => {
+    entry.scan = advanceScan(model, pitLane, entry.scan, chunk);
+    entry.progress = fraction;
+
+    const window = [...overlap, ...chunk];
+    const lap = findFastestCleanLap(window, model.startFinish);
+    if (lap && (!fastest || lap.lapTime < fastest.lapTime)) fastest = lap;
+    const end = window.length > 0 ? toMillis(window[window.length - 1].timestamp) : 0;
+    overlap = window.filter(pos => toMillis(pos.timestamp) > end - LAP_OVERLAP_MS);
+
+    notify();
+  }, isAbandoned)
+    .then(() => {
+      if (isAbandoned()) {
+        scans.delete(key);
+        return;
+      }
+      entry.progress = null;
+      notify();
+
+      // Uma volta mais rápida que a do modelo o substitui no cache, na mesma linha de chegada.
+      // O modelo em uso fica até a próxima abertura, para não refazer esta varredura.
+      const cached = modelKey ? getCachedTrackModel(modelKey) : null;
+      if (modelKey && fastest && fastest.lapTime < (cached ?? model).source.lapTime) {
+        cacheTrackModel(modelKey, buildTrackModelFromLap(fastest, model.startFinish));
+      }
+    })
+    .catch(error => {
+      scans.delete(key);
+      console.error('Erro ao detectar voltas:', error);
+    });
+
+  return entry;
+}
+
+// Voltas e paradas nos boxes de todos os pilotos na sessão: varre a sessão uma vez em
+// segundo plano e depois acompanha as posições mais novas que chegarem (modo ao vivo).
+// A mesma varredura procura a volta limpa mais rápida para o modelo da pista (modelKey).
+export function useSessionLaps(
+  sessionId: number | null,
+  model: TrackModel | null,
+  extent: ClockRange | null,
+  positions: CarPosition[],
+  pitLane: TelemetryPoint[] | null,
+  modelKey: string | null = null
+) {
+  const [scan, setScan] = useState<SessionScan>(emptyScan);
+  // Progresso da varredura (0–1); null quando concluída ou sem varredura
+  const [progress, setProgress] = useState<number | null>(null);
+
+  const pitLaneKey = pitLane ? JSON.stringify(pitLane) : 'auto';
+  const key = sessionId !== null && model
+    ? `${sessionId}:${model.source.lapStart}:${model.startFinish.x},${model.startFinish.y}:${pitLaneKey}`
+    : null;
+  // O polígono muda de identidade a cada leitura; a chave decide quando refazer a varredura
+  const pitLaneRef = useRef(pitLane);
+  pitLaneRef.current = pitLane;
+  // O fim do intervalo cresce no modo ao vivo; a varredura usa o valor do seu início
+  const extentRef = useRef(extent);
+  extentRef.current = extent;
+  const hasExtent = extent !== null;
+  const modelKeyRef = useRef(modelKey);
+  modelKeyRef.current = modelKey;
+
+  useEffect(() => {
+    const range = extentRef.current;
+    if (!key || sessionId === null || !model || !range) {
+      setScan(emptyScan());
+      setProgress(null);
+      return;
+    }
+
+    const entry = scans.get(key) ?? startScan(key, sessionId, range, model, pitLaneRef.current, modelKeyRef.current);
+    const update = () => {
+      setScan(entry.scan);
+      setProgress(entry.progress);
+    };
+    entry.listeners.add(update);
+    update();
+
+    return () => {
+      entry.listeners.delete(update);
+    };
+  }, [key, sessionId, model, hasExtent]);
+
+  // Depois da varredura, posições novas avançam a detecção incrementalmente
+  useEffect(() => {
+    if (!model || progress !== null) return;
+    setScan(current => {
+      const newer = positions.filter(pos => toMillis(pos.timestamp) >= current.laps.processedUntil);
+      return newer.length > 0 ? advanceScan(model, pitLaneRef.current, current, newer) : current;
+    });
+  }, [model, positions, progress]);
+
+  return { detection: scan.laps, pits: scan.pits, progress };
+}
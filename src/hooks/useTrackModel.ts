@@ -0,0 +1,51 @@
+import { useEffect, useRef, useState } from 'react';
+import type { CarPosition } from '../lib/database.types';
+import type { TelemetryPoint } from '../lib/circuits';
+import {
+  alignTrackModel,
+  buildTrackModel,
+  cacheTrackModel,
+  findLapReference,
+  getCachedTrackModel,
+  type TrackModel
+} from '../lib/trackModel';
+
+// Referência para separar as voltas na falta da linha de chegada do registro, por circuito:
+// escolhida no primeiro lote de posições e mantida, para que as tentativas seguintes
+// não comecem a volta em outro ponto
+const references = new Map<string, TelemetryPoint>();
+
+// Modelo da pista do circuito (cacheKey); enquanto não houver um em cache, tenta
+// reconstruí-lo a cada novo lote de posições até haver uma volta completa carregada.
+// A varredura de voltas da sessão (useSessionLaps) troca o modelo do cache quando
+// encontra uma volta limpa mais rápida.
+// Com a linha de chegada do registro, a distância 0 do modelo fica sobre ela.
+export function useTrackModel(cacheKey: string | null, positions: CarPosition[], startFinish: TelemetryPoint | null = null) {
+  // A chave acompanha o modelo para não reconstruir com posições da sessão anterior
+  const [state, setState] = useState<{ key: string | null; model: TrackModel | null }>({ key: null, model: null });
+  // O ponto muda de identidade a cada leitura; a chave decide quando realinhar o modelo
+  const startFinishKey = startFinish ? `${startFinish.x},${startFinish.y}` : null;
+  const startFinishRef = useRef(startFinish);
+  startFinishRef.current = startFinish;
+
+  useEffect(() => {
+    const cached = cacheKey ? getCachedTrackModel(cacheKey) : null;
+    const model = cached && alignTrackModel(cached, startFinishRef.current);
+    if (cacheKey && model && model !== cached) cacheTrackModel(cacheKey, model);
+    setState({ key: cacheKey, model });
+  }, [cacheKey, startFinishKey]);
+
+  useEffect(() => {
+    if (!state.key || state.key !== cacheKey || state.model || positions.length === 0) return;
+
+    const reference = startFinishRef.current ?? references.get(state.key) ?? findLapReference(positions);
+    if (!reference) return;
+    if (!startFinishRef.current) references.set(state.key, reference);
+    const built = buildTrackModel(positions, reference, startFinishRef.current);
+    if (!built) return;
+    cacheTrackModel(state.key, built);
+    setState({ key: state.key, model: built });
+  }, [cacheKey, state, positions]);
+
+  return state.key === cacheKey ? state.model : null;
+}
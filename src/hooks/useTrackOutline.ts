@@ -0,0 +1,39 @@
+import { useEffect, useState } from 'react';
+import type { CarPosition } from '../lib/database.types';
+import type { TrackSummary } from '../lib/trajectory';
+import { DEFAULT_METERS_PER_UNIT } from '../lib/units';
+import { useTrajectoryWorker } from './useTrajectoryWorker';
+
+const EMPTY_SUMMARY: TrackSummary = {
+  outline: { trackPath: '', bounds: { minX: 0, maxX: 0, minY: 0, maxY: 0 }, points: [] },
+  frames: []
+};
+
+// Contorno aproximado do circuito e quadros do replay a partir das posições carregadas da sessão.
+// O contorno acumula entre os blocos carregados, para que ele não dependa apenas da janela de
+// tempo em memória; o cálculo roda no worker de trajetórias.
+export function useTrackOutline(sessionId: number | null, positions: CarPosition[]): TrackSummary {
+  // A escala só afeta a cinemática, que o contorno não usa
+  const { client, version } = useTrajectoryWorker(sessionId, positions, DEFAULT_METERS_PER_UNIT);
+  const [summary, setSummary] = useState<TrackSummary>(EMPTY_SUMMARY);
+
+  // Nova sessão: contorno recomeçado
+  useEffect(() => {
+    setSummary(EMPTY_SUMMARY);
+  }, [sessionId]);
+
+  useEffect(() => {
+    if (!client) return;
+    let cancelled = false;
+    client.summary()
+      .then(next => {
+        if (next && !cancelled) setSummary(next);
+      })
+      .catch(error => console.error('Erro ao calcular contorno do circuito:', error));
+    return () => {
+      cancelled = true;
+    };
+  }, [client, version]);
+
+  return summary;
+}
@@ -0,0 +1,47 @@
+import { useEffect, useState } from 'react';
+import type { CarPosition } from '../lib/database.types';
+import type { TrackModel } from '../lib/trackModel';
+import type { TrajectoryQuery, TrajectoryResult } from '../lib/trajectory';
+import { useTrajectoryWorker } from './useTrajectoryWorker';
+
+// Trajetórias, mapa de calor e estatísticas calculados no worker. O resultado anterior
+// continua disponível enquanto uma consulta nova (dados, pilotos ou janela) é processada;
+// `query` null suspende as consultas.
+export function useTrajectoryAnalytics(
+  sessionId: number | null,
+  positions: CarPosition[],
+  metersPerUnit: number,
+  trackModel: TrackModel | null,
+  query: TrajectoryQuery | null
+) {
+  const { client, version } = useTrajectoryWorker(sessionId, positions, metersPerUnit, trackModel);
+  const [result, setResult] = useState<TrajectoryResult | null>(null);
+  const [isComputing, setIsComputing] = useState(false);
+
+  // Nova sessão: resultado da anterior descartado
+  useEffect(() => {
+    setResult(null);
+  }, [sessionId]);
+
+  useEffect(() => {
+    if (!client || !query) return;
+    let cancelled = false;
+    setIsComputing(true);
+    client.query(query)
+      .then(next => {
+        // null = cancelada no worker por uma consulta mais recente
+        if (!next || cancelled) return;
+        setResult(next);
+        setIsComputing(false);
+      })
+      .catch(error => {
+        console.error('Erro ao calcular trajetórias:', error);
+        if (!cancelled) setIsComputing(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [client, version, query]);
+
+  return { result, isComputing };
+}
@@ -0,0 +1,120 @@
+import { useEffect, useRef, useState } from 'react';
+import type { CarPosition } from '../lib/database.types';
+import { toMillis } from '../lib/clock';
+import type { TrackModel } from '../lib/trackModel';
+import type {
+  TrackSummary,
+  TrajectoryQuery,
+  TrajectoryRequest,
+  TrajectoryResponse,
+  TrajectoryResult
+} from '../lib/trajectory';
+
+// Cliente do worker: consultas viram promessas, resolvidas com null quando canceladas
+export type TrajectoryClient = {
+  send: (request: Extract<TrajectoryRequest, { type: 'reset' | 'model' | 'append' | 'retain' }>) => void;
+  query: (query: TrajectoryQuery) => Promise<TrajectoryResult | null>;
+  summary: () => Promise<TrackSummary | null>;
+  terminate: () => void;
+};
+
+function createTrajectoryClient(): TrajectoryClient {
+  const worker = new Worker(new URL('../workers/trajectory.worker.ts', import.meta.url), { type: 'module' });
+  const pending = new Map<number, (response: TrajectoryResponse) => void>();
+  let nextId = 1;
+
+  worker.addEventListener('message', (event: MessageEvent<TrajectoryResponse>) => {
+    const resolve = pending.get(event.data.id);
+    pending.delete(event.data.id);
+    resolve?.(event.data);
+  });
+  worker.addEventListener('error', error => console.error('Erro no worker de trajetórias:', error));
+
+  const request = (message: (id: number) => TrajectoryRequest) =>
+    new Promise<TrajectoryResponse>(resolve => {
+      const id = nextId++;
+      pending.set(id, resolve);
+      worker.postMessage(message(id));
+    });
+
+  return {
+    send: message => worker.postMessage(message),
+    query: query => request(id => ({ type: 'query', id, query }))
+      .then(response => response.type === 'result' ? response.result : null),
+    summary: () => request(id => ({ type: 'summary', id }))
+      .then(response => response.type === 'summary' ? response.summary : null),
+    terminate: () => {
+      worker.terminate();
+      pending.clear();
+    }
+  };
+}
+
+const positionKey = (pos: CarPosition) => `${pos.driver_number}|${pos.timestamp}`;
+
+// Intervalos sem posições maiores que isto separam trechos carregados (blocos não contíguos)
+const RANGE_GAP_MS = 5_000;
+
+// Trechos contínuos cobertos por uma lista de posições em ordem cronológica
+function getLoadedRanges(positions: CarPosition[]) {
+  const ranges: { from: number; to: number }[] = [];
+  positions.forEach(pos => {
+    const time = toMillis(pos.timestamp);
+    const last = ranges[ranges.length - 1];
+    if (last && time - last.to <= RANGE_GAP_MS) {
+      last.to = Math.max(last.to, time);
+    } else {
+      ranges.push({ from: time, to: time });
+    }
+  });
+  return ranges;
+}
+
+// Worker de trajetórias sincronizado com as posições carregadas: envia só as posições novas,
+// descarta as que saíram da memória e recomeça ao trocar de sessão ou de escala.
+// `version` muda a cada atualização dos dados, para que os consumidores refaçam as consultas.
+export function useTrajectoryWorker(
+  sessionId: number | null,
+  positions: CarPosition[],
+  metersPerUnit: number,
+  trackModel: TrackModel | null = null
+) {
+  const [client, setClient] = useState<TrajectoryClient | null>(null);
+  const [version, setVersion] = useState(0);
+  // Chaves (piloto|timestamp) já enviadas ao worker
+  const sent = useRef(new Set<string>());
+
+  useEffect(() => {
+    const created = createTrajectoryClient();
+    setClient(created);
+    return () => created.terminate();
+  }, []);
+
+  useEffect(() => {
+    if (!client) return;
+    client.send({ type: 'reset', metersPerUnit });
+    sent.current = new Set();
+    setVersion(v => v + 1);
+  }, [client, sessionId, metersPerUnit]);
+
+  useEffect(() => {
+    if (!client) return;
+    client.send({ type: 'model', model: trackModel });
+    setVersion(v => v + 1);
+  }, [client, trackModel]);
+
+  useEffect(() => {
+    if (!client) return;
+    const incoming = positions.filter(pos => !sent.current.has(positionKey(pos)));
+    const current = new Set(positions.map(positionKey));
+    const dropped = sent.current.size + incoming.length > current.size;
+    if (incoming.length === 0 && !dropped) return;
+
+    if (incoming.length > 0) client.send({ type: 'append', positions: incoming });
+    if (dropped) client.send({ type: 'retain', ranges: getLoadedRanges(positions) });
+    sent.current = current;
+    setVersion(v => v + 1);
+  }, [client, positions, sessionId, metersPerUnit]);
+
+  return { client, version };
+}
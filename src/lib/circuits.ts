@@ -0,0 +1,274 @@
+// Registro dos circuitos com arte oficial em public/ e calibração telemetria → SVG
+import type { Session } from './database.types';
+
+// Transformação afim (semelhança) das coordenadas x/y da telemetria para o espaço do SVG:
+// espelha o eixo y (opcional), gira, escala e desloca, nesta ordem
+export type CircuitCalibration = {
+  // Graus, sentido anti-horário no espaço da telemetria
+  rotation: number;
+  scale: number;
+  offsetX: number;
+  offsetY: number;
+  // A telemetria usa y para cima; o SVG, y para baixo
+  flipY: boolean;
+};
+
+export type CircuitDefinition = {
+  key: string;
+  name: string;
+  // Comprimento oficial da volta, em metros (calibra a escala da telemetria)
+  lapLength: number;
+  // Caminho em public/
+  svg: string;
+  // Nomes de circuito/GP usados nas sessões (comparados sem acento e caixa)
+  aliases: string[];
+  // null = ainda não calibrado (use a ferramenta em /calibration)
+  calibration: CircuitCalibration | null;
+  // Fim dos setores 1 e 2, em fração da volta a partir da linha de chegada do modelo da pista;
+  // ausente = três setores iguais
+  sectors?: number[];
+  // Polígono da pit lane em coordenadas da telemetria; ausente = estimada pelo afastamento
+  // da linha de referência perto da linha de chegada
+  pitLane?: TelemetryPoint[];
+  // Ponto da linha de chegada sobre a pista, em coordenadas da telemetria; ausente = ponto
+  // mais rápido da volta de referência, normalmente na reta principal
+  startFinish?: TelemetryPoint;
+};
+
+export type TelemetryPoint = { x: number; y: number };
+
+// viewBox do desenho
+export type ArtworkSize = { x: number; y: number; width: number; height: number };
+
+export type CalibrationPair = {
+  telemetry: TelemetryPoint;
+  svg: { x: number; y: number };
+};
+
+export const CIRCUITS: CircuitDefinition[] = [
+  { key: 'sakhir', name: 'Bahrain International Circuit', lapLength: 5412, svg: 'MSS_Circuit_F12021_BahrainInternationalCircuit_v2.svg', aliases: ['sakhir', 'bahrain grand prix'], calibration: null },
+  { key: 'jeddah', name: 'Jeddah Corniche Circuit', lapLength: 6174, svg: 'MSS_Circuit_F12021_SaudiArabia.svg', aliases: ['jeddah', 'saudi arabian grand prix'], calibration: null },
+  { key: 'melbourne', name: 'Albert Park', lapLength: 5278, svg: 'MSS_Circuit_F12022_Melbourne.svg', aliases: ['melbourne', 'australian grand prix'], calibration: null },
+  { key: 'suzuka', name: 'Suzuka', lapLength: 5807, svg: 'MSS_Circuit_F12021_Suzuka.svg', aliases: ['suzuka', 'japanese grand prix'], calibration: null },
+  { key: 'shanghai', name: 'Shanghai International Circuit', lapLength: 5451, svg: 'MSS_Circuit_F12022_ShanghaiInternational.svg', aliases: ['shanghai', 'chinese grand prix'], calibration: null },
+  { key: 'miami', name: 'Miami International Autodrome', lapLength: 5412, svg: 'MSS_Circuit_F12022_MiamiInternationalAutodrome_v1.svg', aliases: ['miami', 'miami grand prix'], calibration: null },
+  { key: 'imola', name: 'Autodromo Enzo e Dino Ferrari', lapLength: 4909, svg: 'MSS_Circuit_F12021_AutodromoEnzoeDinoFerrari_v2.svg', aliases: ['imola', 'emilia romagna grand prix'], calibration: null },
+  { key: 'monaco', name: 'Circuit de Monaco', lapLength: 3337, svg: 'MSS_Circuit_Default_Circuit de Monaco.svg', aliases: ['monte carlo', 'monaco', 'monaco grand prix'], calibration: null },
+  { key: 'montreal', name: 'Circuit Gilles Villeneuve', lapLength: 4361, svg: 'MSS_Circuit_F12022_GillesVilleneuve.svg', aliases: ['montreal', 'canadian grand prix'], calibration: null },
+  { key: 'catalunya', name: 'Circuit de Barcelona-Catalunya', lapLength: 4657, svg: 'MSS_Circuit_Default_CatalunyaCircuit.svg', aliases: ['catalunya', 'barcelona', 'spanish grand prix'], calibration: null },
+  { key: 'spielberg', name: 'Red Bull Ring', lapLength: 4318, svg: 'MSS_Circuit_Default_CircuitRedBullRing.svg', aliases: ['spielberg', 'red bull ring', 'austrian grand prix'], calibration: null },
+  { key: 'hungaroring', name: 'Hungaroring', lapLength: 4381, svg: 'MSS_Circuit_Default_Hungaroring.svg', aliases: ['hungaroring', 'hungarian grand prix'], calibration: null },
+  { key: 'spa', name: 'Circuit de Spa-Francorchamps', lapLength: 7004, svg: 'MSS_Circuit_Default_CircuitdeSpaFrancorchamps.svg', aliases: ['spa-francorchamps', 'spa', 'belgian grand prix'], calibration: null },
+  { key: 'zandvoort', name: 'Circuit Zandvoort', lapLength: 4259, svg: 'MSS_Circuit_Default_CircuitZandvoort.svg', aliases: ['zandvoort', 'dutch grand prix'], calibration: null },
+  { key: 'monza', name: 'Autodromo Nazionale Monza', lapLength: 5793, svg: 'MSS_Circuit_Default_Monza.svg', aliases: ['monza', 'italian grand prix'], calibration: null },
+  { key: 'baku', name: 'Baku City Circuit', lapLength: 6003, svg: 'MSS_Circuit_F12021_BakuCityCircuit_v2.svg', aliases: ['baku', 'azerbaijan grand prix'], calibration: null },
+  { key: 'singapore', name: 'Marina Bay Street Circuit', lapLength: 4940, svg: 'MSS_Circuit_F12022_MarinaBay.svg', aliases: ['singapore', 'marina bay', 'singapore grand prix'], calibration: null },
+  { key: 'austin', name: 'Circuit of the Americas', lapLength: 5513, svg: 'MSS_Circuit_MotoGP2021_COTA.svg', aliases: ['austin', 'united states grand prix'], calibration: null },
+  { key: 'interlagos', name: 'Autódromo José Carlos Pace', lapLength: 4309, svg: 'MSS_Circuit_F12021_AutodromoJoseCarlosPace.svg', aliases: ['interlagos', 'sao paulo grand prix', 'brazilian grand prix'], calibration: null },
+  { key: 'las_vegas', name: 'Las Vegas Strip Circuit', lapLength: 6201, svg: 'MSS_Circuit_F12023_LasVegasStreetCircuit.svg', aliases: ['las vegas', 'las vegas grand prix'], calibration: null },
+  { key: 'lusail', name: 'Lusail International Circuit', lapLength: 5419, svg: 'MSS_Circuit_MotoGP2021_LosailInternationalCircuit.svg', aliases: ['lusail', 'qatar grand prix'], calibration: null }
+];
+
+const normalize = (value: string) =>
+  value.normalize('NFD').replace(/[\u0300-\u036f]/g, '').trim().toLowerCase();
+
+// Circuito da sessão pelo nome do circuito ou, na falta dele, do GP
+export function findCircuit(session: Pick<Session, 'circuit_name' | 'meeting_name'> | undefined): CircuitDefinition | null {
+  if (!session) return null;
+  const names = [session.circuit_name, session.meeting_name].filter(Boolean).map(normalize);
+  return CIRCUITS.find(circuit => circuit.aliases.some(alias => names.includes(alias))) ?? null;
+}
+
+export const getCircuitArtworkUrl = (circuit: CircuitDefinition) =>
+  `/${encodeURI(circuit.svg)}`;
+
+// Dimensões do desenho, lidas do viewBox do SVG
+const artworkSizes = new Map<string, Promise<ArtworkSize>>();
+
+export function loadCircuitArtwork(circuit: CircuitDefinition): Promise<ArtworkSize> {
+  const url = getCircuitArtworkUrl(circuit);
+  if (!artworkSizes.has(url)) {
+    const size = fetch(url)
+      .then(response => {
+        if (!response.ok) throw new Error(`Falha ao carregar ${url}: ${response.status}`);
+        return response.text();
+      })
+      .then(text => {
+        const viewBox = text.match(/viewBox="([^"]+)"/)?.[1].trim().split(/[\s,]+/).map(Number);
+        if (!viewBox || viewBox.length !== 4 || viewBox.some(Number.isNaN)) {
+          throw new Error(`SVG sem viewBox: ${url}`);
+        }
+        return { x: viewBox[0], y: viewBox[1], width: viewBox[2], height: viewBox[3] };
+      });
+    size.catch(() => artworkSizes.delete(url));
+    artworkSizes.set(url, size);
+  }
+  return artworkSizes.get(url)!;
+}
+
+export function toSvgPoint(calibration: CircuitCalibration, x: number, y: number) {
+  const angle = (calibration.rotation * Math.PI) / 180;
+  const cos = Math.cos(angle);
+  const sin = Math.sin(angle);
+  const flippedY = calibration.flipY ? -y : y;
+  return {
+    x: calibration.scale * (cos * x - sin * flippedY) + calibration.offsetX,
+    y: calibration.scale * (sin * x + cos * flippedY) + calibration.offsetY
+  };
+}
+
+export function toTelemetryPoint(calibration: CircuitCalibration, x: number, y: number) {
+  const angle = (calibration.rotation * Math.PI) / 180;
+  const cos = Math.cos(angle);
+  const sin = Math.sin(angle);
+  const dx = (x - calibration.offsetX) / calibration.scale;
+  const dy = (y - calibration.offsetY) / calibration.scale;
+  const flippedY = -sin * dx + cos * dy;
+  return {
+    x: cos * dx + sin * dy,
+    y: calibration.flipY ? -flippedY : flippedY
+  };
+}
+
+// Ponto de partida: sem rotação, centralizado e ocupando 90% do desenho
+export function fitToBounds(
+  bounds: { minX: number; maxX: number; minY: number; maxY: number },
+  artwork: ArtworkSize
+): CircuitCalibration {
+  const width = Math.max(1, bounds.maxX - bounds.minX);
+  const height = Math.max(1, bounds.maxY - bounds.minY);
+  const scale = 0.9 * Math.min(artwork.width / width, artwork.height / height);
+  const centerX = (bounds.minX + bounds.maxX) / 2;
+  const centerY = (bounds.minY + bounds.maxY) / 2;
+  return {
+    rotation: 0,
+    scale,
+    offsetX: artwork.x + artwork.width / 2 - scale * centerX,
+    offsetY: artwork.y + artwork.height / 2 + scale * centerY,
+    flipY: true
+  };
+}
+
+// Mínimos quadrados de uma semelhança (rotação + escala uniforme + deslocamento)
+const fitSimilarity = (pairs: CalibrationPair[], flipY: boolean): { calibration: CircuitCalibration; error: number } => {
+  const source = pairs.map(pair => ({ x: pair.telemetry.x, y: flipY ? -pair.telemetry.y : pair.telemetry.y }));
+  const target = pairs.map(pair => pair.svg);
+  const mean = (points: { x: number; y: number }[]) => ({
+    x: points.reduce((sum, p) => sum + p.x, 0) / points.length,
+    y: points.reduce((sum, p) => sum + p.y, 0) / points.length
+  });
+  const sourceMean = mean(source);
+  const targetMean = mean(target);
+
+  let dot = 0;
+  let cross = 0;
+  let norm = 0;
+  source.forEach((p, i) => {
+    const px = p.x - sourceMean.x;
+    const py = p.y - sourceMean.y;
+    const qx = target[i].x - targetMean.x;
+    const qy = target[i].y - targetMean.y;
+    dot += px * qx + py * qy;
+    cross += px * qy - py * qx;
+    norm += px * px + py * py;
+  });
+
+  const angle = Math.atan2(cross, dot);
+  const scale = norm > 0 ? Math.hypot(dot, cross) / norm : 1;
+  const cos = Math.cos(angle);
+  const sin = Math.sin(angle);
+  const calibration: CircuitCalibration = {
+    rotation: (angle * 180) / Math.PI,
+    scale,
+    offsetX: targetMean.x - scale * (cos * sourceMean.x - sin * sourceMean.y),
+    offsetY: targetMean.y - scale * (sin * sourceMean.x + cos * sourceMean.y),
+    flipY
+  };
+
+  const error = pairs.reduce((sum, pair) => {
+    const projected = toSvgPoint(calibration, pair.telemetry.x, pair.telemetry.y);
+    return sum + Math.hypot(projected.x - pair.svg.x, projected.y - pair.svg.y);
+  }, 0) / pairs.length;
+
+  return { calibration, error };
+};
+
+// Ajusta a calibração a pares de pontos correspondentes (mínimo 2), escolhendo
+// automaticamente se o eixo y precisa ser espelhado (com 3 ou mais pares)
+export function fitCalibration(pairs: CalibrationPair[]) {
+  if (pairs.length < 2) {
+    throw new Error('São necessários ao menos 2 pares de pontos');
+  }
+  const flipped = fitSimilarity(pairs, true);
+  const direct = fitSimilarity(pairs, false);
+  return direct.error < flipped.error - 1e-6 ? direct : flipped;
+}
+
+// Ajustes feitos nas ferramentas ficam no navegador, por circuito, até entrarem no registro
+const CALIBRATIONS_KEY = 'circuit-calibrations';
+const SECTORS_KEY = 'circuit-sectors';
+const PIT_LANES_KEY = 'circuit-pit-lanes';
+const START_FINISH_KEY = 'circuit-start-finish';
+
+const readStored = <T>(storageKey: string): Record<string, T> => {
+  try {
+    return JSON.parse(localStorage.getItem(storageKey) ?? '{}');
+  } catch {
+    return {};
+  }
+};
+
+// Grava (ou remove, com null) o ajuste de um circuito e avisa quem exibe o circuito
+const writeStored = <T>(storageKey: string, circuit: CircuitDefinition, value: T | null) => {
+  const stored = readStored<T>(storageKey);
+  if (value) {
+    stored[circuit.key] = value;
+  } else {
+    delete stored[circuit.key];
+  }
+  localStorage.setItem(storageKey, JSON.stringify(stored));
+  window.dispatchEvent(new Event('app:circuit-settings'));
+};
+
+export function getCircuitCalibration(circuit: CircuitDefinition): CircuitCalibration | null {
+  return readStored<CircuitCalibration>(CALIBRATIONS_KEY)[circuit.key] ?? circuit.calibration;
+}
+
+export function saveCircuitCalibration(circuit: CircuitDefinition, calibration: CircuitCalibration | null) {
+  writeStored(CALIBRATIONS_KEY, circuit, calibration);
+}
+
+export const DEFAULT_SECTORS = [1 / 3, 2 / 3];
+
+export function getCircuitSectors(circuit: CircuitDefinition | null): number[] {
+  if (!circuit) return DEFAULT_SECTORS;
+  return readStored<number[]>(SECTORS_KEY)[circuit.key] ?? circuit.sectors ?? DEFAULT_SECTORS;
+}
+
+export function saveCircuitSectors(circuit: CircuitDefinition, sectors: number[] | null) {
+  if (sectors && sectors.some((boundary, i) => boundary <= 0 || boundary >= 1 || boundary <= (sectors[i - 1] ?? 0))) {
+    throw new Error('Limites de setor devem ser crescentes e entre 0 e 1');
+  }
+  writeStored(SECTORS_KEY, circuit, sectors);
+}
+
+export function getCircuitPitLane(circuit: CircuitDefinition | null): TelemetryPoint[] | null {
+  if (!circuit) return null;
+  return readStored<TelemetryPoint[]>(PIT_LANES_KEY)[circuit.key] ?? circuit.pitLane ?? null;
+}
+
+export function saveCircuitPitLane(circuit: CircuitDefinition, pitLane: TelemetryPoint[] | null) {
+  if (pitLane && pitLane.length < 3) {
+    throw new Error('A pit lane precisa de ao menos 3 vértices');
+  }
+  writeStored(PIT_LANES_KEY, circuit, pitLane);
+}
+
+export function getCircuitStartFinish(circuit: CircuitDefinition | null): TelemetryPoint | null {
+  if (!circuit) return null;
+  return readStored<TelemetryPoint>(START_FINISH_KEY)[circuit.key] ?? circuit.startFinish ?? null;
+}
+
+export function saveCircuitStartFinish(circuit: CircuitDefinition, startFinish: TelemetryPoint | null) {
+  writeStored(START_FINISH_KEY, circuit, startFinish);
+}
@@ -0,0 +1,66 @@
+// Utilitários de tempo compartilhados pelo relógio de sessão
+
+export type TimestampedRow = { timestamp: string };
+
+export const toMillis = (timestamp: string) => new Date(timestamp).getTime();
+
+// Índice da última linha com timestamp <= time (linhas ordenadas por timestamp).
+// Retorna -1 quando o tempo é anterior à primeira linha.
+export function findLatestIndex<T extends TimestampedRow>(rows: T[], time: number | null): number {
+  if (time === null || rows.length === 0) return -1;
+
+  let low = 0;
+  let high = rows.length - 1;
+  let result = -1;
+
+  while (low <= high) {
+    const mid = (low + high) >> 1;
+    if (toMillis(rows[mid].timestamp) <= time) {
+      result = mid;
+      low = mid + 1;
+    } else {
+      high = mid - 1;
+    }
+  }
+
+  return result;
+}
+
+// Último instante <= time numa lista ordenada de instantes (null antes do primeiro)
+export function findLatestTime(times: number[], time: number | null): number | null {
+  if (time === null) return null;
+
+  let low = 0;
+  let high = times.length - 1;
+  let result: number | null = null;
+
+  while (low <= high) {
+    const mid = (low + high) >> 1;
+    if (times[mid] <= time) {
+      result = times[mid];
+      low = mid + 1;
+    } else {
+      high = mid - 1;
+    }
+  }
+
+  return result;
+}
+
+// Intervalo [início, fim] coberto por uma lista ordenada de linhas
+export function getRowsRange<T extends TimestampedRow>(rows: T[]) {
+  if (rows.length === 0) return null;
+  return {
+    start: toMillis(rows[0].timestamp),
+    end: toMillis(rows[rows.length - 1].timestamp)
+  };
+}
+
+export const formatClockTime = (time: number | null) => {
+  if (time === null) return '--:--:--';
+  return new Date(time).toLocaleTimeString('pt-BR', {
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit'
+  });
+};
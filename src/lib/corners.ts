@@ -0,0 +1,212 @@
+// Zonas de frenagem e tração a partir da aceleração longitudinal derivada: cada frenagem
+// forte até o ponto de menor velocidade (ápice) e a retomada até a saída em aceleração plena.
+// As curvas são comparadas entre pilotos projetando os ápices na linha de referência.
+import { projectOntoTrack, type TrackModel } from './trackModel';
+
+// Amostra com a cinemática já calculada (ver computeKinematics), em ordem cronológica
+type CornerSample = { x: number; y: number; speed: number | null; acceleration: number | null };
+
+export type CornerEvent = {
+  // Índices das amostras do piloto: início da frenagem, ápice, saída em aceleração plena e
+  // fim da fase de tração (null quando o trecho carregado termina antes)
+  brake: number;
+  apex: number;
+  exit: number | null;
+  tractionEnd: number | null;
+  entrySpeed: number;
+  apexSpeed: number;
+};
+
+// Trecho desenhado sobre a pista
+export type CornerZone = {
+  driverNumber: string;
+  kind: 'braking' | 'traction';
+  // Caminho no formato do atributo `d` do SVG
+  path: string;
+};
+
+export type CornerPass = {
+  // Metros antes do ápice médio da curva em que a frenagem começou
+  brakeDistance: number;
+  apexSpeed: number;
+  entrySpeed: number;
+};
+
+export type CornerSummary = {
+  // Numeração em ordem ao longo da volta (só curvas com frenagem)
+  number: number;
+  // Metros desde a linha de chegada até o ápice médio
+  distance: number;
+  // Ápice médio, em coordenadas da telemetria (rótulo no mapa)
+  x: number;
+  y: number;
+  // Média das passagens de cada piloto
+  drivers: Record<string, CornerPass & { passes: number }>;
+};
+
+export type CornerAnalysis = {
+  zones: CornerZone[];
+  apexes: { driverNumber: string; x: number; y: number; speed: number }[];
+  // Vazio sem linha de referência da pista
+  corners: CornerSummary[];
+};
+
+// g: desaceleração que caracteriza frenagem e aceleração da saída em aceleração plena
+const BRAKING_G = 1;
+const THROTTLE_G = 0.3;
+// Perda mínima de velocidade (km/h) para contar uma curva
+const MIN_SPEED_DROP = 20;
+// Amostras sem frenagem toleradas dentro de uma mesma frenagem (ruído da aceleração)
+const BRAKING_GAP_SAMPLES = 2;
+// Ápices de pilotos diferentes mais próximos que isto (m) são a mesma curva
+const CORNER_MERGE_METERS = 120;
+
+const isBraking = (s: CornerSample) => s.acceleration !== null && s.acceleration <= -BRAKING_G;
+const isAccelerating = (s: CornerSample) => s.acceleration !== null && s.acceleration >= THROTTLE_G;
+
+// Frenagens, ápices e saídas de um piloto
+export function detectCornerEvents(samples: CornerSample[]): CornerEvent[] {
+  const events: CornerEvent[] = [];
+  let i = 0;
+
+  while (i < samples.length) {
+    if (!isBraking(samples[i])) {
+      i++;
+      continue;
+    }
+
+    // Frenagem: até a última amostra de frenagem, tolerando pequenas interrupções
+    const brake = i;
+    let end = i;
+    for (let j = i + 1; j < samples.length && j - end <= BRAKING_GAP_SAMPLES + 1; j++) {
+      if (isBraking(samples[j])) end = j;
+    }
+
+    // Ápice: menor velocidade entre o início da frenagem e a retomada da aceleração
+    let apex = end;
+    let k = brake;
+    for (; k < samples.length; k++) {
+      if (k > end && (isAccelerating(samples[k]) || isBraking(samples[k]))) break;
+      const speed = samples[k].speed;
+      if (speed !== null && speed < (samples[apex].speed ?? Infinity)) apex = k;
+    }
+    const exit = k < samples.length && isAccelerating(samples[k]) ? k : null;
+
+    // Tração: enquanto a aceleração plena continuar
+    let tractionEnd: number | null = null;
+    if (exit !== null) {
+      tractionEnd = exit;
+      while (tractionEnd + 1 < samples.length && isAccelerating(samples[tractionEnd + 1])) tractionEnd++;
+    }
+
+    const entrySpeed = samples.slice(brake, apex + 1).reduce((max, s) => Math.max(max, s.speed ?? 0), 0);
+    const apexSpeed = samples[apex].speed;
+    if (apexSpeed !== null && entrySpeed - apexSpeed >= MIN_SPEED_DROP) {
+      events.push({ brake, apex, exit, tractionEnd, entrySpeed, apexSpeed });
+    }
+    i = Math.max(k, end + 1);
+  }
+
+  return events;
+}
+
+const toPath = (samples: CornerSample[], from: number, to: number) =>
+  `M ${samples.slice(from, to + 1).map(s => `${s.x} ${s.y}`).join(' L ')}`;
+
+// Trechos de frenagem (início da frenagem ao ápice) e tração (saída ao fim da aceleração plena)
+export function buildCornerZones(driverNumber: string, samples: CornerSample[], events: CornerEvent[]): CornerZone[] {
+  return events.flatMap(event => {
+    const zones: CornerZone[] = [{ driverNumber, kind: 'braking', path: toPath(samples, event.brake, event.apex) }];
+    if (event.exit !== null && event.tractionEnd !== null && event.tractionEnd > event.exit) {
+      zones.push({ driverNumber, kind: 'traction', path: toPath(samples, event.exit, event.tractionEnd) });
+    }
+    return zones;
+  });
+}
+
+type ProjectedEvent = {
+  driverNumber: string;
+  // Metros desde a linha de chegada
+  apexDistance: number;
+  brakeDistance: number;
+  x: number;
+  y: number;
+  apexSpeed: number;
+  entrySpeed: number;
+};
+
+// Distância percorrida de `from` até `to` ao longo da volta (m)
+const forwardDistance = (from: number, to: number, length: number) => ((to - from) % length + length) % length;
+
+// Agrupa os ápices de todos os pilotos por posição na pista e resume cada curva
+export function summarizeCorners(
+  events: Record<string, { samples: CornerSample[]; events: CornerEvent[] }>,
+  model: TrackModel,
+  metersPerUnit: number
+): CornerSummary[] {
+  const length = model.length * metersPerUnit;
+  const projected: ProjectedEvent[] = Object.entries(events).flatMap(([driverNumber, driver]) =>
+    driver.events.map(event => {
+      const apex = driver.samples[event.apex];
+      const brake = driver.samples[event.brake];
+      const apexProjection = projectOntoTrack(model, apex.x, apex.y);
+      const brakeProjection = projectOntoTrack(model, brake.x, brake.y, apexProjection.index);
+      return {
+        driverNumber,
+        apexDistance: apexProjection.distance * metersPerUnit,
+        brakeDistance: brakeProjection.distance * metersPerUnit,
+        x: apex.x,
+        y: apex.y,
+        apexSpeed: event.apexSpeed,
+        entrySpeed: event.entrySpeed
+      };
+    })
+  );
+  if (projected.length === 0) return [];
+
+  // Grupos de ápices consecutivos ao longo da volta
+  projected.sort((a, b) => a.apexDistance - b.apexDistance);
+  const groups: ProjectedEvent[][] = [[projected[0]]];
+  projected.slice(1).forEach(event => {
+    const group = groups[groups.length - 1];
+    if (event.apexDistance - group[group.length - 1].apexDistance <= CORNER_MERGE_METERS) {
+      group.push(event);
+    } else {
+      groups.push([event]);
+    }
+  });
+  // A primeira e a última curva podem ser a mesma, dividida pela linha de chegada
+  if (groups.length > 1) {
+    const first = groups[0];
+    const last = groups[groups.length - 1];
+    if (first[0].apexDistance + length - last[last.length - 1].apexDistance <= CORNER_MERGE_METERS) {
+      groups[0] = [...groups.pop()!.map(e => ({ ...e, apexDistance: e.apexDistance - length })), ...first];
+    }
+  }
+
+  return groups.map((group, index) => {
+    const mean = (values: number[]) => values.reduce((sum, v) => sum + v, 0) / values.length;
+    const distance = mean(group.map(e => e.apexDistance));
+    const passes: Record<string, CornerPass[]> = {};
+    group.forEach(e => {
+      (passes[e.driverNumber] ??= []).push({
+        brakeDistance: forwardDistance(e.brakeDistance, distance, length),
+        apexSpeed: e.apexSpeed,
+        entrySpeed: e.entrySpeed
+      });
+    });
+
+    return {
+      number: index + 1,
+      distance: (distance + length) % length,
+      x: mean(group.map(e => e.x)),
+      y: mean(group.map(e => e.y)),
+      drivers: Object.fromEntries(Object.entries(passes).map(([driverNumber, list]) => [driverNumber, {
+        brakeDistance: mean(list.map(p => p.brakeDistance)),
+        apexSpeed: mean(list.map(p => p.apexSpeed)),
+        entrySpeed: mean(list.map(p => p.entrySpeed)),
+        passes: list.length
+      }]))
+    };
+  });
+}
@@ -0,0 +1,205 @@
+import { findLatestIndex, toMillis } from '../clock';
+import type { Session, TableName, TableRow } from '../database.types';
+import type { DataSource, RowChange, TableQuery } from './types';
+
+// Manifesto em `${baseUrl}/index.json`:
+// {
+//   "sessions": [{
+//     "session_id": 233,
+//     "live_from": "2024-05-26T13:10:00Z",
+//     "info": { "year": 2024, "meeting_name": "Monaco Grand Prix", "circuit_name": "Monaco", ... },
+//     "files": { "weather_data": "233/weather_data.ndjson", "car_positions": "233/car_positions.json" }
+//   }]
+// }
+// `live_from` é opcional: quando presente, as consultas só enxergam linhas até o instante
+// simulado e as seguintes chegam como INSERTs pelo subscribe, no ritmo do relógio real.
+export type FixtureSession = {
+  session_id: number;
+  live_from?: string;
+  // Linha da tabela `sessions` (catálogo) para esta sessão
+  info?: Partial<Omit<Session, 'id'>>;
+  files: Partial<Record<TableName, string>>;
+};
+
+export type FixtureManifest = { sessions: FixtureSession[] };
+
+export type FixtureSourceOptions = {
+  baseUrl: string;
+  // Permite carregar arquivos do disco em testes/scripts
+  fetchText?: (url: string) => Promise<string>;
+};
+
+// Intervalo de verificação de novas linhas no replay de inserts
+const LIVE_POLL_MS = 250;
+
+const defaultFetchText = async (url: string) => {
+  const response = await fetch(url);
+  if (!response.ok) {
+    throw new Error(`Falha ao carregar fixture ${url}: ${response.status}`);
+  }
+  return response.text();
+};
+
+// JSON (array) ou NDJSON (um objeto por linha), decidido pela extensão
+export function parseFixture<Row>(path: string, text: string): Row[] {
+  if (path.endsWith('.ndjson')) {
+    return text
+      .split('\n')
+      .map(line => line.trim())
+      .filter(Boolean)
+      .map(line => JSON.parse(line) as Row);
+  }
+  return JSON.parse(text) as Row[];
+}
+
+const hasTimestamp = (row: object): row is { timestamp: string } => 'timestamp' in row;
+
+const compareBy = (columns: string[], ascending: boolean) => (a: object, b: object) => {
+  for (const column of columns) {
+    const left = (a as Record<string, unknown>)[column] as string | number;
+    const right = (b as Record<string, unknown>)[column] as string | number;
+    const result = left < right ? -1 : left > right ? 1 : 0;
+    if (result !== 0) return ascending ? result : -result;
+  }
+  return 0;
+};
+
+const sessionInfo = (session: FixtureSession): Session => ({
+  year: session.live_from ? new Date(session.live_from).getFullYear() : 0,
+  meeting_name: '',
+  circuit_name: '',
+  country_name: null,
+  session_type: '',
+  date_start: session.live_from ?? '',
+  ...session.info,
+  id: session.session_id
+});
+
+export function createFixtureSource({ baseUrl, fetchText = defaultFetchText }: FixtureSourceOptions): DataSource {
+  const root = baseUrl.replace(/\/+$/, '');
+  const loadedAt = Date.now();
+  const files = new Map<string, Promise<unknown[]>>();
+  let manifest: Promise<FixtureManifest> | null = null;
+
+  // Sem manifesto o servidor de desenvolvimento responde com o index.html do app, então
+  // falha no download e JSON inválido recebem a mesma explicação
+  const loadManifest = () => {
+    manifest ??= fetchText(`${root}/index.json`)
+      .then(text => JSON.parse(text) as FixtureManifest)
+      .catch(() => {
+        manifest = null;
+        throw new Error(
+          `Nenhuma sessão gravada em ${root}/index.json (modo offline). Grave uma sessão do Supabase ` +
+          'com "npm run record-fixture -- <session_id>" (scripts/record-session.mjs) ou configure ' +
+          'VITE_SUPABASE_URL para usar o banco.'
+        );
+      });
+    return manifest;
+  };
+
+  const findSession = async (sessionId: number) =>
+    (await loadManifest()).sessions.find(session => session.session_id === sessionId);
+
+  const loadTable = <T extends TableName>(session: FixtureSession, table: T): Promise<TableRow<T>[]> => {
+    const path = session.files[table];
+    if (!path) return Promise.resolve([]);
+
+    const url = `${root}/${path}`;
+    if (!files.has(url)) {
+      const rows = fetchText(url).then(text => parseFixture<TableRow<T>>(path, text));
+      rows.catch(() => files.delete(url));
+      files.set(url, rows);
+    }
+    return files.get(url) as Promise<TableRow<T>[]>;
+  };
+
+  // Instante simulado de uma sessão gravada (null = sessão estática)
+  const liveTime = (session: FixtureSession, at = Date.now()) =>
+    session.live_from ? toMillis(session.live_from) + (at - loadedAt) : null;
+
+  const visibleRows = <Row extends object>(session: FixtureSession, rows: Row[]) => {
+    const now = liveTime(session);
+    if (now === null) return rows;
+    return rows.filter(row => !hasTimestamp(row) || toMillis(row.timestamp) <= now);
+  };
+
+  return {
+    kind: 'fixtures',
+
+    async select<T extends TableName>(table: T, query: TableQuery = {}) {
+      const { sessions } = await loadManifest();
+      const targets = query.sessionId === undefined
+        ? sessions
+        : sessions.filter(session => session.session_id === query.sessionId);
+
+      // O catálogo vem do próprio manifesto
+      const rows = table === 'sessions'
+        ? targets.map(session => sessionInfo(session) as TableRow<T>)
+        : (await Promise.all(
+          targets.map(async session => visibleRows(session, await loadTable(session, table)))
+        )).flat();
+
+      const from = query.timeRange ? toMillis(query.timeRange.from) : -Infinity;
+      const to = query.timeRange ? toMillis(query.timeRange.to) : Infinity;
+      const inRange = query.timeRange
+        ? rows.filter(row => hasTimestamp(row) && toMillis(row.timestamp) >= from && toMillis(row.timestamp) < to)
+        : rows;
+
+      if (query.orderBy) {
+        const { column, thenBy, ascending } = query.orderBy;
+        inRange.sort(compareBy(thenBy ? [column, thenBy] : [column], ascending));
+      }
+      const offset = query.offset ?? 0;
+      return query.limit !== undefined ? inRange.slice(offset, offset + query.limit) : inRange.slice(offset);
+    },
+
+    subscribe<T extends TableName>(
+      table: T,
+      sessionId: number,
+      onChange: (change: RowChange<TableRow<T>>) => void
+    ) {
+      // Linhas posteriores a este instante chegam como INSERT; eventuais repetições
+      // com o resultado do select são absorvidas pelo upsert por id dos componentes
+      const subscribedAt = Date.now();
+      let cancelled = false;
+      let interval: ReturnType<typeof setInterval> | undefined;
+
+      (async () => {
+        const session = await findSession(sessionId);
+        if (!session || cancelled) return;
+
+        let emittedUntil = liveTime(session, subscribedAt);
+        if (emittedUntil === null) return;
+
+        const rows = (await loadTable(session, table))
+          .filter(hasTimestamp)
+          .sort(compareBy(['timestamp'], true)) as (TableRow<T> & { timestamp: string })[];
+        if (cancelled) return;
+
+        interval = setInterval(() => {
+          const now = liveTime(session)!;
+          const from = findLatestIndex(rows, emittedUntil) + 1;
+          const to = findLatestIndex(rows, now);
+          for (let i = from; i <= to; i++) {
+            onChange({ eventType: 'INSERT', new: rows[i], old: {} });
+          }
+          emittedUntil = now;
+        }, LIVE_POLL_MS);
+      })().catch(error => console.error('Erro no replay da fixture:', error));
+
+      return () => {
+        cancelled = true;
+        clearInterval(interval);
+      };
+    },
+
+    subscribeBroadcast() {
+      // Canais broadcast não são gravados nas fixtures
+      return () => {};
+    },
+
+    async invoke(functionName: string) {
+      throw new Error(`Função '${functionName}' indisponível no modo offline`);
+    }
+  };
+}
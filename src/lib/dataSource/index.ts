@@ -0,0 +1,13 @@
+import { createFixtureSource } from './fixtureSource';
+import { supabaseSource } from './supabaseSource';
+import type { DataSource } from './types';
+
+export type { DataSource, RowChange, TableQuery, Unsubscribe } from './types';
+
+// VITE_DATA_SOURCE=fixtures força o modo offline; sem projeto Supabase configurado ele é o padrão
+const kind = import.meta.env.VITE_DATA_SOURCE
+  ?? (import.meta.env.VITE_SUPABASE_URL ? 'supabase' : 'fixtures');
+
+export const dataSource: DataSource = kind === 'fixtures'
+  ? createFixtureSource({ baseUrl: import.meta.env.VITE_FIXTURES_URL ?? '/fixtures' })
+  : supabaseSource;
@@ -0,0 +1,79 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { getSupabase } from '../supabase';
+import type { TableName, TableRow } from '../database.types';
+import type { DataSource, RowChange, TableQuery } from './types';
+
+// As operações genéricas por nome de tabela usam o cliente sem o schema tipado;
+// os tipos de retorno são garantidos pela interface DataSource
+const untypedClient = () => getSupabase() as unknown as SupabaseClient;
+
+export const supabaseSource: DataSource = {
+  kind: 'supabase',
+
+  async select<T extends TableName>(table: T, query: TableQuery = {}) {
+    let request = untypedClient().from(table).select(query.columns ?? '*');
+    if (query.sessionId !== undefined) {
+      request = request.eq('session_id', query.sessionId);
+    }
+    if (query.timeRange) {
+      request = request.gte('timestamp', query.timeRange.from).lt('timestamp', query.timeRange.to);
+    }
+    if (query.orderBy) {
+      request = request.order(query.orderBy.column, { ascending: query.orderBy.ascending });
+      if (query.orderBy.thenBy) {
+        request = request.order(query.orderBy.thenBy, { ascending: query.orderBy.ascending });
+      }
+    }
+    if (query.limit !== undefined) {
+      const offset = query.offset ?? 0;
+      request = request.range(offset, offset + query.limit - 1);
+    }
+
+    const { data, error } = await request;
+    if (error) throw error;
+    return (data ?? []) as unknown as TableRow<T>[];
+  },
+
+  subscribe<T extends TableName>(
+    table: T,
+    sessionId: number,
+    onChange: (change: RowChange<TableRow<T>>) => void
+  ) {
+    const supabase = untypedClient();
+    const channel = supabase
+      .channel(`public:${table}`)
+      .on(
+        'postgres_changes',
+        {
+          schema: 'public',
+          table,
+          event: '*',
+          filter: `session_id=eq.${sessionId}`
+        },
+        ({ eventType, new: newRow, old: oldRow }) => {
+          onChange({ eventType, new: newRow, old: oldRow } as RowChange<TableRow<T>>);
+        }
+      )
+      .subscribe();
+
+    return () => { supabase.removeChannel(channel); };
+  },
+
+  subscribeBroadcast<T>(channelName: string, onMessage: (payload: T) => void) {
+    const supabase = getSupabase();
+    const channel = supabase
+      .channel(channelName)
+      .on('broadcast', { event: '*' }, (payload) => {
+        onMessage(payload as T);
+      })
+      .subscribe();
+
+    return () => { supabase.removeChannel(channel); };
+  },
+
+  async invoke<T>(functionName: string, body: Record<string, unknown>) {
+    const { data, error } = await getSupabase().functions.invoke<T>(functionName, { body });
+    if (error) throw new Error(error.message);
+    return data as T;
+  }
+};
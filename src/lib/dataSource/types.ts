@@ -0,0 +1,36 @@
+import type { TableName, TableRow } from '../database.types';
+
+export type TableQuery = {
+  sessionId?: number;
+  // Projeção opcional (ex.: 'session_id'); colunas fora dela podem vir ausentes
+  columns?: string;
+  // Intervalo [from, to) sobre a coluna timestamp
+  timeRange?: { from: string; to: string };
+  // `thenBy` desempata linhas com o mesmo valor (ex.: 'id'); sem ele a paginação por
+  // offset pode repetir ou pular linhas empatadas entre páginas
+  orderBy?: { column: string; ascending: boolean; thenBy?: string };
+  offset?: number;
+  limit?: number;
+};
+
+// Mesmo formato do payload 'postgres_changes' do Supabase Realtime
+export type RowChange<Row> = {
+  eventType: 'INSERT' | 'UPDATE' | 'DELETE';
+  new: Row | Record<string, never>;
+  old: Partial<Row>;
+};
+
+export type Unsubscribe = () => void;
+
+// Backend plugável: Supabase em produção, arquivos gravados no modo offline
+export interface DataSource {
+  readonly kind: 'supabase' | 'fixtures';
+  select<T extends TableName>(table: T, query?: TableQuery): Promise<TableRow<T>[]>;
+  subscribe<T extends TableName>(
+    table: T,
+    sessionId: number,
+    onChange: (change: RowChange<TableRow<T>>) => void
+  ): Unsubscribe;
+  subscribeBroadcast<T>(channelName: string, onMessage: (payload: T) => void): Unsubscribe;
+  invoke<T>(functionName: string, body: Record<string, unknown>): Promise<T>;
+}
@@ -0,0 +1,106 @@
+// Tipos das tabelas do Supabase usadas pelo frontend
+
+export type WeatherData = {
+  id: number;
+  timestamp: string;
+  air_temp: number;
+  humidity: number;
+  pressure: number;
+  rainfall: number;
+  track_temp: number;
+  wind_speed: number;
+  wind_direction: number;
+  session_id: number;
+};
+
+export type RaceControlMessage = {
+  id: number;
+  session_id: number;
+  timestamp: string;
+  utc_time: string | null;
+  category: string | null;
+  message: string | null;
+  flag: string | null;
+  scope: string | null;
+  sector: number | null;
+  created_at: string;
+  updated_at: string;
+};
+
+export type TeamRadioMessage = {
+  id: number;
+  session_id: number;
+  timestamp: string;
+  utc_time: string | null;
+  driver_number: string;
+  audio_path: string;
+  transcript?: string | null;
+  transcript_status?: 'pending' | 'completed' | 'error' | null;
+  created_at: string;
+  updated_at: string;
+};
+
+export type CarPosition = {
+  id: number;
+  session_id: number;
+  driver_number: string;
+  x_coord: number | null;
+  y_coord: number | null;
+  z_coord: number | null;
+  timestamp: string;
+  created_at: string;
+  updated_at: string;
+};
+
+export type SessionDriver = {
+  session_id: number;
+  driver_number: string;
+  full_name: string;
+  broadcast_name: string;
+  tle: string;
+  team_name: string;
+  team_color: string;
+  initial_position: number;
+};
+
+// Catálogo de sessões (uma linha por sessão do fim de semana)
+export type Session = {
+  id: number;
+  year: number;
+  meeting_name: string;
+  circuit_name: string;
+  country_name: string | null;
+  // Nome livre vindo da fonte (ex.: 'Practice 1', 'Qualifying', 'Race')
+  session_type: string;
+  date_start: string;
+};
+
+type Table<Row> = {
+  Row: Row;
+  Insert: Partial<Row>;
+  Update: Partial<Row>;
+  Relationships: [];
+};
+
+export type Database = {
+  public: {
+    Tables: {
+      weather_data: Table<WeatherData>;
+      race_control_messages: Table<RaceControlMessage>;
+      team_radio: Table<TeamRadioMessage>;
+      car_positions: Table<CarPosition>;
+      session_drivers: Table<SessionDriver>;
+      sessions: Table<Session>;
+    };
+    Views: { [_ in never]: never };
+    Functions: { [_ in never]: never };
+    Enums: { [_ in never]: never };
+    CompositeTypes: { [_ in never]: never };
+  };
+};
+
+export type TableName = keyof Database['public']['Tables'];
+export type TableRow<T extends TableName> = Database['public']['Tables'][T]['Row'];
+
+// Tabelas com uma linha por instante da sessão
+export type SessionStreamTable = Exclude<TableName, 'session_drivers' | 'sessions'>;
@@ -0,0 +1,215 @@
+// Altimetria da pista a partir de z_coord: altitude média das posições em trechos de
+// comprimento fixo ao longo da linha de referência, com a inclinação e as subidas e descidas
+// comparadas à velocidade e à aceleração derivadas no mesmo trecho
+import { projectOntoTrack, type TrackModel } from './trackModel';
+import type { CornerSummary } from './corners';
+
+type ElevationSample = {
+  x: number;
+  y: number;
+  z: number | null;
+  speed: number | null;
+  acceleration: number | null;
+};
+
+export type ElevationPoint = {
+  // Metros desde a linha de chegada
+  distance: number;
+  // Metros acima do ponto mais baixo da pista
+  elevation: number;
+  // Porcentagem (positivo = subida no sentido da pista)
+  gradient: number;
+  // Médias das amostras no trecho (km/h e g)
+  speed: number | null;
+  acceleration: number | null;
+};
+
+export type ElevationSection = {
+  kind: 'uphill' | 'downhill';
+  // Metros desde a linha de chegada; `from` maior que `to` quando o trecho cruza a linha
+  from: number;
+  to: number;
+  // Desnível (m) e inclinação média (%)
+  change: number;
+  gradient: number;
+  speed: number | null;
+  acceleration: number | null;
+  // Curvas com ápice no trecho
+  corners: number[];
+};
+
+// Trecho da pista colorido pela altitude no mapa
+export type ElevationSegment = {
+  path: string;
+  elevation: number;
+};
+
+export type ElevationProfile = {
+  points: ElevationPoint[];
+  sections: ElevationSection[];
+  segments: ElevationSegment[];
+  // Comprimento da volta (m)
+  length: number;
+  // Desnível total (m)
+  range: number;
+  corners: Pick<CornerSummary, 'number' | 'distance'>[];
+  // Correlação (Pearson) entre inclinação e aceleração longitudinal nos trechos
+  correlation: number | null;
+};
+
+// Comprimento de cada trecho do perfil (m)
+const BIN_METERS = 20;
+// Afastamentos maiores que isto (m) são pit lane ou falhas da telemetria
+const MAX_OFFSET_METERS = 25;
+// Trechos de cada lado na média móvel da altitude
+const SMOOTHING_BINS = 2;
+// Inclinação (%) a partir da qual o trecho é subida ou descida, e extensão mínima (m)
+const GRADIENT_THRESHOLD = 2;
+const MIN_SECTION_METERS = 60;
+
+type Stat = { sum: number; count: number };
+
+const add = (stat: Stat | undefined, value: number): Stat =>
+  stat ? { sum: stat.sum + value, count: stat.count + 1 } : { sum: value, count: 1 };
+
+const average = (stat: Stat | undefined) => stat && stat.count > 0 ? stat.sum / stat.count : null;
+
+const mean = (values: number[]) => values.length > 0 ? values.reduce((sum, v) => sum + v, 0) / values.length : null;
+
+function pearson(pairs: [number, number][]): number | null {
+  if (pairs.length < 3) return null;
+  const mx = mean(pairs.map(([x]) => x))!;
+  const my = mean(pairs.map(([, y]) => y))!;
+  let sxy = 0;
+  let sxx = 0;
+  let syy = 0;
+  pairs.forEach(([x, y]) => {
+    sxy += (x - mx) * (y - my);
+    sxx += (x - mx) ** 2;
+    syy += (y - my) ** 2;
+  });
+  return sxx > 0 && syy > 0 ? sxy / Math.sqrt(sxx * syy) : null;
+}
+
+export function analyzeElevation(
+  drivers: Record<string, ElevationSample[]>,
+  model: TrackModel,
+  metersPerUnit: number,
+  corners: CornerSummary[]
+): ElevationProfile | null {
+  const { points } = model;
+  const pointsPerBin = Math.max(1, Math.round(BIN_METERS / (model.spacing * metersPerUnit)));
+  const binCount = Math.ceil(points.length / pointsPerBin);
+  const binMeters = pointsPerBin * model.spacing * metersPerUnit;
+
+  const heights: (Stat | undefined)[] = new Array(binCount);
+  const speeds: (Stat | undefined)[] = new Array(binCount);
+  const accelerations: (Stat | undefined)[] = new Array(binCount);
+
+  Object.values(drivers).forEach(samples => {
+    let hint: number | undefined;
+    samples.forEach(sample => {
+      const projection = projectOntoTrack(model, sample.x, sample.y, hint);
+      hint = projection.index;
+      if (Math.abs(projection.offset * metersPerUnit) > MAX_OFFSET_METERS) return;
+      const bin = Math.floor(projection.index / pointsPerBin);
+      if (sample.z !== null) heights[bin] = add(heights[bin], sample.z * metersPerUnit);
+      if (sample.speed !== null) speeds[bin] = add(speeds[bin], sample.speed);
+      if (sample.acceleration !== null) accelerations[bin] = add(accelerations[bin], sample.acceleration);
+    });
+  });
+
+  const raw = Array.from({ length: binCount }, (_, bin) => average(heights[bin]));
+  if (raw.filter(value => value !== null).length < binCount / 2) return null;
+
+  // Média móvel circular, preenchendo trechos sem medições com os vizinhos
+  const at = (bin: number) => raw[((bin % binCount) + binCount) % binCount];
+  const smoothed = raw.map((_, bin) => {
+    const window: number[] = [];
+    for (let k = -SMOOTHING_BINS; k <= SMOOTHING_BINS; k++) {
+      const value = at(bin + k);
+      if (value !== null) window.push(value);
+    }
+    return mean(window);
+  });
+  // Trechos ainda vazios herdam o anterior com valor
+  const filled: number[] = [];
+  const firstKnown = smoothed.find(value => value !== null) ?? 0;
+  smoothed.forEach((value, bin) => filled.push(value ?? (bin > 0 ? filled[bin - 1] : firstKnown)));
+
+  const lowest = Math.min(...filled);
+  const profile: ElevationPoint[] = filled.map((elevation, bin) => {
+    const ahead = filled[(bin + 1) % binCount];
+    const behind = filled[(bin - 1 + binCount) % binCount];
+    return {
+      distance: (bin + 0.5) * binMeters,
+      elevation: elevation - lowest,
+      gradient: ((ahead - behind) / (2 * binMeters)) * 100,
+      speed: average(speeds[bin]),
+      acceleration: average(accelerations[bin])
+    };
+  });
+
+  // Subidas e descidas: trechos consecutivos com a mesma inclinação acima do limite
+  const kindOf = (gradient: number) =>
+    gradient >= GRADIENT_THRESHOLD ? 'uphill' : gradient <= -GRADIENT_THRESHOLD ? 'downhill' : null;
+  // Trechos inicial e final de cada sequência (inclusive)
+  const runs: { start: number; end: number }[] = [];
+  profile.forEach((point, bin) => {
+    const kind = kindOf(point.gradient);
+    if (!kind) return;
+    const current = runs[runs.length - 1];
+    if (current && current.end === bin - 1 && kindOf(profile[current.start].gradient) === kind) {
+      current.end = bin;
+    } else {
+      runs.push({ start: bin, end: bin });
+    }
+  });
+  // A sequência que cruza a linha de chegada é uma só: começa antes do trecho 0
+  if (runs.length > 1) {
+    const first = runs[0];
+    const last = runs[runs.length - 1];
+    if (first.start === 0 && last.end === binCount - 1 &&
+        kindOf(profile[first.start].gradient) === kindOf(profile[last.start].gradient)) {
+      runs.pop();
+      first.start = last.start - binCount;
+    }
+  }
+
+  const lapMeters = binCount * binMeters;
+  const sections: ElevationSection[] = runs.flatMap(({ start, end }) => {
+    if ((end - start + 1) * binMeters < MIN_SECTION_METERS) return [];
+    const run = Array.from({ length: end - start + 1 }, (_, i) => profile[(start + i + binCount) % binCount]);
+    const from = ((start + binCount) % binCount) * binMeters;
+    const to = (end + 1) * binMeters;
+    const contains = (distance: number) => from < to ? distance >= from && distance <= to : distance >= from || distance <= to;
+    return [{
+      kind: kindOf(run[0].gradient)!,
+      from,
+      to,
+      change: run[run.length - 1].elevation - run[0].elevation,
+      gradient: mean(run.map(p => p.gradient))!,
+      speed: mean(run.flatMap(p => p.speed !== null ? [p.speed] : [])),
+      acceleration: mean(run.flatMap(p => p.acceleration !== null ? [p.acceleration] : [])),
+      corners: corners.filter(c => contains(c.distance)).map(c => c.number)
+    }];
+  });
+
+  // Trechos do mapa, do primeiro ponto do trecho ao primeiro do seguinte
+  const segments: ElevationSegment[] = profile.map((point, bin) => {
+    const from = bin * pointsPerBin;
+    const to = Math.min(points.length, from + pointsPerBin);
+    const path = Array.from({ length: to - from + 1 }, (_, i) => points[(from + i) % points.length]);
+    return { path: `M ${path.map(p => `${p.x} ${p.y}`).join(' L ')}`, elevation: point.elevation };
+  });
+
+  return {
+    points: profile,
+    sections,
+    segments,
+    length: lapMeters,
+    range: Math.max(...profile.map(p => p.elevation)),
+    corners: corners.map(({ number, distance }) => ({ number, distance })),
+    correlation: pearson(profile.flatMap(p => p.acceleration !== null ? [[p.gradient, p.acceleration] as [number, number]] : []))
+  };
+}
@@ -0,0 +1,56 @@
+// Comparação de duas voltas alinhadas pela linha de chegada: o tempo decorrido em cada
+// fração da pista vem das parciais da volta, então voltas de sessões diferentes do mesmo
+// circuito são comparáveis sem reprocessar as posições
+import { LAP_SPLITS, splitTimeAt, type Lap } from './laps';
+
+export type DeltaPoint = {
+  // Fração da volta (0–1)
+  distance: number;
+  // Segundos da volta comparada em relação à de referência (positivo = mais lenta)
+  delta: number | null;
+};
+
+// Tempo decorrido na volta ao passar por uma fração da pista
+export function lapElapsedAt(lap: Lap, fraction: number): number | null {
+  const time = splitTimeAt(lap, fraction);
+  return time === null ? null : time - lap.start;
+}
+
+// Fração da pista alcançada após `elapsed` ms de volta (inverso das parciais)
+export function lapFractionAt(lap: Lap, elapsed: number): number | null {
+  if (lap.end === null) return null;
+  const time = lap.start + elapsed;
+  if (time <= lap.start) return 0;
+  if (time >= lap.end) return 1;
+
+  for (let k = 0; k < LAP_SPLITS; k++) {
+    const a = lap.splits[k];
+    const b = k + 1 < LAP_SPLITS ? lap.splits[k + 1] : lap.end;
+    if (a === null || b === null) continue;
+    if (time >= a && time <= b) return (k + (time - a) / (b - a || 1)) / LAP_SPLITS;
+  }
+  return null;
+}
+
+// Delta ao longo da volta, em cada parcial
+export function buildDeltaSeries(reference: Lap, other: Lap): DeltaPoint[] {
+  return Array.from({ length: LAP_SPLITS + 1 }, (_, k) => {
+    const distance = k / LAP_SPLITS;
+    const a = lapElapsedAt(reference, distance);
+    const b = lapElapsedAt(other, distance);
+    return { distance, delta: a === null || b === null ? null : (b - a) / 1000 };
+  });
+}
+
+// Delta no ponto da pista onde está o carro de referência após `elapsed` ms
+export function deltaAt(reference: Lap, other: Lap, elapsed: number): number | null {
+  const fraction = lapFractionAt(reference, elapsed);
+  if (fraction === null) return null;
+  const b = lapElapsedAt(other, fraction);
+  const a = lapElapsedAt(reference, fraction);
+  return a === null || b === null ? null : (b - a) / 1000;
+}
+
+// +0.123s / -0.456s
+export const formatDelta = (seconds: number | null) =>
+  seconds === null ? '—' : `${seconds >= 0 ? '+' : '-'}${Math.abs(seconds).toFixed(3)}s`;
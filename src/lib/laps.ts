@@ -0,0 +1,203 @@
+// Segmentação de voltas por piloto: cada passagem pela linha de chegada do modelo da pista
+// encerra uma volta e inicia a seguinte. A linha é a do modelo (volta de referência), então
+// os tempos são aproximados em relação à cronometragem oficial.
+import type { CarPosition } from './database.types';
+import type { ClockRange } from '../contexts/SessionClockContext';
+import { toMillis } from './clock';
+import { projectOntoTrack, type TrackModel } from './trackModel';
+
+export type Lap = {
+  driverNumber: string;
+  // 1 = primeira volta iniciada na linha de chegada
+  lap: number;
+  start: number;
+  end: number | null;
+  lapTime: number | null;
+  // Instante da passagem por cada 1/LAP_SPLITS da volta (índice 0 = início); null onde
+  // faltou telemetria. Base dos tempos de setor, que são interpolados entre as parciais.
+  splits: (number | null)[];
+};
+
+type DriverLapState = {
+  // Índice e distância da última amostra projetada na pista
+  index: number | null;
+  distance: number | null;
+  time: number | null;
+  laps: Lap[];
+};
+
+export type LapDetection = {
+  drivers: Record<string, DriverLapState>;
+  // Instante da posição mais recente processada; as do mesmo instante podem ainda não ter
+  // chegado para todos os pilotos, então quem passa posições novas inclui este instante
+  processedUntil: number;
+};
+
+// Passagens mais próximas que isto são ruído em torno da linha
+const MIN_LAP_MS = 40_000;
+// Fração da pista perto da linha considerada na detecção da passagem
+const CROSSING_WINDOW = 0.25;
+// Parciais registradas por volta
+export const LAP_SPLITS = 100;
+
+const newLap = (driverNumber: string, lap: number, start: number): Lap => {
+  const splits: (number | null)[] = new Array(LAP_SPLITS).fill(null);
+  splits[0] = start;
+  return { driverNumber, lap, start, end: null, lapTime: null, splits };
+};
+
+// Registra as parciais entre duas distâncias da mesma volta (de `from`, exclusive, até `to`)
+const recordSplits = (lap: Lap, step: number, from: number, to: number, fromTime: number, toTime: number) => {
+  const first = Math.floor(from / step) + 1;
+  const last = Math.min(LAP_SPLITS - 1, Math.floor(to / step));
+  for (let k = first; k <= last; k++) {
+    if (lap.splits[k] !== null) continue;
+    lap.splits[k] = fromTime + (toTime - fromTime) * ((k * step - from) / (to - from || 1));
+  }
+};
+
+export const emptyLapDetection = (): LapDetection => ({ drivers: {}, processedUntil: -Infinity });
+
+// Processa posições novas (em ordem cronológica) e devolve o estado atualizado
+export function advanceLaps(model: TrackModel, detection: LapDetection, positions: CarPosition[]): LapDetection {
+  const drivers = { ...detection.drivers };
+  let processedUntil = detection.processedUntil;
+  const step = model.length / LAP_SPLITS;
+  // Voltas já copiadas nesta chamada: as parciais são gravadas sem alterar o estado anterior
+  const copied = new Set<Lap>();
+  const currentLap = (state: DriverLapState) => {
+    const lap = state.laps[state.laps.length - 1];
+    if (!lap || copied.has(lap)) return lap;
+    const copy = { ...lap, splits: [...lap.splits] };
+    copied.add(copy);
+    state.laps = [...state.laps.slice(0, -1), copy];
+    return copy;
+  };
+
+  positions.forEach(pos => {
+    const time = toMillis(pos.timestamp);
+    if (pos.x_coord === null || pos.y_coord === null) return;
+    const previous = drivers[pos.driver_number] ?? { index: null, distance: null, time: null, laps: [] };
+    // Já processada (lotes que se sobrepõem no instante de corte)
+    if (previous.time !== null && time <= previous.time) return;
+    processedUntil = Math.max(processedUntil, time);
+
+    const projection = projectOntoTrack(model, pos.x_coord, pos.y_coord, previous.index ?? undefined);
+    const state: DriverLapState = { ...previous, index: projection.index, distance: projection.distance, time };
+    drivers[pos.driver_number] = state;
+
+    if (previous.distance === null || previous.time === null) return;
+
+    // Passagem: da parte final da pista para a inicial
+    const crossed = previous.distance > model.length * (1 - CROSSING_WINDOW) &&
+      projection.distance < model.length * CROSSING_WINDOW;
+    if (!crossed) {
+      // Avanço normal na volta (saltos grandes são falha de projeção ou buraco na telemetria)
+      const advance = projection.distance - previous.distance;
+      if (advance > 0 && advance < model.length * CROSSING_WINDOW && state.laps.length > 0) {
+        recordSplits(currentLap(state)!, step, previous.distance, projection.distance, previous.time, time);
+      }
+      return;
+    }
+
+    const before = model.length - previous.distance;
+    const fraction = before / (before + projection.distance);
+    const crossingTime = previous.time + (time - previous.time) * fraction;
+
+    const current = state.laps[state.laps.length - 1];
+    if (current && crossingTime - current.start < MIN_LAP_MS) return;
+
+    if (current) {
+      const ending = currentLap(state)!;
+      recordSplits(ending, step, previous.distance, model.length, previous.time, crossingTime);
+      ending.end = crossingTime;
+      ending.lapTime = crossingTime - ending.start;
+    }
+    const started = newLap(pos.driver_number, (current?.lap ?? 0) + 1, crossingTime);
+    recordSplits(started, step, 0, projection.distance, crossingTime, time);
+    copied.add(started);
+    state.laps = [...state.laps, started];
+  });
+
+  return { drivers, processedUntil };
+}
+
+// Todas as voltas, de todos os pilotos
+export const getAllLaps = (detection: LapDetection) =>
+  Object.values(detection.drivers).flatMap(driver => driver.laps);
+
+// Volta em andamento de um piloto no instante (null antes da primeira passagem)
+export function getDriverLapAt(detection: LapDetection, driverNumber: string, time: number | null): Lap | null {
+  const laps = detection.drivers[driverNumber]?.laps ?? [];
+  if (time === null) return null;
+
+  // Busca binária pela última volta iniciada até o instante
+  let low = 0;
+  let high = laps.length - 1;
+  let found: Lap | null = null;
+  while (low <= high) {
+    const mid = Math.floor((low + high) / 2);
+    if (laps[mid].start <= time) {
+      found = laps[mid];
+      low = mid + 1;
+    } else {
+      high = mid - 1;
+    }
+  }
+  return found;
+}
+
+// Volta do líder (maior número de voltas iniciadas até o instante)
+export function getLeaderLapAt(detection: LapDetection, time: number | null): Lap | null {
+  let leader: Lap | null = null;
+  for (const driverNumber of Object.keys(detection.drivers)) {
+    const lap = getDriverLapAt(detection, driverNumber, time);
+    if (lap && (!leader || lap.lap > leader.lap || (lap.lap === leader.lap && lap.start < leader.start))) {
+      leader = lap;
+    }
+  }
+  return leader;
+}
+
+// Maior número de volta observado na sessão
+export const getTotalLaps = (detection: LapDetection) =>
+  Math.max(0, ...getAllLaps(detection).map(lap => lap.lap));
+
+// Início da volta N pelo primeiro piloto a iniciá-la
+export function getLapStart(detection: LapDetection, lapNumber: number): number | null {
+  const starts = getAllLaps(detection).filter(lap => lap.lap === lapNumber).map(lap => lap.start);
+  return starts.length > 0 ? Math.min(...starts) : null;
+}
+
+// Intervalo das voltas `from` a `to` dos pilotos (todos quando a lista é vazia): do primeiro a
+// iniciar a volta inicial ao último a concluir a final; voltas em andamento vão até a última parcial
+export function getLapsRange(detection: LapDetection, from: number, to: number, drivers: string[]): ClockRange | null {
+  const laps = getAllLaps(detection).filter(lap => drivers.length === 0 || drivers.includes(lap.driverNumber));
+  const starts = laps.filter(lap => lap.lap === from).map(lap => lap.start);
+  const ends = laps.filter(lap => lap.lap === to).map(lap =>
+    lap.end ?? lap.splits.reduce<number>((last, split) => split ?? last, lap.start)
+  );
+  if (starts.length === 0 || ends.length === 0) return null;
+  const range = { start: Math.min(...starts), end: Math.max(...ends) };
+  return range.end > range.start ? range : null;
+}
+
+// Instante em que a volta passou por uma fração da pista (interpolado entre as parciais)
+export function splitTimeAt(lap: Lap, fraction: number): number | null {
+  if (fraction <= 0) return lap.start;
+  if (fraction >= 1) return lap.end;
+  const position = fraction * LAP_SPLITS;
+  const k = Math.floor(position);
+  const a = lap.splits[k];
+  const b = k + 1 < LAP_SPLITS ? lap.splits[k + 1] : lap.end;
+  if (a === null || b === null) return null;
+  return a + (b - a) * (position - k);
+}
+
+// m:ss.SSS
+export function formatLapTime(ms: number | null) {
+  if (ms === null) return '--:--.---';
+  const minutes = Math.floor(ms / 60000);
+  const seconds = ((ms % 60000) / 1000).toFixed(3).padStart(6, '0');
+  return `${minutes}:${seconds}`;
+}
@@ -0,0 +1,64 @@
+// Cena do mapa do circuito, já no espaço de desenho (SVG do circuito ou telemetria):
+// descrição única consumida pelo renderizador em canvas e pelo SVG usado na exportação
+export type MapRect = { x: number; y: number; width: number; height: number };
+
+export type MapTrail = {
+  driverNumber: string;
+  color: string;
+  opacity: number;
+  // Rastro do piloto selecionado, mais grosso
+  emphasis: boolean;
+  // Caminho no formato do atributo `d` do SVG (também aceito por Path2D)
+  d: string;
+};
+
+export type MapCar = {
+  driverNumber: string;
+  name: string;
+  x: number;
+  y: number;
+  color: string;
+  opacity: number;
+};
+
+export type MapScene = {
+  viewBox: MapRect;
+  // Unidades da telemetria → unidades do desenho (tamanho dos carros e rastros)
+  unit: number;
+  artwork: (MapRect & { href: string }) | null;
+  // Grade de referência quando não há desenho oficial
+  showGrid: boolean;
+  track: string | null;
+  pitLane: string | null;
+  startFinish: { x1: number; y1: number; x2: number; y2: number } | null;
+  trails: MapTrail[];
+  cars: MapCar[];
+};
+
+// Espaçamento da grade de referência, em unidades da telemetria
+export const GRID_SIZE = 1000;
+// Raio do carro em unidades da telemetria
+export const CAR_RADIUS = 35;
+
+// Transformação desenho → pixels equivalente a preserveAspectRatio="xMidYMid meet"
+export function fitViewBox(viewBox: MapRect, width: number, height: number) {
+  const scale = Math.min(width / viewBox.width, height / viewBox.height);
+  return {
+    scale,
+    offsetX: (width - viewBox.width * scale) / 2 - viewBox.x * scale,
+    offsetY: (height - viewBox.height * scale) / 2 - viewBox.y * scale
+  };
+}
+
+export const toPathData = (points: { x: number; y: number }[], closed = false) =>
+  points.length === 0 ? '' : `M ${points.map(p => `${p.x} ${p.y}`).join(' L ')}${closed ? ' Z' : ''}`;
+
+// Carro sob um ponto do desenho (o de cima, se houver sobreposição)
+export function findCarAt(scene: MapScene, x: number, y: number): MapCar | null {
+  const radius = CAR_RADIUS * scene.unit;
+  for (let i = scene.cars.length - 1; i >= 0; i--) {
+    const car = scene.cars[i];
+    if (Math.hypot(car.x - x, car.y - y) <= radius) return car;
+  }
+  return null;
+}
@@ -0,0 +1,68 @@
+// Posição contínua de um carro entre as amostras da telemetria, para o replay animado
+import type { CarPosition } from './database.types';
+import { findLatestIndex, toMillis } from './clock';
+
+export type CarMotionPoint = {
+  x: number;
+  y: number;
+  // true quando a posição foi projetada além da última amostra
+  extrapolated: boolean;
+};
+
+// Amostras mais distantes que isto não são ligadas por uma reta (dados faltando)
+const MAX_INTERPOLATION_GAP_MS = 3_000;
+// Por quanto tempo o carro continua andando sem amostra nova antes de parar na última
+const MAX_EXTRAPOLATION_MS = 1_000;
+
+const hasCoordinates = (pos: CarPosition | undefined): pos is CarPosition & { x_coord: number; y_coord: number } =>
+  !!pos && pos.x_coord !== null && pos.y_coord !== null;
+
+// Posição de um piloto no instante, a partir das suas amostras em ordem cronológica
+// (null antes da primeira amostra)
+export function positionAt(trail: CarPosition[], time: number): CarMotionPoint | null {
+  const index = findLatestIndex(trail, time);
+  const sample = trail[index];
+  if (!hasCoordinates(sample)) return null;
+
+  const sampleTime = toMillis(sample.timestamp);
+  const next = trail[index + 1];
+  if (hasCoordinates(next)) {
+    const nextTime = toMillis(next.timestamp);
+    if (nextTime - sampleTime <= MAX_INTERPOLATION_GAP_MS) {
+      const fraction = (time - sampleTime) / (nextTime - sampleTime || 1);
+      return {
+        x: sample.x_coord + (next.x_coord - sample.x_coord) * fraction,
+        y: sample.y_coord + (next.y_coord - sample.y_coord) * fraction,
+        extrapolated: false
+      };
+    }
+  }
+
+  // Sem a próxima amostra: segue a velocidade das duas últimas por um instante
+  const previous = trail[index - 1];
+  if (!hasCoordinates(previous)) return { x: sample.x_coord, y: sample.y_coord, extrapolated: false };
+  const previousTime = toMillis(previous.timestamp);
+  const span = sampleTime - previousTime;
+  if (span <= 0 || span > MAX_INTERPOLATION_GAP_MS) return { x: sample.x_coord, y: sample.y_coord, extrapolated: false };
+
+  const ahead = Math.min(time - sampleTime, MAX_EXTRAPOLATION_MS);
+  return {
+    x: sample.x_coord + ((sample.x_coord - previous.x_coord) / span) * ahead,
+    y: sample.y_coord + ((sample.y_coord - previous.y_coord) / span) * ahead,
+    extrapolated: ahead > 0
+  };
+}
+
+// Velocidade em km/h entre as amostras em torno do instante (null sem par próximo);
+// a escala vem de getMetersPerUnit
+export function speedAt(trail: CarPosition[], time: number, metersPerUnit: number): number | null {
+  const index = findLatestIndex(trail, time);
+  const pair = hasCoordinates(trail[index + 1]) ? [trail[index], trail[index + 1]] : [trail[index - 1], trail[index]];
+  const [a, b] = pair;
+  if (!hasCoordinates(a) || !hasCoordinates(b)) return null;
+
+  const dt = toMillis(b.timestamp) - toMillis(a.timestamp);
+  if (dt <= 0 || dt > MAX_INTERPOLATION_GAP_MS) return null;
+  const metersPerSecond = (Math.hypot(b.x_coord - a.x_coord, b.y_coord - a.y_coord) * metersPerUnit) / (dt / 1000);
+  return metersPerSecond * 3.6;
+}
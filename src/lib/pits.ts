@@ -0,0 +1,170 @@
+// Paradas nos boxes: entrada e saída da pit lane detectadas nas posições, tempo parado e
+// perda estimada em relação a percorrer o mesmo trecho pela pista
+import type { CarPosition } from './database.types';
+import type { TelemetryPoint } from './circuits';
+import { toMillis } from './clock';
+import { splitTimeAt, type Lap, type LapDetection } from './laps';
+import { projectOntoTrack, type TrackModel } from './trackModel';
+
+export type PitStop = {
+  driverNumber: string;
+  entry: number;
+  // null enquanto o carro está na pit lane (ou terminou a sessão nela)
+  exit: number | null;
+  // Tempo com o carro parado dentro da pit lane, em ms
+  stationary: number;
+  // Posição na volta (fração a partir da linha de chegada) na entrada e na saída
+  entryFraction: number;
+  exitFraction: number | null;
+};
+
+type DriverPitState = {
+  last: { x: number; y: number; time: number; index: number } | null;
+  stops: PitStop[];
+};
+
+export type PitDetection = {
+  drivers: Record<string, DriverPitState>;
+  processedUntil: number;
+};
+
+// Passagens mais curtas que isto pela pit lane são ruído na borda do polígono
+const MIN_PIT_MS = 8_000;
+// Saída seguida de nova entrada em menos que isto é a mesma parada
+const MERGE_MS = 5_000;
+// Abaixo disto (unidades/ms, ~3,6 km/h) o carro está parado
+const STATIONARY_SPEED = 0.01;
+// Buracos maiores na telemetria não contam como tempo parado
+const MAX_SAMPLE_GAP_MS = 5_000;
+
+// Estimativa sem polígono: fora da linha de referência, perto da linha de chegada e devagar
+const PIT_OFFSET = 100;
+const PIT_WINDOW = 0.1;
+// ~90 km/h, um pouco acima do limite da pit lane
+const PIT_SPEED = 0.25;
+
+export const emptyPitDetection = (): PitDetection => ({ drivers: {}, processedUntil: -Infinity });
+
+// Ray casting
+export function isInsidePolygon(polygon: TelemetryPoint[], x: number, y: number) {
+  let inside = false;
+  for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+    const a = polygon[i];
+    const b = polygon[j];
+    if ((a.y > y) !== (b.y > y) && x < ((b.x - a.x) * (y - a.y)) / (b.y - a.y) + a.x) {
+      inside = !inside;
+    }
+  }
+  return inside;
+}
+
+// Processa posições novas (em ordem cronológica) e devolve o estado atualizado
+export function advancePits(
+  model: TrackModel,
+  pitLane: TelemetryPoint[] | null,
+  detection: PitDetection,
+  positions: CarPosition[]
+): PitDetection {
+  const drivers = { ...detection.drivers };
+  let processedUntil = detection.processedUntil;
+
+  positions.forEach(pos => {
+    const time = toMillis(pos.timestamp);
+    if (pos.x_coord === null || pos.y_coord === null) return;
+    const previous = drivers[pos.driver_number] ?? { last: null, stops: [] };
+    if (previous.last && time <= previous.last.time) return;
+    processedUntil = Math.max(processedUntil, time);
+
+    const projection = projectOntoTrack(model, pos.x_coord, pos.y_coord, previous.last?.index);
+    const fraction = projection.distance / model.length;
+    const last = previous.last;
+    const dt = last ? time - last.time : 0;
+    const speed = last && dt > 0 ? Math.hypot(pos.x_coord - last.x, pos.y_coord - last.y) / dt : null;
+
+    const inPitLane = pitLane
+      ? isInsidePolygon(pitLane, pos.x_coord, pos.y_coord)
+      : Math.abs(projection.offset) > PIT_OFFSET &&
+        (fraction < PIT_WINDOW || fraction > 1 - PIT_WINDOW) &&
+        speed !== null && speed < PIT_SPEED;
+
+    const stops = [...previous.stops];
+    const open = stops[stops.length - 1];
+
+    if (inPitLane) {
+      if (open && open.exit === null) {
+        const stopped = speed !== null && speed < STATIONARY_SPEED && dt < MAX_SAMPLE_GAP_MS;
+        if (stopped) stops[stops.length - 1] = { ...open, stationary: open.stationary + dt };
+      } else if (open && open.exit !== null && time - open.exit < MERGE_MS) {
+        stops[stops.length - 1] = { ...open, exit: null, exitFraction: null };
+      } else {
+        stops.push({
+          driverNumber: pos.driver_number,
+          entry: time,
+          exit: null,
+          stationary: 0,
+          entryFraction: fraction,
+          exitFraction: null
+        });
+      }
+    } else if (open && open.exit === null) {
+      if (time - open.entry < MIN_PIT_MS) {
+        stops.pop();
+      } else {
+        stops[stops.length - 1] = { ...open, exit: time, exitFraction: fraction };
+      }
+    }
+
+    drivers[pos.driver_number] = {
+      last: { x: pos.x_coord, y: pos.y_coord, time, index: projection.index },
+      stops
+    };
+  });
+
+  return { drivers, processedUntil };
+}
+
+// Todas as paradas, em ordem cronológica
+export const getAllPitStops = (detection: PitDetection) =>
+  Object.values(detection.drivers)
+    .flatMap(driver => driver.stops)
+    .sort((a, b) => a.entry - b.entry);
+
+// Entradas e saídas de todas as paradas, em ordem: o registro só muda nelas
+export const getPitEventTimes = (detection: PitDetection) =>
+  getAllPitStops(detection)
+    .flatMap(stop => stop.exit !== null ? [stop.entry, stop.exit] : [stop.entry])
+    .sort((a, b) => a - b);
+
+// Tempo de pista entre duas frações, saindo da volta `lap` (cruza a linha se to < from)
+const segmentTime = (lap: Lap, next: Lap | undefined, from: number, to: number) => {
+  const start = splitTimeAt(lap, from);
+  const end = to >= from ? splitTimeAt(lap, to) : next ? splitTimeAt(next, to) : null;
+  return start !== null && end !== null ? end - start : null;
+};
+
+const median = (values: number[]) => {
+  if (values.length === 0) return null;
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.floor(sorted.length / 2)];
+};
+
+// Perda da parada: tempo na pit lane menos a mediana do mesmo trecho feito pela pista
+// nas voltas do piloto sem parada (null sem voltas de referência)
+export function estimatePitLoss(stop: PitStop, laps: LapDetection, pits: PitDetection): number | null {
+  if (stop.exit === null || stop.exitFraction === null) return null;
+  const driverLaps = laps.drivers[stop.driverNumber]?.laps ?? [];
+  const stops = pits.drivers[stop.driverNumber]?.stops ?? [];
+  const hasStop = (lap: Lap | undefined) =>
+    !!lap && stops.some(s => s.entry < (lap.end ?? Infinity) && (s.exit ?? Infinity) > lap.start);
+
+  const references = driverLaps.flatMap((lap, i) => {
+    const next = driverLaps[i + 1];
+    const crossesLine = stop.exitFraction! < stop.entryFraction;
+    if (hasStop(lap) || (crossesLine && hasStop(next))) return [];
+    const time = segmentTime(lap, next, stop.entryFraction, stop.exitFraction!);
+    return time !== null ? [time] : [];
+  });
+
+  const reference = median(references);
+  return reference === null ? null : stop.exit - stop.entry - reference;
+}
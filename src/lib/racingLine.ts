@@ -0,0 +1,186 @@
+// Linha de corrida: afastamento lateral de cada piloto em relação à linha de referência,
+// medido em trechos de comprimento fixo ao longo da volta e comparado entre voltas e pilotos
+import { projectOntoTrack, type TrackModel } from './trackModel';
+import type { CornerSummary } from './corners';
+
+type LineSample = { x: number; y: number };
+
+// Trecho da faixa de dispersão: das linhas mais à direita às mais à esquerda
+export type LineBand = {
+  path: string;
+  // Desvio padrão (m) das linhas de todas as voltas no trecho
+  spread: number;
+};
+
+export type DriverLine = {
+  driverNumber: string;
+  // Linha média do piloto no formato do atributo `d` do SVG
+  path: string;
+};
+
+export type CornerConsistency = Pick<CornerSummary, 'number' | 'distance' | 'x' | 'y'> & {
+  drivers: Record<string, {
+    // Desvio padrão médio (m) da linha entre as voltas na curva
+    spread: number;
+    // 0–100: 100 = mesma linha em todas as voltas
+    score: number;
+    // Afastamento médio (m) em relação à média dos pilotos (positivo = à esquerda)
+    relativeOffset: number;
+    laps: number;
+  }>;
+};
+
+export type LineAnalysis = {
+  bands: LineBand[];
+  lines: DriverLine[];
+  corners: CornerConsistency[];
+  // Voltas com medições, por piloto
+  laps: Record<string, number>;
+};
+
+// Comprimento de cada trecho de comparação (m)
+const BIN_METERS = 20;
+// Afastamentos maiores que isto (m) são pit lane ou falhas da telemetria
+const MAX_OFFSET_METERS = 25;
+// Trechos a cada lado do ápice considerados parte da curva (m)
+const CORNER_WINDOW_METERS = 60;
+// Dispersão (m) em que a nota de consistência cai a 1/e
+const CONSISTENCY_SCALE_METERS = 2;
+
+type Stat = { sum: number; count: number };
+
+const mean = (values: number[]) => values.reduce((sum, v) => sum + v, 0) / values.length;
+
+const standardDeviation = (values: number[]) => {
+  const m = mean(values);
+  return Math.sqrt(values.reduce((sum, v) => sum + (v - m) ** 2, 0) / values.length);
+};
+
+// Afastamento médio (m) de um piloto em cada trecho, separado por volta (passagens pela linha de chegada)
+function measureOffsets(samples: LineSample[], model: TrackModel, metersPerUnit: number, pointsPerBin: number) {
+  const bins: Map<number, Stat>[] = [];
+  let lap = 0;
+  let hint: number | undefined;
+  let lastDistance: number | null = null;
+
+  samples.forEach(sample => {
+    const projection = projectOntoTrack(model, sample.x, sample.y, hint);
+    hint = projection.index;
+    if (lastDistance !== null && projection.distance < lastDistance - model.length / 2) lap++;
+    lastDistance = projection.distance;
+
+    const offset = projection.offset * metersPerUnit;
+    if (Math.abs(offset) > MAX_OFFSET_METERS) return;
+    const bin = Math.floor(projection.index / pointsPerBin);
+    const laps = bins[bin] ??= new Map();
+    const stat = laps.get(lap) ?? { sum: 0, count: 0 };
+    stat.sum += offset;
+    stat.count += 1;
+    laps.set(lap, stat);
+  });
+
+  // Média de cada volta em cada trecho
+  return bins.map(laps => laps ? Array.from(laps.values(), stat => stat.sum / stat.count) : []);
+}
+
+export function analyzeRacingLines(
+  drivers: Record<string, LineSample[]>,
+  model: TrackModel,
+  metersPerUnit: number,
+  corners: CornerSummary[]
+): LineAnalysis {
+  const { points } = model;
+  const pointsPerBin = Math.max(1, Math.round(BIN_METERS / (model.spacing * metersPerUnit)));
+  const binCount = Math.ceil(points.length / pointsPerBin);
+
+  const offsets: Record<string, number[][]> = {};
+  const laps: Record<string, number> = {};
+  Object.entries(drivers).forEach(([driverNumber, samples]) => {
+    const byBin = measureOffsets(samples, model, metersPerUnit, pointsPerBin);
+    offsets[driverNumber] = Array.from({ length: binCount }, (_, bin) => byBin[bin] ?? []);
+    // Mediana entre os trechos: passagens pela linha de chegada contam parcialmente duas voltas
+    const counts = offsets[driverNumber].map(lapMeans => lapMeans.length).filter(count => count > 0).sort((x, y) => x - y);
+    laps[driverNumber] = counts.length > 0 ? counts[Math.floor(counts.length / 2)] : 0;
+  });
+
+  // Ponto da referência deslocado lateralmente (m) para a esquerda do sentido da pista
+  const offsetPoint = (index: number, offset: number) => {
+    const point = points[index % points.length];
+    const units = offset / metersPerUnit;
+    return `${point.x - Math.sin(point.heading) * units} ${point.y + Math.cos(point.heading) * units}`;
+  };
+  const binCenter = (bin: number) => Math.min(points.length - 1, bin * pointsPerBin + Math.floor(pointsPerBin / 2));
+
+  // Faixa de dispersão: todas as voltas de todos os pilotos em cada trecho
+  const bands: LineBand[] = [];
+  const fieldMeans: (number | null)[] = [];
+  for (let bin = 0; bin < binCount; bin++) {
+    const all = Object.values(offsets).flatMap(driver => driver[bin]);
+    fieldMeans.push(all.length > 0 ? mean(all) : null);
+    if (all.length < 2) continue;
+
+    const low = Math.min(...all);
+    const high = Math.max(...all);
+    const from = bin * pointsPerBin;
+    // Até o primeiro ponto do trecho seguinte, para a faixa não ter falhas
+    const to = Math.min(points.length, from + pointsPerBin);
+    const indices = Array.from({ length: to - from + 1 }, (_, i) => from + i);
+    const left = indices.map(index => offsetPoint(index, high));
+    const right = indices.reverse().map(index => offsetPoint(index, low));
+    bands.push({ path: `M ${[...left, ...right].join(' L ')} Z`, spread: standardDeviation(all) });
+  }
+
+  // Linha média de cada piloto (interrompida nos trechos sem medições)
+  const lines: DriverLine[] = Object.entries(offsets).map(([driverNumber, byBin]) => {
+    let path = '';
+    let drawing = false;
+    byBin.forEach((lapMeans, bin) => {
+      if (lapMeans.length === 0) {
+        drawing = false;
+        return;
+      }
+      path += `${drawing ? ' L' : ' M'} ${offsetPoint(binCenter(bin), mean(lapMeans))}`;
+      drawing = true;
+    });
+    return { driverNumber, path: path.trim() };
+  }).filter(line => line.path.length > 0);
+
+  // Consistência por curva: trechos ao redor do ápice médio
+  const binMeters = pointsPerBin * model.spacing * metersPerUnit;
+  const lapMeters = model.length * metersPerUnit;
+  const cornerConsistency: CornerConsistency[] = corners.map(corner => {
+    const cornerBins = Array.from({ length: binCount }, (_, bin) => bin).filter(bin => {
+      const distance = (bin + 0.5) * binMeters;
+      const gap = Math.abs(distance - corner.distance);
+      return Math.min(gap, lapMeters - gap) <= CORNER_WINDOW_METERS;
+    });
+
+    const result: CornerConsistency['drivers'] = {};
+    Object.entries(offsets).forEach(([driverNumber, byBin]) => {
+      const spreads: number[] = [];
+      const relative: number[] = [];
+      let cornerLaps = 0;
+      cornerBins.forEach(bin => {
+        const lapMeans = byBin[bin];
+        const field = fieldMeans[bin];
+        if (lapMeans.length === 0 || field === null) return;
+        relative.push(mean(lapMeans) - field);
+        cornerLaps = Math.max(cornerLaps, lapMeans.length);
+        if (lapMeans.length >= 2) spreads.push(standardDeviation(lapMeans));
+      });
+      if (spreads.length === 0) return;
+
+      const spread = mean(spreads);
+      result[driverNumber] = {
+        spread,
+        score: Math.round(100 * Math.exp(-spread / CONSISTENCY_SCALE_METERS)),
+        relativeOffset: mean(relative),
+        laps: cornerLaps
+      };
+    });
+
+    return { number: corner.number, distance: corner.distance, x: corner.x, y: corner.y, drivers: result };
+  });
+
+  return { bands, lines, corners: cornerConsistency, laps };
+}
@@ -0,0 +1,211 @@
+// Camada de acesso a dados: consultas tipadas sobre a fonte de dados ativa
+// (Supabase ou fixtures), com cache por sessão e deduplicação de requisições em andamento
+import { dataSource, type RowChange, type TableQuery, type Unsubscribe } from './dataSource';
+import { toMillis } from './clock';
+import type { ClockRange } from '../contexts/SessionClockContext';
+import type {
+  CarPosition,
+  RaceControlMessage,
+  Session,
+  SessionDriver,
+  SessionStreamTable,
+  TableName,
+  TableRow,
+  TeamRadioMessage,
+  WeatherData
+} from './database.types';
+
+// Promessas compartilhadas: chamadas simultâneas reutilizam a mesma requisição
+const cache = new Map<string, Promise<unknown>>();
+
+function cached<T>(key: string, load: () => Promise<T>): Promise<T> {
+  const existing = cache.get(key);
+  if (existing) return existing as Promise<T>;
+
+  const promise = load();
+  // Falhas não ficam em cache para permitir nova tentativa
+  promise.catch(() => cache.delete(key));
+  cache.set(key, promise);
+  return promise;
+}
+
+const sessionKey = (table: TableName, sessionId: number) => `${table}:${sessionId}`;
+const extentKey = (sessionId: number) => `car_positions:extent:${sessionId}`;
+
+// Descarta o cache de uma tabela para a sessão (ex.: após eventos realtime)
+export function invalidateSession(table: TableName, sessionId: number) {
+  cache.delete(sessionKey(table, sessionId));
+  // Posições novas também mudam o intervalo da sessão
+  if (table === 'car_positions') cache.delete(extentKey(sessionId));
+}
+
+// Alterações em tempo real de uma tabela na sessão; invalida o cache a cada evento
+export function subscribeToSession<T extends TableName>(
+  table: T,
+  sessionId: number,
+  onChange: (change: RowChange<TableRow<T>>) => void
+): Unsubscribe {
+  return dataSource.subscribe(table, sessionId, change => {
+    invalidateSession(table, sessionId);
+    onChange(change);
+  });
+}
+
+// Tamanho da página nas leituras longas (limite padrão de linhas do PostgREST)
+const PAGE_SIZE = 1000;
+
+// Todas as linhas da consulta, página a página; a ordenação precisa de desempate
+// (`thenBy`) para que as páginas não repitam nem pulem linhas
+async function selectAllPages<T extends TableName>(
+  table: T,
+  query: TableQuery & { orderBy: Required<NonNullable<TableQuery['orderBy']>> }
+): Promise<TableRow<T>[]> {
+  const rows: TableRow<T>[] = [];
+  for (let offset = 0; ; offset += PAGE_SIZE) {
+    const page = await dataSource.select(table, { ...query, offset, limit: PAGE_SIZE });
+    rows.push(...page);
+    if (page.length < PAGE_SIZE) return rows;
+  }
+}
+
+// Sessões com dados na tabela, da mais recente para a mais antiga
+export function getSessionIds(table: SessionStreamTable): Promise<number[]> {
+  return cached(`${table}:sessions`, async () => {
+    const data = await selectAllPages(table, {
+      columns: 'session_id,id',
+      orderBy: { column: 'session_id', ascending: false, thenBy: 'id' }
+    });
+    return [...new Set(data.map(row => row.session_id))];
+  });
+}
+
+// Fluxos cujas sessões também entram no catálogo (car_positions é grande demais para listar)
+const CATALOG_STREAMS: SessionStreamTable[] = ['weather_data', 'race_control_messages', 'team_radio'];
+
+export const SESSION_STREAMS: SessionStreamTable[] = [...CATALOG_STREAMS, 'car_positions'];
+
+// Catálogo de sessões (mais recentes primeiro). Sessões com dados mas sem linha em
+// `sessions` entram com metadados vazios para continuarem selecionáveis.
+export function getSessionCatalog(): Promise<Session[]> {
+  return cached('sessions:catalog', async () => {
+    const [catalog, ...streamIds] = await Promise.all([
+      dataSource.select('sessions', { orderBy: { column: 'date_start', ascending: false } })
+        .catch(error => {
+          console.warn('Catálogo de sessões indisponível:', error);
+          return [] as Session[];
+        }),
+      ...CATALOG_STREAMS.map(getSessionIds)
+    ]);
+
+    const known = new Set(catalog.map(session => session.id));
+    const orphans = [...new Set(streamIds.flat())]
+      .filter(id => !known.has(id))
+      .sort((a, b) => b - a)
+      .map<Session>(id => ({
+        id,
+        year: 0,
+        meeting_name: '',
+        circuit_name: '',
+        country_name: null,
+        session_type: '',
+        date_start: ''
+      }));
+
+    return [...catalog, ...orphans];
+  });
+}
+
+export type StreamAvailability = Record<SessionStreamTable, boolean>;
+
+// Quais fluxos de dados têm ao menos uma linha para a sessão
+export function getStreamAvailability(sessionId: number): Promise<StreamAvailability> {
+  return cached(`streams:${sessionId}`, async () => {
+    const entries = await Promise.all(SESSION_STREAMS.map(async table => {
+      const rows = await dataSource.select(table, { sessionId, columns: 'session_id', limit: 1 });
+      return [table, rows.length > 0] as const;
+    }));
+    return Object.fromEntries(entries) as StreamAvailability;
+  });
+}
+
+export function getWeatherData(sessionId: number): Promise<WeatherData[]> {
+  return cached(sessionKey('weather_data', sessionId), () =>
+    dataSource.select('weather_data', {
+      sessionId,
+      orderBy: { column: 'timestamp', ascending: true }
+    })
+  );
+}
+
+export function getRaceControlMessages(sessionId: number): Promise<RaceControlMessage[]> {
+  return cached(sessionKey('race_control_messages', sessionId), () =>
+    dataSource.select('race_control_messages', {
+      sessionId,
+      orderBy: { column: 'timestamp', ascending: true }
+    })
+  );
+}
+
+export function getTeamRadioMessages(sessionId: number): Promise<TeamRadioMessage[]> {
+  return cached(sessionKey('team_radio', sessionId), () =>
+    dataSource.select('team_radio', {
+      sessionId,
+      orderBy: { column: 'timestamp', ascending: true }
+    })
+  );
+}
+
+// Primeiro e último instante com posições na sessão, sem carregar a sessão inteira
+export function getCarPositionExtent(sessionId: number): Promise<ClockRange | null> {
+  return cached(extentKey(sessionId), async () => {
+    const edge = (ascending: boolean) => dataSource.select('car_positions', {
+      sessionId,
+      columns: 'timestamp',
+      orderBy: { column: 'timestamp', ascending },
+      limit: 1
+    });
+
+    const [first, last] = await Promise.all([edge(true), edge(false)]);
+    if (first.length === 0 || last.length === 0) return null;
+    return { start: toMillis(first[0].timestamp), end: toMillis(last[0].timestamp) };
+  });
+}
+
+// Posições em [from, to), paginadas; não passam pelo cache para manter a memória limitada
+export function getCarPositionsWindow(sessionId: number, from: number, to: number): Promise<CarPosition[]> {
+  return selectAllPages('car_positions', {
+    sessionId,
+    timeRange: { from: new Date(from).toISOString(), to: new Date(to).toISOString() },
+    // Várias posições por instante (uma por piloto): o id mantém as páginas estáveis
+    orderBy: { column: 'timestamp', ascending: true, thenBy: 'id' }
+  });
+}
+
+// Trecho da sessão lido por requisição na varredura completa
+const SCAN_CHUNK_MS = 5 * 60 * 1000;
+
+// Percorre as posições da sessão inteira em blocos, sem mantê-las em memória
+export async function scanCarPositions(
+  sessionId: number,
+  range: ClockRange,
+  onChunk: (positions: CarPosition[], progress: number) => void,
+  isCancelled: () => boolean
+): Promise<void> {
+  for (let from = range.start; from <= range.end; from += SCAN_CHUNK_MS) {
+    const to = Math.min(from + SCAN_CHUNK_MS, range.end + 1);
+    const positions = await getCarPositionsWindow(sessionId, from, to);
+    if (isCancelled()) return;
+    onChunk(positions, Math.min(1, (to - range.start) / (range.end - range.start || 1)));
+  }
+}
+
+export function getSessionDrivers(sessionId: number): Promise<SessionDriver[]> {
+  return cached(sessionKey('session_drivers', sessionId), () =>
+    dataSource.select('session_drivers', { sessionId })
+  );
+}
+
+// Transcrição de um rádio via função remota (Edge Function no Supabase)
+export function transcribeTeamRadio(messageId: number, language: string | null) {
+  return dataSource.invoke<{ transcript: string }>('transcribe-audio', { messageId, language });
+}
@@ -0,0 +1,56 @@
+// Rotas da aplicação: a view fica no caminho e o estado compartilhado na query string
+// Ex.: /circuit?session=233&t=2024-05-26T14:32:10.000Z&drivers=1,44&zoom=1.5
+
+export type AppView = 'dashboard' | 'circuit' | 'radio' | 'control' | 'calibration' | 'analysis';
+
+export type AppRoute = {
+  view: AppView;
+  session: number | null;
+  // Instante do replay (epoch em ms)
+  time: number | null;
+  drivers: string[];
+  zoom: number | null;
+};
+
+const VIEW_PATHS: Record<AppView, string> = {
+  dashboard: '/',
+  circuit: '/circuit',
+  radio: '/radio',
+  control: '/control',
+  calibration: '/calibration',
+  analysis: '/analysis'
+};
+
+const parseNumber = (value: string | null) => {
+  if (value === null || value === '') return null;
+  const parsed = Number(value);
+  return Number.isFinite(parsed) ? parsed : null;
+};
+
+export function parseRoute(pathname: string, search: string): AppRoute {
+  const params = new URLSearchParams(search);
+  const path = pathname.replace(/\/+$/, '') || '/';
+  const view = (Object.keys(VIEW_PATHS) as AppView[]).find(key => VIEW_PATHS[key] === path) ?? 'dashboard';
+
+  const timeParam = params.get('t');
+  const time = timeParam ? new Date(timeParam).getTime() : NaN;
+
+  return {
+    view,
+    session: parseNumber(params.get('session')),
+    time: Number.isNaN(time) ? null : time,
+    drivers: (params.get('drivers') ?? '').split(',').filter(Boolean),
+    zoom: parseNumber(params.get('zoom'))
+  };
+}
+
+export function buildUrl(route: AppRoute): string {
+  const params = new URLSearchParams();
+  if (route.session !== null) params.set('session', String(route.session));
+  if (route.time !== null) params.set('t', new Date(route.time).toISOString());
+  if (route.drivers.length > 0) params.set('drivers', route.drivers.join(','));
+  if (route.zoom !== null) params.set('zoom', String(Math.round(route.zoom * 100) / 100));
+
+  const query = params.toString();
+  return `${VIEW_PATHS[route.view]}${query ? `?${query}` : ''}`;
+}
@@ -0,0 +1,97 @@
+// Tempos de setor e minissetor a partir das parciais de cada volta, com as cores das telas
+// oficiais: roxo = melhor da sessão, verde = melhor pessoal, amarelo = sem melhora
+import { splitTimeAt, type Lap, type LapDetection } from './laps';
+
+export type SegmentTime = {
+  lap: number;
+  // Duração em ms e instante em que o trecho terminou (null sem telemetria suficiente)
+  time: number | null;
+  end: number | null;
+};
+
+export type SectorStatus = 'overall' | 'personal' | 'none';
+
+export type SectorCell = {
+  lap: number;
+  time: number;
+  status: SectorStatus;
+};
+
+export type SectorGrid = {
+  // Último tempo concluído de cada trecho, por piloto
+  rows: Record<string, (SectorCell | null)[]>;
+  // Melhor tempo da sessão em cada trecho
+  best: (number | null)[];
+};
+
+// Início de cada trecho em fração da volta: setores pelos limites do circuito ou
+// minissetores de comprimento igual
+export const sectorStarts = (boundaries: number[]) => [0, ...boundaries];
+
+export const miniSectorStarts = (count: number) =>
+  Array.from({ length: count }, (_, i) => i / count);
+
+// Duração de cada trecho de uma volta
+export function computeSegmentTimes(lap: Lap, starts: number[]): SegmentTime[] {
+  return starts.map((start, i) => {
+    const from = splitTimeAt(lap, start);
+    const end = splitTimeAt(lap, starts[i + 1] ?? 1);
+    return { lap: lap.lap, time: from !== null && end !== null ? end - from : null, end };
+  });
+}
+
+// Trechos de todas as voltas de todos os pilotos (a grade depois só filtra pelo instante)
+export function buildSegmentTimes(detection: LapDetection, starts: number[]): Record<string, SegmentTime[][]> {
+  return Object.fromEntries(Object.entries(detection.drivers).map(([driverNumber, state]) =>
+    [driverNumber, state.laps.map(lap => computeSegmentTimes(lap, starts))]
+  ));
+}
+
+// Instantes em que algum trecho terminou, em ordem: a grade só muda neles
+export function segmentEnds(...segments: Record<string, SegmentTime[][]>[]): number[] {
+  const ends = new Set<number>();
+  segments.forEach(byDriver => Object.values(byDriver).forEach(laps => laps.forEach(lapSegments =>
+    lapSegments.forEach(segment => {
+      if (segment.end !== null) ends.add(segment.end);
+    })
+  )));
+  return [...ends].sort((a, b) => a - b);
+}
+
+// Grade no instante: só trechos concluídos até `time` contam para os melhores tempos
+export function computeSectorGrid(segments: Record<string, SegmentTime[][]>, count: number, time: number | null): SectorGrid {
+  const best: (number | null)[] = new Array(count).fill(null);
+  const personal: Record<string, (number | null)[]> = {};
+  const latest: Record<string, (SegmentTime | null)[]> = {};
+
+  Object.entries(segments).forEach(([driverNumber, laps]) => {
+    const personalBest: (number | null)[] = new Array(count).fill(null);
+    const last: (SegmentTime | null)[] = new Array(count).fill(null);
+
+    laps.forEach(lapSegments => lapSegments.forEach((segment, i) => {
+      if (time === null || segment.time === null || segment.end === null || segment.end > time) return;
+      last[i] = segment;
+      if (personalBest[i] === null || segment.time < personalBest[i]!) personalBest[i] = segment.time;
+      if (best[i] === null || segment.time < best[i]!) best[i] = segment.time;
+    }));
+
+    personal[driverNumber] = personalBest;
+    latest[driverNumber] = last;
+  });
+
+  const rows = Object.fromEntries(Object.entries(latest).map(([driverNumber, last]) =>
+    [driverNumber, last.map((segment, i): SectorCell | null => {
+      if (!segment || segment.time === null) return null;
+      const status: SectorStatus = segment.time === best[i]
+        ? 'overall'
+        : segment.time === personal[driverNumber][i] ? 'personal' : 'none';
+      return { lap: segment.lap, time: segment.time, status };
+    })]
+  ));
+
+  return { rows, best };
+}
+
+// s.SSS
+export const formatSectorTime = (ms: number | null) =>
+  ms === null ? '--.---' : (ms / 1000).toFixed(3);
@@ -0,0 +1,54 @@
+import type { Session, SessionStreamTable } from './database.types';
+
+// Abreviações usadas nas telas de timing
+const SESSION_TYPE_LABELS: [RegExp, string][] = [
+  [/^(practice|free practice|fp)\s*1$/i, 'FP1'],
+  [/^(practice|free practice|fp)\s*2$/i, 'FP2'],
+  [/^(practice|free practice|fp)\s*3$/i, 'FP3'],
+  [/^sprint\s*(qualifying|shootout|quali)$/i, 'Sprint Quali'],
+  [/^(qualifying|quali)$/i, 'Quali'],
+  [/^sprint$/i, 'Sprint'],
+  [/^race$/i, 'Race']
+];
+
+export const formatSessionType = (sessionType: string) =>
+  SESSION_TYPE_LABELS.find(([pattern]) => pattern.test(sessionType.trim()))?.[1] ?? sessionType;
+
+export const STREAM_LABELS: Record<SessionStreamTable, string> = {
+  weather_data: 'Clima',
+  race_control_messages: 'Controle',
+  team_radio: 'Rádio',
+  car_positions: 'Posições'
+};
+
+export const getSessionLabel = (session: Session) => {
+  if (!session.meeting_name) return `Sessão #${session.id}`;
+  const type = formatSessionType(session.session_type);
+  return `${session.year} ${session.meeting_name}${type ? ` · ${type}` : ''}`;
+};
+
+export const formatSessionStart = (session: Session) => {
+  if (!session.date_start) return '';
+  return new Date(session.date_start).toLocaleString('pt-BR', {
+    day: '2-digit',
+    month: '2-digit',
+    year: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit'
+  });
+};
+
+// Busca por ano, GP, circuito, país, tipo de sessão ou id
+export const matchesSessionSearch = (session: Session, search: string) => {
+  const terms = search.toLowerCase().split(/\s+/).filter(Boolean);
+  const haystack = [
+    session.id,
+    session.year || '',
+    session.meeting_name,
+    session.circuit_name,
+    session.country_name ?? '',
+    session.session_type,
+    formatSessionType(session.session_type)
+  ].join(' ').toLowerCase();
+  return terms.every(term => haystack.includes(term));
+};
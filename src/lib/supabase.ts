@@ -1,13 +1,22 @@
 // em src/lib/supabase.ts
-import { createClient } from '@supabase/supabase-js'
+import { createClient, type SupabaseClient } from '@supabase/supabase-js'
+import type { Database } from './database.types'
 
-export const supabase = createClient(
-  import.meta.env.VITE_SUPABASE_URL!,
-  import.meta.env.VITE_SUPABASE_ANON_KEY!,
-  {
-    realtime: {
-      // levels: 'debug' | 'info' | 'warn' | 'error'
-      log_level: 'debug',
-    },
+let client: SupabaseClient<Database> | null = null
+
+// Criado sob demanda: no modo offline (fixtures) as variáveis podem não existir
+export function getSupabase() {
+  if (!client) {
+    client = createClient<Database>(
+      import.meta.env.VITE_SUPABASE_URL!,
+      import.meta.env.VITE_SUPABASE_ANON_KEY!,
+      {
+        realtime: {
+          // levels: 'debug' | 'info' | 'warn' | 'error'
+          log_level: 'debug',
+        },
+      }
+    )
   }
-)
+  return client
+}
@@ -0,0 +1,132 @@
+// Ordem de corrida e diferenças derivadas das posições: cada piloto tem um "progresso"
+// (voltas completas × comprimento da pista + distância na volta) ao longo do tempo
+import type { CarPosition } from './database.types';
+import { toMillis } from './clock';
+import { getDriverLapAt, type LapDetection } from './laps';
+import { projectOntoTrack, type TrackModel } from './trackModel';
+
+export type ProgressSample = { time: number; progress: number };
+
+export type TowerEntry = {
+  driverNumber: string;
+  position: number;
+  lap: number | null;
+  progress: number;
+  // Segundos até o carro à frente / o líder (null fora do trecho em memória)
+  interval: number | null;
+  gap: number | null;
+  // Voltas atrás do líder e do carro à frente (0 = mesma volta)
+  lapsBehind: number;
+  intervalLaps: number;
+};
+
+// Série de progresso de um piloto a partir das suas posições em ordem cronológica
+export function buildProgressSeries(model: TrackModel, detection: LapDetection, trail: CarPosition[]): ProgressSample[] {
+  const series: ProgressSample[] = [];
+  let hint: number | undefined;
+
+  trail.forEach(pos => {
+    if (pos.x_coord === null || pos.y_coord === null) return;
+    const time = toMillis(pos.timestamp);
+    const projection = projectOntoTrack(model, pos.x_coord, pos.y_coord, hint);
+    hint = projection.index;
+
+    // Antes da primeira passagem pela linha o piloto está na "volta 0"
+    const lap = getDriverLapAt(detection, pos.driver_number, time)?.lap ?? 0;
+    let progress = (lap - 1) * model.length + projection.distance;
+
+    // Perto da linha a projeção pode cair do outro lado antes (ou depois) da passagem
+    // detectada; um salto de meia pista entre amostras é corrigido em uma volta
+    const previous = series[series.length - 1]?.progress;
+    if (previous !== undefined && progress < previous - model.length / 2) progress += model.length;
+    if (previous !== undefined && progress > previous + model.length / 2) progress -= model.length;
+    series.push({ time, progress });
+  });
+
+  return series;
+}
+
+const interpolate = (a: number, b: number, fraction: number) => a + (b - a) * fraction;
+
+// Último índice com valor <= alvo numa série crescente (-1 se nenhum)
+const findLastAtOrBefore = (series: ProgressSample[], key: keyof ProgressSample, value: number) => {
+  let low = 0;
+  let high = series.length - 1;
+  let found = -1;
+  while (low <= high) {
+    const mid = (low + high) >> 1;
+    if (series[mid][key] <= value) {
+      found = mid;
+      low = mid + 1;
+    } else {
+      high = mid - 1;
+    }
+  }
+  return found;
+};
+
+// Sem amostras há mais que isto o piloto sai da ordem (abandono, garagem, fim dos dados)
+const STALE_MS = 10_000;
+
+// Progresso no instante (null fora da série)
+export function progressAt(series: ProgressSample[], time: number): number | null {
+  if (series.length === 0 || time < series[0].time) return null;
+  const index = findLastAtOrBefore(series, 'time', time);
+  const sample = series[index];
+  const next = series[index + 1];
+  if (!next) return time - sample.time <= STALE_MS ? sample.progress : null;
+  return interpolate(sample.progress, next.progress, (time - sample.time) / (next.time - sample.time || 1));
+}
+
+// Instante em que o piloto atingiu um progresso (null fora da série)
+export function timeAtProgress(series: ProgressSample[], progress: number): number | null {
+  if (series.length === 0 || progress < series[0].progress) return null;
+
+  const found = findLastAtOrBefore(series, 'progress', progress);
+  const sample = series[found];
+  const next = series[found + 1];
+  if (!next) return progress === sample.progress ? sample.time : null;
+  const span = next.progress - sample.progress;
+  return interpolate(sample.time, next.time, span > 0 ? (progress - sample.progress) / span : 0);
+}
+
+// Ordem no instante: mais progresso primeiro, com intervalo e diferença em segundos
+export function computeTimingTower(
+  model: TrackModel,
+  seriesByDriver: Record<string, ProgressSample[]>,
+  detection: LapDetection,
+  time: number
+): TowerEntry[] {
+  const ranked = Object.entries(seriesByDriver)
+    .map(([driverNumber, series]) => ({ driverNumber, series, progress: progressAt(series, time) }))
+    .filter((entry): entry is typeof entry & { progress: number } => entry.progress !== null)
+    .sort((a, b) => b.progress - a.progress);
+
+  const leader = ranked[0];
+  return ranked.map((entry, index) => {
+    const ahead = ranked[index - 1];
+    const secondsBehind = (other: typeof entry | undefined) => {
+      if (!other) return null;
+      const reached = timeAtProgress(other.series, entry.progress);
+      return reached === null ? null : Math.max(0, (time - reached) / 1000);
+    };
+
+    return {
+      driverNumber: entry.driverNumber,
+      position: index + 1,
+      lap: getDriverLapAt(detection, entry.driverNumber, time)?.lap ?? null,
+      progress: entry.progress,
+      interval: secondsBehind(ahead),
+      gap: index === 0 ? 0 : secondsBehind(leader),
+      lapsBehind: Math.floor((leader.progress - entry.progress) / model.length),
+      intervalLaps: ahead ? Math.floor((ahead.progress - entry.progress) / model.length) : 0
+    };
+  });
+}
+
+// "+1.234", "+1 V" para retardatários ou "—" sem referência
+export function formatGap(seconds: number | null, lapsBehind = 0) {
+  if (lapsBehind > 0) return `+${lapsBehind} V`;
+  if (seconds === null) return '—';
+  return `+${seconds.toFixed(3)}`;
+}
@@ -0,0 +1,297 @@
+// Modelo da pista: linha de referência reconstruída a partir da volta limpa mais rápida,
+// reamostrada em espaçamento fixo de comprimento de arco e suavizada
+import type { CarPosition } from './database.types';
+import type { TelemetryPoint } from './circuits';
+import { toMillis } from './clock';
+
+export type TrackModelPoint = {
+  x: number;
+  y: number;
+  // Distância ao longo da pista desde a linha de chegada
+  distance: number;
+  // Direção de deslocamento em radianos (coordenadas da telemetria)
+  heading: number;
+};
+
+export type TrackModel = {
+  points: TrackModelPoint[];
+  length: number;
+  spacing: number;
+  startFinish: TrackModelPoint;
+  // Volta usada na reconstrução
+  source: { driverNumber: string; lapStart: string; lapTime: number };
+};
+
+export type TrackProjection = {
+  index: number;
+  distance: number;
+  // Afastamento lateral da linha de referência (positivo = à esquerda do sentido da pista)
+  offset: number;
+};
+
+type Sample = { x: number; y: number; time: number; timestamp: string };
+
+// Espaçamento da reamostragem, em unidades da telemetria
+const SPACING = 50;
+// Pontos de cada lado na média móvel
+const SMOOTHING_RADIUS = 3;
+const MIN_LAP_MS = 40_000;
+// Voltas com buracos maiores que isto na telemetria não são consideradas limpas
+const MAX_SAMPLE_GAP_MS = 1500;
+// Distância máxima à referência para contar uma passagem
+const CROSSING_RADIUS = 400;
+// Acima disto (unidades/ms, ~430 km/h) o deslocamento é falha da telemetria
+const MAX_SPEED = 1.2;
+// Variação aceita no comprimento em relação à mediana das voltas (cortes, pit lane)
+const LENGTH_TOLERANCE = 0.05;
+
+const distanceBetween = (a: { x: number; y: number }, b: { x: number; y: number }) =>
+  Math.hypot(a.x - b.x, a.y - b.y);
+
+const groupByDriver = (positions: CarPosition[]) => {
+  const byDriver = new Map<string, Sample[]>();
+  positions.forEach(pos => {
+    if (pos.x_coord === null || pos.y_coord === null) return;
+    const samples = byDriver.get(pos.driver_number) ?? [];
+    samples.push({ x: pos.x_coord, y: pos.y_coord, time: toMillis(pos.timestamp), timestamp: pos.timestamp });
+    byDriver.set(pos.driver_number, samples);
+  });
+  byDriver.forEach(samples => samples.sort((a, b) => a.time - b.time));
+  return byDriver;
+};
+
+// Ponto de referência para separar as voltas, na falta da linha de chegada do registro:
+// onde os carros andam mais rápido, normalmente a reta principal. Depende das posições
+// recebidas; quem separa voltas em vários lotes escolhe uma vez e reaproveita.
+export function findLapReference(positions: CarPosition[]): TelemetryPoint | null {
+  const byDriver = groupByDriver(positions);
+  let best: TelemetryPoint | null = null;
+  let bestSpeed = 0;
+  for (const samples of byDriver.values()) {
+    for (let i = 2; i < samples.length; i++) {
+      const dt = samples[i].time - samples[i - 2].time;
+      if (dt <= 0 || dt > MAX_SAMPLE_GAP_MS * 2) continue;
+      const speed = distanceBetween(samples[i], samples[i - 2]) / dt;
+      if (speed > bestSpeed && speed < MAX_SPEED) {
+        bestSpeed = speed;
+        best = { x: samples[i - 1].x, y: samples[i - 1].y };
+      }
+    }
+  }
+  return best;
+}
+
+// Índices de passagem pela referência (mínimos locais de distância dentro do raio)
+const findCrossings = (samples: Sample[], reference: { x: number; y: number }) => {
+  const crossings: number[] = [];
+  let candidate = -1;
+
+  samples.forEach((sample, index) => {
+    const distance = distanceBetween(sample, reference);
+    if (distance <= CROSSING_RADIUS) {
+      if (candidate < 0 || distance < distanceBetween(samples[candidate], reference)) candidate = index;
+      return;
+    }
+    if (candidate >= 0) {
+      const last = crossings[crossings.length - 1];
+      if (last === undefined || samples[candidate].time - samples[last].time >= MIN_LAP_MS) {
+        crossings.push(candidate);
+      }
+      candidate = -1;
+    }
+  });
+
+  return crossings;
+};
+
+const polylineLength = (points: { x: number; y: number }[]) =>
+  points.slice(1).reduce((sum, point, i) => sum + distanceBetween(points[i], point), 0);
+
+export type CleanLap = { driverNumber: string; samples: Sample[]; lapTime: number; length: number };
+
+// Volta limpa mais rápida entre todos os pilotos com ao menos uma volta completa carregada,
+// separando as voltas nas passagens pela referência (linha de chegada, quando conhecida)
+export function findFastestCleanLap(positions: CarPosition[], reference: TelemetryPoint): CleanLap | null {
+  const byDriver = groupByDriver(positions);
+
+  const laps: CleanLap[] = [];
+  byDriver.forEach((samples, driverNumber) => {
+    const crossings = findCrossings(samples, reference);
+    for (let i = 1; i < crossings.length; i++) {
+      const lap = samples.slice(crossings[i - 1], crossings[i] + 1);
+      const hasGap = lap.some((sample, j) => j > 0 && sample.time - lap[j - 1].time > MAX_SAMPLE_GAP_MS);
+      if (hasGap) continue;
+      laps.push({
+        driverNumber,
+        samples: lap,
+        lapTime: lap[lap.length - 1].time - lap[0].time,
+        length: polylineLength(lap)
+      });
+    }
+  });
+  if (laps.length === 0) return null;
+
+  const lengths = laps.map(lap => lap.length).sort((a, b) => a - b);
+  const median = lengths[Math.floor(lengths.length / 2)];
+  const clean = laps.filter(lap => Math.abs(lap.length - median) <= median * LENGTH_TOLERANCE);
+
+  return clean.reduce<CleanLap | null>(
+    (fastest, lap) => (!fastest || lap.lapTime < fastest.lapTime ? lap : fastest),
+    null
+  );
+}
+
+// Reamostra um contorno fechado em pontos igualmente espaçados ao longo do arco
+const resampleClosed = (points: { x: number; y: number }[], spacing: number) => {
+  const closed = [...points, points[0]];
+  const cumulative = [0];
+  for (let i = 1; i < closed.length; i++) {
+    cumulative.push(cumulative[i - 1] + distanceBetween(closed[i - 1], closed[i]));
+  }
+  const total = cumulative[cumulative.length - 1];
+  const count = Math.max(3, Math.round(total / spacing));
+  const step = total / count;
+
+  const resampled: { x: number; y: number }[] = [];
+  let segment = 1;
+  for (let i = 0; i < count; i++) {
+    const target = i * step;
+    while (segment < closed.length - 1 && cumulative[segment] < target) segment++;
+    const span = cumulative[segment] - cumulative[segment - 1];
+    const t = span > 0 ? (target - cumulative[segment - 1]) / span : 0;
+    const a = closed[segment - 1];
+    const b = closed[segment];
+    resampled.push({ x: a.x + (b.x - a.x) * t, y: a.y + (b.y - a.y) * t });
+  }
+  return resampled;
+};
+
+// Média móvel circular
+const smoothClosed = (points: { x: number; y: number }[], radius: number) =>
+  points.map((_, i) => {
+    let x = 0;
+    let y = 0;
+    for (let k = -radius; k <= radius; k++) {
+      const point = points[(i + k + points.length) % points.length];
+      x += point.x;
+      y += point.y;
+    }
+    return { x: x / (radius * 2 + 1), y: y / (radius * 2 + 1) };
+  });
+
+// Monta o modelo a partir da volta limpa mais rápida nas posições; null sem volta completa
+export function buildTrackModel(
+  positions: CarPosition[],
+  reference: TelemetryPoint,
+  startFinish: TelemetryPoint | null = null
+): TrackModel | null {
+  const lap = findFastestCleanLap(positions, reference);
+  return lap ? buildTrackModelFromLap(lap, startFinish) : null;
+}
+
+export function buildTrackModelFromLap(lap: CleanLap, startFinish: TelemetryPoint | null = null): TrackModel {
+  // O último ponto da volta coincide (aprox.) com o primeiro: o contorno é fechado
+  const outline = lap.samples.slice(0, -1);
+  const smoothed = smoothClosed(resampleClosed(outline, SPACING), SMOOTHING_RADIUS);
+  const resampled = resampleClosed(smoothed, SPACING);
+  const spacing = polylineLength([...resampled, resampled[0]]) / resampled.length;
+
+  const points = resampled.map((point, i) => {
+    const previous = resampled[(i - 1 + resampled.length) % resampled.length];
+    const next = resampled[(i + 1) % resampled.length];
+    return {
+      x: point.x,
+      y: point.y,
+      distance: i * spacing,
+      heading: Math.atan2(next.y - previous.y, next.x - previous.x)
+    };
+  });
+
+  return alignTrackModel({
+    points,
+    length: spacing * points.length,
+    spacing,
+    startFinish: points[0],
+    source: { driverNumber: lap.driverNumber, lapStart: lap.samples[0].timestamp, lapTime: lap.lapTime }
+  }, startFinish);
+}
+
+// Gira a linha de referência para que a distância 0 fique na projeção da linha de chegada;
+// sem ela, o modelo continua começando onde começou a volta de referência
+export function alignTrackModel(model: TrackModel, startFinish: TelemetryPoint | null): TrackModel {
+  if (!startFinish) return model;
+  const { index } = projectOntoTrack(model, startFinish.x, startFinish.y);
+  if (index === 0) return model;
+
+  const points = [...model.points.slice(index), ...model.points.slice(0, index)]
+    .map((point, i) => ({ ...point, distance: i * model.spacing }));
+  return { ...model, points, startFinish: points[0] };
+}
+
+// Projeta um ponto na linha de referência. `hint` (índice anterior) restringe a busca
+// à vizinhança, para seguir um carro amostra a amostra sem varrer a pista toda.
+export function projectOntoTrack(model: TrackModel, x: number, y: number, hint?: number): TrackProjection {
+  const { points } = model;
+  const count = points.length;
+
+  const nearestIn = (from: number, to: number) => {
+    let best = from;
+    let bestDistance = Infinity;
+    for (let i = from; i <= to; i++) {
+      const point = points[((i % count) + count) % count];
+      const distance = (point.x - x) ** 2 + (point.y - y) ** 2;
+      if (distance < bestDistance) {
+        bestDistance = distance;
+        best = ((i % count) + count) % count;
+      }
+    }
+    return { index: best, distance: Math.sqrt(bestDistance) };
+  };
+
+  let nearest = hint !== undefined ? nearestIn(hint - 20, hint + 40) : null;
+  if (!nearest || nearest.distance > CROSSING_RADIUS) nearest = nearestIn(0, count - 1);
+
+  // Refina no segmento até o ponto seguinte
+  const a = points[nearest.index];
+  const b = points[(nearest.index + 1) % count];
+  const dx = b.x - a.x;
+  const dy = b.y - a.y;
+  const segment = dx * dx + dy * dy;
+  const t = segment > 0 ? Math.max(-0.5, Math.min(1, ((x - a.x) * dx + (y - a.y) * dy) / segment)) : 0;
+  const offset = segment > 0 ? (dx * (y - a.y) - dy * (x - a.x)) / Math.sqrt(segment) : 0;
+  const distance = (a.distance + t * model.spacing + model.length) % model.length;
+
+  return { index: nearest.index, distance, offset };
+}
+
+// Cache por circuito: memória e localStorage (a reconstrução exige uma volta completa carregada)
+const STORAGE_PREFIX = 'track-model:';
+const models = new Map<string, TrackModel>();
+
+export function getCachedTrackModel(key: string): TrackModel | null {
+  const inMemory = models.get(key);
+  if (inMemory) return inMemory;
+  try {
+    const stored = localStorage.getItem(STORAGE_PREFIX + key);
+    if (!stored) return null;
+    const model = JSON.parse(stored) as TrackModel;
+    models.set(key, model);
+    return model;
+  } catch {
+    return null;
+  }
+}
+
+export function cacheTrackModel(key: string, model: TrackModel) {
+  models.set(key, model);
+  try {
+    localStorage.setItem(STORAGE_PREFIX + key, JSON.stringify(model));
+  } catch (error) {
+    console.warn('Não foi possível salvar o modelo da pista:', error);
+  }
+}
+
+export function clearTrackModel(key: string) {
+  models.delete(key);
+  localStorage.removeItem(STORAGE_PREFIX + key);
+}
@@ -0,0 +1,253 @@
+// Geometria e estatísticas das trajetórias, calculadas no worker (src/workers/trajectory.worker.ts).
+// As funções são puras; o worker guarda as amostras por piloto e responde às consultas.
+import type { CarPosition } from './database.types';
+import type { TimestampedRow } from './clock';
+import type { TrackModel } from './trackModel';
+import type { CornerAnalysis } from './corners';
+import type { LineAnalysis } from './racingLine';
+import type { ElevationProfile } from './elevation';
+
+export type TrackPoint = { x: number; y: number };
+
+export type TrackOutline = {
+  trackPath: string;
+  bounds: { minX: number; maxX: number; minY: number; maxY: number };
+  // Pontos discretizados do contorno, em coordenadas da telemetria
+  points: TrackPoint[];
+};
+
+// Contorno acumulado da sessão e instantes distintos das posições carregadas (quadros do replay)
+export type TrackSummary = {
+  outline: TrackOutline;
+  frames: TimestampedRow[];
+};
+
+// Amostra de um piloto com a cinemática já calculada
+export type TrajectorySample = {
+  x: number;
+  y: number;
+  z: number | null;
+  time: number;
+  timestamp: string;
+  // km/h, g e metros desde a amostra anterior (ver computeKinematics)
+  speed: number | null;
+  acceleration: number | null;
+  distance: number;
+};
+
+// Ponto pronto para desenhar: direção unitária até o ponto seguinte (vetores de velocidade)
+export type TrajectoryPoint = {
+  x: number;
+  y: number;
+  speed: number | null;
+  dirX: number;
+  dirY: number;
+};
+
+export type DriverTrajectory = {
+  driverNumber: string;
+  // Caminho no formato do atributo `d` do SVG
+  path: string;
+  points: TrajectoryPoint[];
+};
+
+export type HeatmapCell = {
+  x: number;
+  y: number;
+  // Velocidade média normalizada pela maior da grade (0–1)
+  intensity: number;
+  count: number;
+  // Velocidade média na célula (km/h)
+  speed: number;
+};
+
+export type DriverStats = {
+  maxSpeed: number;
+  avgSpeed: number;
+  // g: maior aceleração e maior desaceleração (positiva)
+  maxAcceleration: number | null;
+  maxBraking: number | null;
+  // Metros
+  totalDistance: number;
+  positionCount: number;
+};
+
+export type TrajectoryQuery = {
+  drivers: string[];
+  // Trecho analisado em tempo da sessão (ms); null = todas as posições carregadas
+  window: { start: number; end: number } | null;
+  heatmap: boolean;
+  // Zonas de frenagem e tração e a comparação por curva
+  corners: boolean;
+  // Afastamento da linha de referência e consistência entre voltas (exige a linha de referência)
+  lines: boolean;
+  // Perfil de altitude pela distância (exige a linha de referência)
+  elevation: boolean;
+};
+
+export type TrajectoryResult = {
+  trajectories: DriverTrajectory[];
+  heatmap: HeatmapCell[];
+  stats: Record<string, DriverStats>;
+  // Faixa de velocidades no trecho (km/h), comum às cores de todos os pilotos
+  speedRange: { min: number; max: number } | null;
+  // Limites de todas as posições carregadas
+  bounds: TrackOutline['bounds'] | null;
+  corners: CornerAnalysis | null;
+  lines: LineAnalysis | null;
+  elevation: ElevationProfile | null;
+};
+
+// Mensagens da página para o worker. Consultas (query/summary) levam um id crescente:
+// uma consulta nova do mesmo tipo cancela a anterior, que responde 'cancelled'.
+export type TrajectoryRequest =
+  | { type: 'reset'; metersPerUnit: number }
+  // Linha de referência usada para comparar as curvas entre pilotos
+  | { type: 'model'; model: TrackModel | null }
+  | { type: 'append'; positions: CarPosition[] }
+  // Descarta amostras fora dos trechos carregados (blocos que saíram da memória)
+  | { type: 'retain'; ranges: { from: number; to: number }[] }
+  | { type: 'query'; id: number; query: TrajectoryQuery }
+  | { type: 'summary'; id: number };
+
+export type TrajectoryResponse =
+  | { type: 'result'; id: number; result: TrajectoryResult }
+  | { type: 'summary'; id: number; summary: TrackSummary }
+  | { type: 'cancelled'; id: number };
+
+// Tamanho da célula usada para discretizar o contorno do circuito
+export const OUTLINE_GRID = 50;
+// Tamanho da célula do mapa de calor, em unidades da telemetria
+export const HEATMAP_CELL = 200;
+
+// Amostras mais distantes que isto no contorno indicam uma nova seção
+const OUTLINE_JOIN_DISTANCE = 500;
+
+const EMPTY_OUTLINE: TrackOutline = { trackPath: '', bounds: { minX: 0, maxX: 0, minY: 0, maxY: 0 }, points: [] };
+
+// Célula do contorno de uma posição (discretizada para reduzir ruído)
+export const outlineCell = (x: number, y: number): TrackPoint => ({
+  x: Math.round(x / OUTLINE_GRID) * OUTLINE_GRID,
+  y: Math.round(y / OUTLINE_GRID) * OUTLINE_GRID
+});
+
+// Limites de uma lista de pontos, em laço (Math.min(...) estoura a pilha em listas longas)
+export function getBounds(points: Iterable<TrackPoint>): TrackOutline['bounds'] | null {
+  let bounds: TrackOutline['bounds'] | null = null;
+  for (const p of points) {
+    bounds = bounds
+      ? { minX: Math.min(bounds.minX, p.x), maxX: Math.max(bounds.maxX, p.x), minY: Math.min(bounds.minY, p.y), maxY: Math.max(bounds.maxY, p.y) }
+      : { minX: p.x, maxX: p.x, minY: p.y, maxY: p.y };
+  }
+  return bounds;
+}
+
+// Contorno aproximado: ordena as células pelo vizinho mais próximo (quadrático no número de células)
+export function buildTrackOutline(cells: TrackPoint[]): TrackOutline {
+  const bounds = getBounds(cells);
+  if (!bounds) return EMPTY_OUTLINE;
+
+  const orderedPoints = [cells[0]];
+  const remaining = cells.slice(1);
+
+  while (remaining.length > 0) {
+    const lastPoint = orderedPoints[orderedPoints.length - 1];
+    let nearestIndex = 0;
+    let nearestDistance = Infinity;
+
+    remaining.forEach((point, index) => {
+      const distance = Math.hypot(point.x - lastPoint.x, point.y - lastPoint.y);
+      if (distance < nearestDistance) {
+        nearestDistance = distance;
+        nearestIndex = index;
+      }
+    });
+
+    // Se a distância é muito grande, pode ser que estejamos começando uma nova seção
+    if (nearestDistance < OUTLINE_JOIN_DISTANCE) {
+      orderedPoints.push(remaining[nearestIndex]);
+    }
+    remaining.splice(nearestIndex, 1);
+  }
+
+  const trackPath = orderedPoints.length > 1
+    ? `M ${orderedPoints.map(p => `${p.x} ${p.y}`).join(' L ')} Z`
+    : '';
+
+  return { trackPath, bounds, points: cells };
+}
+
+// Trajetória e estatísticas de um piloto a partir das amostras do trecho analisado
+export function summarizeDriver(driverNumber: string, inWindow: TrajectorySample[]) {
+  if (inWindow.length === 0) return null;
+
+  const points = inWindow.map((s, i): TrajectoryPoint => {
+    const next = inWindow[i + 1];
+    const length = next ? Math.hypot(next.x - s.x, next.y - s.y) : 0;
+    return {
+      x: s.x,
+      y: s.y,
+      speed: s.speed,
+      dirX: length > 0 ? (next.x - s.x) / length : 0,
+      dirY: length > 0 ? (next.y - s.y) / length : 0
+    };
+  });
+
+  const speeds = inWindow.flatMap(s => s.speed !== null && s.speed > 0 ? [s.speed] : []);
+  const accelerations = inWindow.flatMap(s => s.acceleration !== null ? [s.acceleration] : []);
+  let maxSpeed = 0;
+  let speedSum = 0;
+  let minSpeed = Infinity;
+  speeds.forEach(speed => {
+    maxSpeed = Math.max(maxSpeed, speed);
+    minSpeed = Math.min(minSpeed, speed);
+    speedSum += speed;
+  });
+  let maxAcceleration = 0;
+  let maxBraking = 0;
+  accelerations.forEach(g => {
+    maxAcceleration = Math.max(maxAcceleration, g);
+    maxBraking = Math.max(maxBraking, -g);
+  });
+
+  const stats: DriverStats = {
+    maxSpeed,
+    avgSpeed: speeds.length > 0 ? speedSum / speeds.length : 0,
+    maxAcceleration: accelerations.length > 0 ? maxAcceleration : null,
+    maxBraking: accelerations.length > 0 ? maxBraking : null,
+    totalDistance: inWindow.reduce((sum, s) => sum + s.distance, 0),
+    positionCount: inWindow.length
+  };
+
+  const trajectory: DriverTrajectory = {
+    driverNumber,
+    path: `M ${points.map(p => `${p.x} ${p.y}`).join(' L ')}`,
+    points
+  };
+
+  return { trajectory, stats, speedRange: speeds.length > 0 ? { min: minSpeed, max: maxSpeed } : null };
+}
+
+// Acumula a velocidade das amostras nas células do mapa de calor
+export function accumulateHeatmap(grid: Map<string, HeatmapCell>, samples: TrajectorySample[]) {
+  samples.forEach(s => {
+    if (s.speed === null) return;
+    const x = Math.floor(s.x / HEATMAP_CELL) * HEATMAP_CELL;
+    const y = Math.floor(s.y / HEATMAP_CELL) * HEATMAP_CELL;
+    const key = `${x},${y}`;
+    let cell = grid.get(key);
+    if (!cell) {
+      cell = { x, y, intensity: 0, count: 0, speed: 0 };
+      grid.set(key, cell);
+    }
+    cell.count += 1;
+    cell.speed += s.speed;
+  });
+}
+
+// Velocidade média por célula, normalizada pela maior velocidade média
+export function finishHeatmap(grid: Map<string, HeatmapCell>): HeatmapCell[] {
+  const cells = Array.from(grid.values()).map(cell => ({ ...cell, speed: cell.speed / cell.count }));
+  const maxSpeed = cells.reduce((max, cell) => Math.max(max, cell.speed), 0);
+  return cells.map(cell => ({ ...cell, intensity: maxSpeed > 0 ? cell.speed / maxSpeed : 0 }));
+}
@@ -0,0 +1,98 @@
+// Unidades físicas a partir das coordenadas da telemetria: a escala de cada circuito vem do
+// comprimento oficial da volta comparado ao comprimento da linha de referência reconstruída
+import type { CircuitDefinition } from './circuits';
+import type { TrackModel } from './trackModel';
+
+// Escala aproximada quando o circuito ou o modelo da pista não são conhecidos
+export const DEFAULT_METERS_PER_UNIT = 0.1;
+// Escalas fora desta faixa indicam um modelo da pista incompleto
+const MIN_METERS_PER_UNIT = 0.05;
+const MAX_METERS_PER_UNIT = 0.2;
+
+const GRAVITY = 9.80665;
+// Amostras de cada lado na diferença centrada (suaviza o ruído das posições)
+const SMOOTHING_SAMPLES = 2;
+// Acima disto o deslocamento entre duas amostras é falha da telemetria
+const MAX_SPEED_KMH = 400;
+// Acelerações longitudinais acima disto são ruído
+const MAX_ACCELERATION_G = 6;
+// Buracos maiores que isto na telemetria interrompem a janela
+const MAX_GAP_MS = 3_000;
+
+// Metros por unidade da telemetria no circuito
+export function getMetersPerUnit(circuit: CircuitDefinition | null, model: TrackModel | null): number {
+  if (!circuit || !model || model.length <= 0) return DEFAULT_METERS_PER_UNIT;
+  const scale = circuit.lapLength / model.length;
+  return scale >= MIN_METERS_PER_UNIT && scale <= MAX_METERS_PER_UNIT ? scale : DEFAULT_METERS_PER_UNIT;
+}
+
+export type KinematicSample = {
+  // km/h (null em falhas da telemetria ou sem vizinhos próximos)
+  speed: number | null;
+  // g, positivo acelerando e negativo freando
+  acceleration: number | null;
+  // Metros desde a amostra válida anterior
+  distance: number;
+};
+
+type TimedPoint = { x: number; y: number; time: number };
+
+// Índices válidos vizinhos de `i`, até `radius` de cada lado, sem atravessar buracos
+const windowAround = (valid: number[], times: number[], i: number, radius: number) => {
+  let from = i;
+  let to = i;
+  while (from > Math.max(0, i - radius) && times[valid[i]] - times[valid[from - 1]] <= MAX_GAP_MS) from--;
+  while (to < Math.min(valid.length - 1, i + radius) && times[valid[to + 1]] - times[valid[i]] <= MAX_GAP_MS) to++;
+  return { from, to };
+};
+
+// Velocidade, aceleração e distância de cada amostra de um piloto (em ordem cronológica):
+// descarta saltos impossíveis e usa diferenças centradas sobre algumas amostras
+export function computeKinematics(points: TimedPoint[], metersPerUnit: number): KinematicSample[] {
+  const samples: KinematicSample[] = points.map(() => ({ speed: null, acceleration: null, distance: 0 }));
+  const times = points.map(p => p.time);
+
+  // Amostras válidas e distância acumulada (m) até cada uma
+  const valid: number[] = [];
+  const traveled: number[] = [];
+  points.forEach((point, index) => {
+    const last = valid[valid.length - 1];
+    if (last === undefined) {
+      valid.push(index);
+      traveled.push(0);
+      return;
+    }
+    const dt = point.time - points[last].time;
+    const meters = Math.hypot(point.x - points[last].x, point.y - points[last].y) * metersPerUnit;
+    if (dt <= 0 || (meters / (dt / 1000)) * 3.6 > MAX_SPEED_KMH) return;
+    samples[index].distance = meters;
+    valid.push(index);
+    traveled.push(traveled[traveled.length - 1] + meters);
+  });
+
+  const speeds = valid.map((_, i) => {
+    const { from, to } = windowAround(valid, times, i, SMOOTHING_SAMPLES);
+    const dt = times[valid[to]] - times[valid[from]];
+    return dt > 0 ? ((traveled[to] - traveled[from]) / (dt / 1000)) * 3.6 : null;
+  });
+
+  valid.forEach((index, i) => {
+    samples[index].speed = speeds[i];
+    const { from, to } = windowAround(valid, times, i, SMOOTHING_SAMPLES);
+    const a = speeds[from];
+    const b = speeds[to];
+    const dt = times[valid[to]] - times[valid[from]];
+    if (a === null || b === null || dt <= 0) return;
+    const g = ((b - a) / 3.6) / (dt / 1000) / GRAVITY;
+    samples[index].acceleration = Math.abs(g) <= MAX_ACCELERATION_G ? g : null;
+  });
+
+  return samples;
+}
+
+export const formatSpeed = (kmh: number | null) => kmh === null ? '—' : `${Math.round(kmh)} km/h`;
+
+export const formatAcceleration = (g: number | null) => g === null ? '—' : `${g.toFixed(1)} g`;
+
+export const formatDistance = (meters: number) =>
+  meters >= 1000 ? `${(meters / 1000).toFixed(2)} km` : `${Math.round(meters)} m`;
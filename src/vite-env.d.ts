@@ -1 +1,13 @@
 /// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  readonly VITE_SUPABASE_URL?: string
+  readonly VITE_SUPABASE_ANON_KEY?: string
+  readonly VITE_CHANNEL_NAME?: string
+  readonly VITE_DATA_SOURCE?: 'supabase' | 'fixtures'
+  readonly VITE_FIXTURES_URL?: string
+}
+
+interface ImportMeta {
+  readonly env: ImportMetaEnv
+}
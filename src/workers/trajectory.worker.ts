@@ -0,0 +1,244 @@
+// Worker das trajetórias: guarda as posições carregadas por piloto e calcula contorno,
+// cinemática, mapa de calor e estatísticas fora da thread da interface
+import type { CarPosition } from '../lib/database.types';
+import { toMillis } from '../lib/clock';
+import { computeKinematics, DEFAULT_METERS_PER_UNIT } from '../lib/units';
+import type { TrackModel } from '../lib/trackModel';
+import { buildCornerZones, detectCornerEvents, summarizeCorners, type CornerAnalysis, type CornerEvent } from '../lib/corners';
+import { analyzeRacingLines, type LineAnalysis } from '../lib/racingLine';
+import { analyzeElevation, type ElevationProfile } from '../lib/elevation';
+import {
+  accumulateHeatmap,
+  buildTrackOutline,
+  finishHeatmap,
+  getBounds,
+  outlineCell,
+  summarizeDriver,
+  type DriverStats,
+  type DriverTrajectory,
+  type HeatmapCell,
+  type TrackPoint,
+  type TrajectoryQuery,
+  type TrajectoryRequest,
+  type TrajectoryResponse,
+  type TrajectorySample
+} from '../lib/trajectory';
+
+let metersPerUnit = DEFAULT_METERS_PER_UNIT;
+let trackModel: TrackModel | null = null;
+// Amostras por piloto em ordem cronológica, com a chave piloto|timestamp para deduplicar
+const drivers = new Map<string, TrajectorySample[]>();
+const keys = new Set<string>();
+// Pilotos com amostras novas desde o último cálculo da cinemática
+const dirty = new Set<string>();
+// Contorno acumulado da sessão (não descartado com os blocos)
+const outlineCells = new Map<string, TrackPoint>();
+// Instantes distintos ordenados (null = recalcular)
+let frames: { time: number; timestamp: string }[] | null = null;
+// Consulta mais recente de cada tipo; as anteriores são abandonadas
+const latest = { query: 0, summary: 0 };
+
+const post = (response: TrajectoryResponse) => self.postMessage(response);
+
+// Devolve a vez à fila de mensagens, para que uma consulta nova possa cancelar esta
+const yieldToQueue = () => new Promise(resolve => setTimeout(resolve, 0));
+
+const sampleKey = (driverNumber: string, timestamp: string) => `${driverNumber}|${timestamp}`;
+
+function reset(scale: number) {
+  metersPerUnit = scale;
+  drivers.clear();
+  keys.clear();
+  dirty.clear();
+  outlineCells.clear();
+  frames = null;
+}
+
+function append(positions: CarPosition[]) {
+  positions.forEach(pos => {
+    if (pos.x_coord === null || pos.y_coord === null) return;
+    const key = sampleKey(pos.driver_number, pos.timestamp);
+    if (keys.has(key)) return;
+    keys.add(key);
+
+    let samples = drivers.get(pos.driver_number);
+    if (!samples) {
+      samples = [];
+      drivers.set(pos.driver_number, samples);
+    }
+    samples.push({
+      x: pos.x_coord,
+      y: pos.y_coord,
+      z: pos.z_coord,
+      time: toMillis(pos.timestamp),
+      timestamp: pos.timestamp,
+      speed: null,
+      acceleration: null,
+      distance: 0
+    });
+    dirty.add(pos.driver_number);
+
+    const cell = outlineCell(pos.x_coord, pos.y_coord);
+    outlineCells.set(`${cell.x},${cell.y}`, cell);
+  });
+  dirty.forEach(driverNumber => drivers.get(driverNumber)!.sort((a, b) => a.time - b.time));
+  frames = null;
+}
+
+function retain(ranges: { from: number; to: number }[]) {
+  const isRetained = (time: number) => ranges.some(range => time >= range.from && time <= range.to);
+  drivers.forEach((samples, driverNumber) => {
+    const kept = samples.filter(s => isRetained(s.time));
+    if (kept.length === samples.length) return;
+    samples.forEach(s => {
+      if (!isRetained(s.time)) keys.delete(sampleKey(driverNumber, s.timestamp));
+    });
+    drivers.set(driverNumber, kept);
+    dirty.add(driverNumber);
+  });
+  frames = null;
+}
+
+// Cinemática recalculada só para os pilotos com amostras novas ou descartadas
+function updateKinematics(driverNumber: string) {
+  const samples = drivers.get(driverNumber);
+  if (!samples || !dirty.has(driverNumber)) return;
+  const kinematics = computeKinematics(samples, metersPerUnit);
+  samples.forEach((s, i) => Object.assign(s, kinematics[i]));
+  dirty.delete(driverNumber);
+}
+
+function getFrames() {
+  if (!frames) {
+    const seen = new Map<string, number>();
+    drivers.forEach(samples => samples.forEach(s => seen.set(s.timestamp, s.time)));
+    frames = Array.from(seen, ([timestamp, time]) => ({ time, timestamp })).sort((a, b) => a.time - b.time);
+  }
+  return frames;
+}
+
+async function runQuery(id: number, query: TrajectoryQuery) {
+  latest.query = id;
+  const from = query.window?.start ?? -Infinity;
+  const to = query.window?.end ?? Infinity;
+
+  const trajectories: DriverTrajectory[] = [];
+  const stats: Record<string, DriverStats> = {};
+  const grid = new Map<string, HeatmapCell>();
+  let speedRange: { min: number; max: number } | null = null;
+  const corners: CornerAnalysis = { zones: [], apexes: [], corners: [] };
+  const cornerEvents: Record<string, { samples: TrajectorySample[]; events: CornerEvent[] }> = {};
+
+  for (const driverNumber of query.drivers) {
+    await yieldToQueue();
+    if (latest.query !== id) {
+      post({ type: 'cancelled', id });
+      return;
+    }
+
+    const samples = drivers.get(driverNumber);
+    if (!samples) continue;
+    updateKinematics(driverNumber);
+
+    const inWindow = samples.filter(s => s.time >= from && s.time <= to);
+    if (query.heatmap) accumulateHeatmap(grid, inWindow);
+    const summary = summarizeDriver(driverNumber, inWindow);
+    if (!summary) continue;
+    trajectories.push(summary.trajectory);
+    stats[driverNumber] = summary.stats;
+    if (summary.speedRange) {
+      speedRange = speedRange
+        ? { min: Math.min(speedRange.min, summary.speedRange.min), max: Math.max(speedRange.max, summary.speedRange.max) }
+        : summary.speedRange;
+    }
+
+    // A consistência da linha e a altimetria também são relacionadas às curvas
+    const needsCorners = query.corners || query.lines || query.elevation;
+    if (needsCorners) {
+      const events = detectCornerEvents(inWindow);
+      cornerEvents[driverNumber] = { samples: inWindow, events };
+      if (query.corners) {
+        corners.zones.push(...buildCornerZones(driverNumber, inWindow, events));
+        events.forEach(event => {
+          const apex = inWindow[event.apex];
+          corners.apexes.push({ driverNumber, x: apex.x, y: apex.y, speed: event.apexSpeed });
+        });
+      }
+    }
+  }
+
+  let lines: LineAnalysis | null = null;
+  let elevation: ElevationProfile | null = null;
+  if ((query.corners || query.lines || query.elevation) && trackModel) {
+    await yieldToQueue();
+    if (latest.query !== id) {
+      post({ type: 'cancelled', id });
+      return;
+    }
+    corners.corners = summarizeCorners(cornerEvents, trackModel, metersPerUnit);
+
+    const windowSamples = Object.fromEntries(Object.entries(cornerEvents).map(([driverNumber, { samples }]) => [driverNumber, samples]));
+    if (query.lines) lines = analyzeRacingLines(windowSamples, trackModel, metersPerUnit, corners.corners);
+    if (query.elevation) elevation = analyzeElevation(windowSamples, trackModel, metersPerUnit, corners.corners);
+  }
+
+  const bounds = getBounds((function* () {
+    for (const samples of drivers.values()) yield* samples;
+  })());
+
+  post({
+    type: 'result',
+    id,
+    result: {
+      trajectories,
+      heatmap: finishHeatmap(grid),
+      stats,
+      speedRange,
+      bounds,
+      corners: query.corners ? corners : null,
+      lines,
+      elevation
+    }
+  });
+}
+
+async function runSummary(id: number) {
+  latest.summary = id;
+  // Várias atualizações seguidas de posições: só a última é processada
+  await yieldToQueue();
+  if (latest.summary !== id) {
+    post({ type: 'cancelled', id });
+    return;
+  }
+
+  const outline = buildTrackOutline(Array.from(outlineCells.values()));
+  post({
+    type: 'summary',
+    id,
+    summary: { outline, frames: getFrames().map(({ timestamp }) => ({ timestamp })) }
+  });
+}
+
+self.addEventListener('message', (event: MessageEvent<TrajectoryRequest>) => {
+  const request = event.data;
+  switch (request.type) {
+    case 'reset':
+      reset(request.metersPerUnit);
+      break;
+    case 'model':
+      trackModel = request.model;
+      break;
+    case 'append':
+      append(request.positions);
+      break;
+    case 'retain':
+      retain(request.ranges);
+      break;
+    case 'query':
+      runQuery(request.id, request.query);
+      break;
+    case 'summary':
+      runSummary(request.id);
+      break;
+  }
+});